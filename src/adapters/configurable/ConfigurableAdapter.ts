@@ -0,0 +1,370 @@
+import { z, type RefinementCtx, type ZodType, type ZodTypeDef } from 'zod';
+import type {
+  WebhookAdapter,
+  AdapterMetadata,
+  NormalizedWebhook,
+  WebhookRequest,
+} from '../interfaces/WebhookAdapter.js';
+import type { AdapterMapping, TimestampUnit } from '../../domain/entities/AdapterMapping.js';
+import type { ProviderCredentials } from '../../domain/entities/Tenant.js';
+import { WebhookSignatureError, WebhookValidationError } from '../../domain/errors/WebhookErrors.js';
+import { buildTextContent } from '../shared/MessageContentBuilder.js';
+import { getHeader, safeCompare } from '../shared/RequestVerification.js';
+import {
+  parseSelector,
+  selectAll,
+  selectFirst,
+  toIssuePath,
+  type SelectedValue,
+  type SelectorSegment,
+} from './FieldSelector.js';
+
+/**
+ * Mensagem extraída do payload pelos seletores do mapeamento.
+ */
+export interface ConfigurableMessage {
+  externalId: string;
+  phone: string;
+  name: string | undefined;
+  content: string;
+  timestamp: Date;
+  fromMe: boolean;
+}
+
+/**
+ * Payload validado de um provedor configurável.
+ */
+export interface ConfigurablePayload {
+  messages: ConfigurableMessage[];
+}
+
+/**
+ * Seletores do mapeamento já interpretados.
+ */
+interface CompiledMapping {
+  detect: Array<{ path: SelectorSegment[]; equals: string | number | boolean | undefined }>;
+  accountId: SelectorSegment[];
+  messages: SelectorSegment[] | null;
+  externalId: SelectorSegment[];
+  phone: SelectorSegment[];
+  name: SelectorSegment[] | null;
+  content: SelectorSegment[];
+  timestamp: SelectorSegment[];
+  timestampUnit: TimestampUnit;
+  fromMe: SelectorSegment[] | null;
+}
+
+/**
+ * Adapter genérico definido por um documento de mapeamento (AdapterMapping),
+ * para integrar provedores simples (Gupshup, WPPConnect, etc.) sem deploy.
+ *
+ * Responsabilidades:
+ * - Identificar a conta (e o tenant) pelo seletor accountId
+ * - Verificar o token do header configurado contra o clientToken da conta
+ * - Validar os campos obrigatórios de cada mensagem (fail-fast)
+ * - Normalizar as mensagens como texto
+ * - Identificar o provedor pelas condições de detecção
+ *
+ * Eventos de status e mídia não são suportados: exigem um adapter em código.
+ */
+export class ConfigurableAdapter implements WebhookAdapter<ConfigurablePayload> {
+  readonly provider: string;
+  readonly schema: ZodType<ConfigurablePayload, ZodTypeDef, unknown>;
+  readonly metadata: AdapterMetadata;
+  private readonly mapping: CompiledMapping;
+  readonly credentialHeaders: readonly string[];
+  private readonly tokenHeader: string | null;
+
+  /**
+   * @throws Error se algum seletor do mapeamento for inválido
+   */
+  constructor(mapping: AdapterMapping) {
+    const { definition } = mapping;
+    const { fields } = definition;
+
+    this.provider = mapping.provider;
+    this.tokenHeader = definition.tokenHeader?.toLowerCase() ?? null;
+    this.credentialHeaders = this.tokenHeader !== null ? [this.tokenHeader] : [];
+    this.metadata = {
+      displayName: mapping.name,
+      messageTypes: ['text'],
+      capabilities: {
+        signatureVerification: this.tokenHeader !== null,
+        verificationChallenge: false,
+        statusUpdates: false,
+      },
+    };
+    this.mapping = {
+      detect: definition.detect.map((rule) => ({
+        path: parseSelector(rule.path),
+        equals: rule.equals,
+      })),
+      accountId: parseSelector(definition.accountId),
+      messages: definition.messages !== null ? parseSelector(definition.messages) : null,
+      externalId: parseSelector(fields.externalId),
+      phone: parseSelector(fields.phone),
+      name: fields.name !== null ? parseSelector(fields.name) : null,
+      content: parseSelector(fields.content),
+      timestamp: parseSelector(fields.timestamp.path),
+      timestampUnit: fields.timestamp.unit,
+      fromMe: fields.fromMe !== null ? parseSelector(fields.fromMe) : null,
+    };
+    this.schema = z.unknown().transform((payload: unknown, ctx) => this.extract(payload, ctx));
+  }
+
+  /**
+   * Extrai o ID da conta pelo seletor do mapeamento.
+   */
+  extractAccountId(payload: unknown): string | undefined {
+    const value = selectFirst(payload, this.mapping.accountId);
+
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+    return typeof value === 'number' ? String(value) : undefined;
+  }
+
+  /**
+   * Compara o token do header configurado com o clientToken da conta.
+   * Sem header configurado, o provedor não autentica os webhooks.
+   * Com header configurado, rejeita contas sem clientToken (fail-closed).
+   * @throws WebhookSignatureError se o token estiver ausente ou não conferir
+   */
+  verifySignature(request: WebhookRequest, credentials: ProviderCredentials): void {
+    if (this.tokenHeader === null) {
+      return;
+    }
+
+    if (!credentials.clientToken) {
+      throw new WebhookSignatureError(this.provider, 'clientToken não cadastrado para a conta');
+    }
+
+    const token = getHeader(request, this.tokenHeader);
+
+    if (!token) {
+      throw new WebhookSignatureError(this.provider, `header ${this.tokenHeader} ausente`);
+    }
+
+    if (!safeCompare(token, credentials.clientToken)) {
+      throw new WebhookSignatureError(this.provider, `${this.tokenHeader} não confere`);
+    }
+  }
+
+  /**
+   * Valida o payload e extrai as mensagens pelos seletores.
+   * @throws WebhookValidationError se algum campo obrigatório faltar ou tiver tipo inválido
+   */
+  validate(payload: unknown): ConfigurablePayload {
+    const result = this.schema.safeParse(payload);
+
+    if (!result.success) {
+      throw new WebhookValidationError(this.provider, result.error);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Normaliza as mensagens extraídas para o formato único interno.
+   */
+  normalize(payload: ConfigurablePayload): NormalizedWebhook {
+    return {
+      messages: payload.messages.map((message) => ({
+        externalId: message.externalId,
+        provider: this.provider,
+        contact: {
+          phone: message.phone,
+          name: message.name || message.phone,
+        },
+        message: buildTextContent(message.content),
+        timestamp: message.timestamp,
+        isFromMe: message.fromMe,
+      })),
+      statuses: [],
+    };
+  }
+
+  /**
+   * Verifica se o payload atende a todas as condições de detecção do mapeamento.
+   */
+  canHandle(payload: unknown): boolean {
+    if (typeof payload !== 'object' || payload === null) {
+      return false;
+    }
+
+    return this.mapping.detect.every(({ path, equals }) => {
+      const value = selectFirst(payload, path);
+      return equals === undefined ? value !== undefined && value !== null : value === equals;
+    });
+  }
+
+  /**
+   * Extrai as mensagens do payload, registrando um issue por campo inválido
+   * (com o caminho no payload, usado no agrupamento da quarentena).
+   */
+  private extract(payload: unknown, ctx: RefinementCtx): ConfigurablePayload {
+    const items: SelectedValue[] = this.mapping.messages
+      ? selectAll(payload, this.mapping.messages)
+      : [{ value: payload, path: [] }];
+    const issues: FieldIssue[] = [];
+    const messages: ConfigurableMessage[] = [];
+
+    for (const item of items) {
+      const message = this.extractMessage(item, issues);
+      if (message) {
+        messages.push(message);
+      }
+    }
+
+    if (issues.length > 0) {
+      for (const issue of issues) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, ...issue });
+      }
+      return z.NEVER;
+    }
+
+    return { messages };
+  }
+
+  /**
+   * Extrai uma mensagem. Retorna undefined (com issues registrados) se inválida.
+   */
+  private extractMessage(item: SelectedValue, issues: FieldIssue[]): ConfigurableMessage | undefined {
+    const { mapping } = this;
+    const issueCount = issues.length;
+
+    const externalId = readField(item, mapping.externalId, issues, 'texto ou número', isIdentifier);
+    const phone = readField(item, mapping.phone, issues, 'texto ou número', isIdentifier);
+    const content = readField(item, mapping.content, issues, 'texto', isString);
+    const timestamp = this.readTimestamp(item, issues);
+    const name = mapping.name
+      ? readOptionalField(item, mapping.name, issues, 'texto', isString)
+      : undefined;
+    const fromMe = mapping.fromMe
+      ? readOptionalField(item, mapping.fromMe, issues, 'booleano', isBoolean)
+      : undefined;
+
+    const normalizedPhone = phone === undefined ? '' : normalizePhone(String(phone));
+    if (phone !== undefined && normalizedPhone === '') {
+      issues.push({ message: 'Telefone sem dígitos', path: toIssuePath(item.path, mapping.phone) });
+    }
+
+    if (
+      issues.length > issueCount ||
+      externalId === undefined ||
+      content === undefined ||
+      timestamp === undefined
+    ) {
+      return undefined;
+    }
+
+    return {
+      externalId: String(externalId),
+      phone: normalizedPhone,
+      name,
+      content,
+      timestamp,
+      fromMe: fromMe ?? false,
+    };
+  }
+
+  /**
+   * Lê e converte o timestamp conforme a unidade do mapeamento.
+   */
+  private readTimestamp(item: SelectedValue, issues: FieldIssue[]): Date | undefined {
+    const { timestamp: selector, timestampUnit: unit } = this.mapping;
+    const value = readField(item, selector, issues, 'texto ou número', isIdentifier);
+
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const date =
+      unit === 'iso'
+        ? new Date(String(value))
+        : new Date(Number(value) * (unit === 'seconds' ? 1000 : 1));
+
+    if (Number.isNaN(date.getTime())) {
+      issues.push({
+        message: `Timestamp inválido para a unidade ${unit}`,
+        path: toIssuePath(item.path, selector),
+      });
+      return undefined;
+    }
+
+    return date;
+  }
+}
+
+/**
+ * Campo inválido encontrado na extração.
+ */
+interface FieldIssue {
+  message: string;
+  path: Array<string | number>;
+}
+
+/**
+ * Lê um campo obrigatório da mensagem, registrando issue se ausente ou de tipo inválido.
+ */
+function readField<T>(
+  item: SelectedValue,
+  selector: SelectorSegment[],
+  issues: FieldIssue[],
+  expected: string,
+  guard: (value: unknown) => value is T
+): T | undefined {
+  const [selected] = selectAll(item.value, selector, item.path);
+
+  if (!selected || selected.value === null) {
+    issues.push({ message: 'Campo obrigatório ausente', path: toIssuePath(item.path, selector) });
+    return undefined;
+  }
+
+  if (!guard(selected.value)) {
+    issues.push({ message: `Esperado ${expected}`, path: selected.path });
+    return undefined;
+  }
+
+  return selected.value;
+}
+
+/**
+ * Lê um campo opcional da mensagem: ausente ou nulo retorna undefined sem issue.
+ */
+function readOptionalField<T>(
+  item: SelectedValue,
+  selector: SelectorSegment[],
+  issues: FieldIssue[],
+  expected: string,
+  guard: (value: unknown) => value is T
+): T | undefined {
+  const [selected] = selectAll(item.value, selector, item.path);
+
+  if (!selected || selected.value === null) {
+    return undefined;
+  }
+
+  return readField(item, selector, issues, expected, guard);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isIdentifier(value: unknown): value is string | number {
+  return (typeof value === 'string' && value.length > 0) || typeof value === 'number';
+}
+
+/**
+ * Normaliza o telefone para apenas dígitos.
+ * Ex: "5511999999999@c.us" -> "5511999999999"
+ */
+function normalizePhone(value: string): string {
+  const [phone = ''] = value.split('@');
+  return phone.replace(/\D/g, '');
+}
@@ -0,0 +1,142 @@
+/**
+ * Seletores de campo no estilo JSONPath usados pelos adapters configuráveis.
+ *
+ * Sintaxe suportada (subconjunto do JSONPath):
+ * - `$` raiz do documento
+ * - `.campo` ou `['campo']` propriedade de objeto
+ * - `[0]` posição de array
+ * - `[*]` todos os itens de um array
+ *
+ * Ex: "$.payload.sender.phone", "$.entry[*].messages[0].id"
+ */
+
+/**
+ * Trecho de um seletor já interpretado.
+ */
+export type SelectorSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+/**
+ * Valor encontrado por um seletor, com o caminho concreto até ele no documento
+ * (usado nos detalhes de erro de validação).
+ */
+export interface SelectedValue {
+  value: unknown;
+  path: Array<string | number>;
+}
+
+/**
+ * Um trecho do seletor: `.campo`, `[0]`, `[*]`, `['campo']` ou `["campo"]`.
+ */
+const SEGMENT_PATTERN = /\.([^.[\]'"]+)|\[(\d+)\]|\[(\*)\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+
+/**
+ * Interpreta um seletor.
+ * @throws Error se a sintaxe for inválida
+ */
+export function parseSelector(selector: string): SelectorSegment[] {
+  if (!selector.startsWith('$')) {
+    throw new Error(`Seletor deve começar com "$": ${selector}`);
+  }
+
+  const segments: SelectorSegment[] = [];
+  let position = 1;
+
+  while (position < selector.length) {
+    SEGMENT_PATTERN.lastIndex = position;
+    const match = SEGMENT_PATTERN.exec(selector);
+
+    if (!match) {
+      throw new Error(`Seletor inválido na posição ${position}: ${selector}`);
+    }
+
+    const [token, dotKey, index, wildcard, singleQuoted, doubleQuoted] = match;
+
+    if (index !== undefined) {
+      segments.push({ kind: 'index', index: Number(index) });
+    } else if (wildcard !== undefined) {
+      segments.push({ kind: 'wildcard' });
+    } else {
+      segments.push({ kind: 'key', key: dotKey ?? singleQuoted ?? doubleQuoted ?? '' });
+    }
+
+    position += token.length;
+  }
+
+  return segments;
+}
+
+/**
+ * Verifica se o seletor tem sintaxe válida.
+ */
+export function isValidSelector(selector: string): boolean {
+  try {
+    parseSelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Retorna todos os valores encontrados pelo seletor (vários, se houver `[*]`).
+ * Caminhos inexistentes são ignorados.
+ * @param basePath - Caminho do documento dentro do payload (para os detalhes de erro)
+ */
+export function selectAll(
+  document: unknown,
+  segments: SelectorSegment[],
+  basePath: Array<string | number> = []
+): SelectedValue[] {
+  let current: SelectedValue[] = [{ value: document, path: basePath }];
+
+  for (const segment of segments) {
+    const next: SelectedValue[] = [];
+
+    for (const { value, path } of current) {
+      if (segment.kind === 'wildcard') {
+        if (Array.isArray(value)) {
+          value.forEach((item: unknown, index) => next.push({ value: item, path: [...path, index] }));
+        }
+      } else if (segment.kind === 'index') {
+        if (Array.isArray(value) && segment.index < value.length) {
+          next.push({ value: value[segment.index] as unknown, path: [...path, segment.index] });
+        }
+      } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        const record = value as Record<string, unknown>;
+        if (Object.hasOwn(record, segment.key)) {
+          next.push({ value: record[segment.key], path: [...path, segment.key] });
+        }
+      }
+    }
+
+    current = next;
+  }
+
+  return current.filter(({ value }) => value !== undefined);
+}
+
+/**
+ * Retorna o primeiro valor encontrado pelo seletor, ou undefined.
+ */
+export function selectFirst(document: unknown, segments: SelectorSegment[]): unknown {
+  return selectAll(document, segments)[0]?.value;
+}
+
+/**
+ * Caminho esperado de um seletor a partir de um caminho base, para apontar
+ * campos ausentes nos detalhes de erro (`[*]` é representado por "*").
+ */
+export function toIssuePath(
+  basePath: Array<string | number>,
+  segments: SelectorSegment[]
+): Array<string | number> {
+  return [
+    ...basePath,
+    ...segments.map((segment) =>
+      segment.kind === 'key' ? segment.key : segment.kind === 'index' ? segment.index : '*'
+    ),
+  ];
+}
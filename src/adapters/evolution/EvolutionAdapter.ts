@@ -0,0 +1,171 @@
+import type { ZodSchema } from 'zod';
+import type {
+  WebhookAdapter,
+  AdapterMetadata,
+  NormalizedWebhook,
+} from '../interfaces/WebhookAdapter.js';
+import type { MessageContent } from '../../domain/entities/NormalizedMessage.js';
+import { WebhookValidationError } from '../../domain/errors/WebhookErrors.js';
+import { buildTextContent, buildMediaContent } from '../shared/MessageContentBuilder.js';
+import { EvolutionWebhookSchema, type EvolutionWebhookPayload } from './EvolutionSchema.js';
+
+/**
+ * Adapter para normalização de webhooks da Evolution API.
+ *
+ * Responsabilidades:
+ * - Identificar a instância (conta) pelo campo instance
+ * - Validar payload da Evolution API usando Zod (fail-fast)
+ * - Normalizar o evento messages.upsert para formato único interno
+ * - Identificar se o payload é da Evolution API
+ * - Mascarar a apikey da instância enviada no corpo antes do arquivamento
+ */
+export class EvolutionAdapter implements WebhookAdapter<EvolutionWebhookPayload> {
+  readonly provider = 'evolution' as const;
+  readonly schema: ZodSchema<EvolutionWebhookPayload> = EvolutionWebhookSchema;
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Evolution API',
+    messageTypes: ['text', 'image'],
+    capabilities: {
+      signatureVerification: false,
+      verificationChallenge: false,
+      statusUpdates: false,
+    },
+  };
+
+  /**
+   * Extrai o nome da instância Evolution, presente em todos os eventos.
+   */
+  extractAccountId(payload: unknown): string | undefined {
+    if (typeof payload !== 'object' || payload === null) {
+      return undefined;
+    }
+
+    const instance = (payload as Record<string, unknown>)['instance'];
+    return typeof instance === 'string' ? instance : undefined;
+  }
+
+  /**
+   * Valida o payload usando o schema Zod.
+   * @throws WebhookValidationError se inválido (fail-fast, sem fallback)
+   */
+  validate(payload: unknown): EvolutionWebhookPayload {
+    const result = this.schema.safeParse(payload);
+
+    if (!result.success) {
+      throw new WebhookValidationError(this.provider, result.error);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Normaliza o payload da Evolution API para formato único interno.
+   * Suporta mensagens de texto (conversation / extendedTextMessage) e imagens (caption).
+   * Cada evento messages.upsert contém exatamente uma mensagem.
+   */
+  normalize(payload: EvolutionWebhookPayload): NormalizedWebhook {
+    const { data } = payload;
+    const phone = this.normalizePhone(data.key.remoteJid);
+
+    return {
+      messages: [
+        {
+          externalId: data.key.id,
+          provider: this.provider,
+          contact: {
+            phone,
+            // pushName pode vir nulo (ex: contatos sem nome público)
+            name: data.pushName || phone,
+          },
+          message: this.extractContent(payload),
+          timestamp: new Date(Number(data.messageTimestamp) * 1000), // Unix timestamp em segundos
+          isFromMe: data.key.fromMe,
+        },
+      ],
+      statuses: [],
+    };
+  }
+
+  /**
+   * Extrai o conteúdo da mensagem.
+   * Prioridade: conversation > extendedTextMessage > imagem > placeholder
+   */
+  private extractContent(payload: EvolutionWebhookPayload): MessageContent {
+    const { message } = payload.data;
+
+    // Mensagem de texto simples
+    if (message.conversation) {
+      return buildTextContent(message.conversation);
+    }
+
+    // Mensagem de texto com formatação/preview de link
+    if (message.extendedTextMessage?.text) {
+      return buildTextContent(message.extendedTextMessage.text);
+    }
+
+    // Imagem (caption opcional)
+    if (message.imageMessage) {
+      return buildMediaContent('image', {
+        url: message.imageMessage.url,
+        mimeType: message.imageMessage.mimetype,
+        width: message.imageMessage.width,
+        height: message.imageMessage.height,
+        caption: message.imageMessage.caption,
+      });
+    }
+
+    // Fallback para outros tipos de mídia
+    return buildTextContent('[Mídia recebida]');
+  }
+
+  /**
+   * Mascara a apikey da instância, que a Evolution envia no corpo de cada webhook.
+   */
+  redactPayload(payload: unknown): unknown {
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      return payload;
+    }
+
+    const obj = payload as Record<string, unknown>;
+    if (typeof obj['apikey'] !== 'string') {
+      return payload;
+    }
+
+    return { ...obj, apikey: '[REDACTED]' };
+  }
+
+  /**
+   * Verifica se o payload é da Evolution API.
+   * Identifica pelos campos 'event', 'instance' e 'data.key'.
+   */
+  canHandle(payload: unknown): boolean {
+    if (typeof payload !== 'object' || payload === null) {
+      return false;
+    }
+
+    const obj = payload as Record<string, unknown>;
+
+    // Evolution API sempre envia 'event' e 'instance' no topo,
+    // e eventos de mensagem possuem 'data.key'
+    if (typeof obj['event'] !== 'string' || typeof obj['instance'] !== 'string') {
+      return false;
+    }
+
+    const data = obj['data'];
+    if (typeof data !== 'object' || data === null) {
+      return false;
+    }
+
+    const key = (data as Record<string, unknown>)['key'];
+    return typeof key === 'object' && key !== null;
+  }
+
+  /**
+   * Normaliza número de telefone a partir do JID.
+   * Ex: "5511999999999@s.whatsapp.net" -> "5511999999999"
+   */
+  private normalizePhone(remoteJid: string): string {
+    const [phone = ''] = remoteJid.split('@');
+    return phone.replace(/\D/g, '');
+  }
+}
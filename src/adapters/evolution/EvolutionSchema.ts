@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+/**
+ * Schema Zod para validação do webhook da Evolution API.
+ *
+ * Baseado na documentação oficial: https://doc.evolution-api.com/v2/en/configuration/webhooks
+ *
+ * IMPORTANTE: Este schema valida apenas o evento `messages.upsert`
+ * (mensagem recebida ou enviada pela instância).
+ * Suporta mensagens de TEXTO (conversation / extendedTextMessage) e IMAGEM (com caption).
+ */
+
+/**
+ * Schema para a chave de identificação da mensagem.
+ * - remoteJid: JID do chat (ex: "5511999999999@s.whatsapp.net")
+ * - fromMe: Se a mensagem foi enviada pela própria instância
+ * - id: ID único da mensagem
+ */
+const EvolutionKeySchema = z.object({
+  remoteJid: z.string().min(1),
+  fromMe: z.boolean(),
+  id: z.string().min(1),
+  participant: z.string().nullable().optional(),
+});
+
+/**
+ * Schema para mensagens de texto com formatação/preview de link.
+ */
+const EvolutionExtendedTextSchema = z.object({
+  text: z.string().min(1),
+});
+
+/**
+ * Schema para o objeto de imagem da mensagem.
+ */
+const EvolutionImageSchema = z.object({
+  url: z.string().optional(),
+  mimetype: z.string().optional(),
+  caption: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+});
+
+/**
+ * Schema para o conteúdo da mensagem.
+ * Tipos de mensagem (pelo menos um deve estar presente para ter conteúdo textual).
+ */
+const EvolutionMessageSchema = z.object({
+  conversation: z.string().optional(),
+  extendedTextMessage: EvolutionExtendedTextSchema.optional(),
+  imageMessage: EvolutionImageSchema.optional(),
+});
+
+/**
+ * Schema para o objeto data do evento.
+ */
+const EvolutionDataSchema = z.object({
+  key: EvolutionKeySchema,
+  pushName: z.string().nullable().optional(),
+  message: EvolutionMessageSchema,
+  messageType: z.string().optional(),
+  // Unix timestamp em segundos (algumas versões enviam como string)
+  messageTimestamp: z.union([z.number(), z.string().regex(/^\d+$/)]),
+});
+
+/**
+ * Schema principal do webhook Evolution API.
+ *
+ * Campos obrigatórios:
+ * - event: Nome do evento (messages.upsert)
+ * - instance: Nome da instância na Evolution API
+ * - data: Dados da mensagem
+ */
+export const EvolutionWebhookSchema = z.object({
+  event: z.literal('messages.upsert'),
+  instance: z.string().min(1),
+  data: EvolutionDataSchema,
+  destination: z.string().optional(),
+  date_time: z.string().optional(),
+  sender: z.string().optional(),
+  server_url: z.string().optional(),
+  apikey: z.string().nullable().optional(),
+});
+
+/**
+ * Tipo inferido do schema Evolution API.
+ */
+export type EvolutionWebhookPayload = z.infer<typeof EvolutionWebhookSchema>;
@@ -1,23 +1,53 @@
 /**
  * Módulo de Adapters
  *
- * Exporta todos os adapters e o registry.
- * Também inicializa o registry com os adapters disponíveis.
+ * Exporta todos os adapters, senders e registries.
+ * Também inicializa os registries com as implementações disponíveis.
  */
 
 // Interfaces
-export type { WebhookAdapter } from './interfaces/WebhookAdapter.js';
+export type {
+  WebhookAdapter,
+  AdapterMetadata,
+  AdapterCapabilities,
+  NormalizedWebhook,
+  WebhookRequest,
+  VerificationRequest,
+  VerificationHandshake,
+} from './interfaces/WebhookAdapter.js';
+export type {
+  MessageSender,
+  OutboundTextMessage,
+  SentMessage,
+} from './interfaces/MessageSender.js';
+export type { HttpClient, HttpRequest, HttpResponse } from './interfaces/HttpClient.js';
 
-// Registry
-export { AdapterRegistry, adapterRegistry } from './registry/AdapterRegistry.js';
+// Registries
+export {
+  AdapterRegistry,
+  adapterRegistry,
+  type ProviderDescriptor,
+} from './registry/AdapterRegistry.js';
+export { SenderRegistry, senderRegistry } from './registry/SenderRegistry.js';
 
 // Adapters
 export { ZApiAdapter } from './zapi/ZApiAdapter.js';
 export { MetaAdapter } from './meta/MetaAdapter.js';
+export { EvolutionAdapter } from './evolution/EvolutionAdapter.js';
+export {
+  ConfigurableAdapter,
+  type ConfigurablePayload,
+  type ConfigurableMessage,
+} from './configurable/ConfigurableAdapter.js';
+
+// Senders
+export { ZApiSender, type ZApiSenderConfig } from './zapi/ZApiSender.js';
+export { MetaSender, type MetaSenderConfig } from './meta/MetaSender.js';
 
 // Schemas (para uso em testes)
 export { ZApiWebhookSchema, type ZApiWebhookPayload } from './zapi/ZApiSchema.js';
 export { MetaWebhookSchema, type MetaWebhookPayload } from './meta/MetaSchema.js';
+export { EvolutionWebhookSchema, type EvolutionWebhookPayload } from './evolution/EvolutionSchema.js';
 
 // ============================================================
 // Inicialização dos Adapters
@@ -26,16 +56,44 @@ export { MetaWebhookSchema, type MetaWebhookPayload } from './meta/MetaSchema.js
 import { adapterRegistry } from './registry/AdapterRegistry.js';
 import { ZApiAdapter } from './zapi/ZApiAdapter.js';
 import { MetaAdapter } from './meta/MetaAdapter.js';
+import { EvolutionAdapter } from './evolution/EvolutionAdapter.js';
+import { senderRegistry } from './registry/SenderRegistry.js';
+import { ZApiSender, type ZApiSenderConfig } from './zapi/ZApiSender.js';
+import { MetaSender, type MetaSenderConfig } from './meta/MetaSender.js';
+import type { HttpClient } from './interfaces/HttpClient.js';
 
 /**
  * Inicializa o registry com todos os adapters disponíveis.
+ * Os segredos de verificação vêm da conta do tenant em cada webhook.
  * Deve ser chamado no startup da aplicação.
  */
 export function initializeAdapters(): void {
   adapterRegistry.register(new ZApiAdapter());
   adapterRegistry.register(new MetaAdapter());
+  adapterRegistry.register(new EvolutionAdapter());
 
   console.log(
     `[Adapters] Inicializados: ${adapterRegistry.getRegisteredProviders().join(', ')}`
   );
 }
+
+/**
+ * Configuração (URLs das APIs) dos senders.
+ * As credenciais de envio vêm da conta do tenant em cada mensagem.
+ */
+export interface SendersConfig {
+  zapi: ZApiSenderConfig;
+  meta: MetaSenderConfig;
+}
+
+/**
+ * Inicializa o registry de senders com os provedores que suportam envio.
+ * Deve ser chamado no startup da aplicação.
+ */
+export function initializeSenders(config: SendersConfig, httpClient: HttpClient): void {
+  senderRegistry.register(new ZApiSender(httpClient, config.zapi));
+  senderRegistry.register(new MetaSender(httpClient, config.meta));
+
+  const providers = senderRegistry.getRegisteredProviders();
+  console.log(`[Senders] Inicializados: ${providers.length > 0 ? providers.join(', ') : 'nenhum'}`);
+}
@@ -0,0 +1,36 @@
+/**
+ * Requisição HTTP de saída (chamadas às APIs dos provedores).
+ */
+export interface HttpRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  headers?: Record<string, string> | undefined;
+  /**
+   * Corpo da requisição, serializado como JSON.
+   * Strings são enviadas sem alteração (corpo já serializado, ex: assinado via HMAC).
+   */
+  body?: unknown;
+  /** Aborta a requisição (somado ao timeout do cliente) */
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Resposta HTTP, com o corpo já convertido de JSON (ou texto, se não for JSON).
+ */
+export interface HttpResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Cliente HTTP injetável usado pelos senders.
+ * Permite apontar as chamadas para um servidor stub local em testes.
+ */
+export interface HttpClient {
+  /**
+   * Executa a requisição. Respostas não-2xx NÃO rejeitam:
+   * cabe ao chamador interpretar o status.
+   * @throws Error em falhas de rede, timeout ou cancelamento
+   */
+  request(request: HttpRequest): Promise<HttpResponse>;
+}
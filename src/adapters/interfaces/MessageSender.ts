@@ -0,0 +1,39 @@
+import type { Provider } from '../../domain/entities/NormalizedMessage.js';
+import type { ProviderAccount } from '../../domain/entities/Tenant.js';
+
+/**
+ * Mensagem de texto a ser enviada para um contato.
+ */
+export interface OutboundTextMessage {
+  /** Telefone do destinatário (apenas dígitos, com DDI) */
+  phone: string;
+  /** Texto da mensagem */
+  text: string;
+}
+
+/**
+ * Resultado do envio aceito pelo provedor.
+ */
+export interface SentMessage {
+  /** ID da mensagem no provedor (o mesmo usado nos webhooks de status) */
+  externalId: string;
+  /** Momento em que o envio foi aceito */
+  timestamp: Date;
+}
+
+/**
+ * Interface base para envio de mensagens por um provedor.
+ * Par do WebhookAdapter no sentido de saída: cada provedor traduz
+ * a mensagem interna para a chamada da sua API.
+ */
+export interface MessageSender {
+  /** Identificador do provedor */
+  readonly provider: Provider;
+
+  /**
+   * Envia uma mensagem de texto pela conta do tenant.
+   * @param account - Conta remetente (ID e credenciais no provedor)
+   * @throws MessageSendError se o provedor recusar o envio ou faltar credencial
+   */
+  sendText(message: OutboundTextMessage, account: ProviderAccount): Promise<SentMessage>;
+}
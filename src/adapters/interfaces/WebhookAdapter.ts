@@ -1,13 +1,88 @@
-import type { ZodSchema } from 'zod';
-import type { CreateNormalizedMessage, Provider } from '../../domain/entities/NormalizedMessage.js';
+import type { ZodType, ZodTypeDef } from 'zod';
+import type {
+  CreateNormalizedMessage,
+  MessageType,
+  Provider,
+} from '../../domain/entities/NormalizedMessage.js';
+import type { MessageStatusEvent } from '../../domain/entities/MessageStatusEvent.js';
+import type { ProviderCredentials } from '../../domain/entities/Tenant.js';
+
+/**
+ * Resultado da normalização de um webhook.
+ * Um único webhook pode conter mensagens, atualizações de status ou ambos.
+ */
+export interface NormalizedWebhook {
+  /** Mensagens normalizadas prontas para persistência (na ordem recebida) */
+  messages: CreateNormalizedMessage[];
+  /** Atualizações de status de mensagens enviadas por nós */
+  statuses: MessageStatusEvent[];
+}
+
+/**
+ * Dados brutos da requisição HTTP necessários para verificar a autenticidade
+ * do webhook. Independe do framework HTTP.
+ */
+export interface WebhookRequest {
+  /** Headers da requisição (nomes em minúsculas) */
+  headers: Record<string, string | string[] | undefined>;
+  /** Corpo bruto, exatamente como recebido (necessário para HMAC) */
+  rawBody: Buffer;
+}
+
+/**
+ * Requisição de verificação (handshake) enviada pelo provedor ao configurar
+ * a URL do webhook (ex: GET com hub.challenge da Meta).
+ */
+export interface VerificationRequest {
+  /** Parâmetros da query string (primeiro valor, se repetido) */
+  query: Record<string, string | undefined>;
+  /** Headers da requisição (nomes em minúsculas) */
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Handshake interpretado pelo adapter.
+ */
+export interface VerificationHandshake {
+  /** Token enviado pelo provedor, comparado com o verifyToken das contas cadastradas */
+  verifyToken: string;
+  /** Corpo da resposta se o token conferir (ex: valor de hub.challenge) */
+  response: string;
+}
+
+/**
+ * Recursos suportados por um provedor.
+ */
+export interface AdapterCapabilities {
+  /** Verifica a autenticidade dos webhooks (assinatura HMAC, token) */
+  signatureVerification: boolean;
+  /** Exige responder a um desafio (GET) ao configurar a URL do webhook */
+  verificationChallenge: boolean;
+  /** Envia atualizações de status das mensagens enviadas */
+  statusUpdates: boolean;
+}
+
+/**
+ * Descrição do provedor declarada pelo adapter.
+ * Exposta em GET /providers para quem integra novos clientes.
+ */
+export interface AdapterMetadata {
+  /** Nome para exibição (ex: "Meta Cloud API") */
+  displayName: string;
+  /** Tipos de mensagem normalizados pelo adapter */
+  messageTypes: MessageType[];
+  capabilities: AdapterCapabilities;
+}
 
 /**
  * Interface que todo adapter de webhook deve implementar.
  * Cada provedor (Z-API, Meta, etc.) terá seu próprio adapter.
  *
  * Responsabilidades:
+ * - Identificar a conta do provedor (e, por ela, o tenant) no payload
+ * - Verificar a autenticidade da requisição com as credenciais da conta (opcional)
  * - Validar payload recebido do provedor
- * - Normalizar payload para formato único interno
+ * - Normalizar payload para formato único interno (mensagens e status)
  */
 export interface WebhookAdapter<TPayload = unknown> {
   /**
@@ -16,9 +91,53 @@ export interface WebhookAdapter<TPayload = unknown> {
   readonly provider: Provider;
 
   /**
-   * Schema Zod para validação do payload.
+   * Nome, tipos de mensagem e recursos do provedor.
+   */
+  readonly metadata: AdapterMetadata;
+
+  /**
+   * Schema Zod para validação do payload (a entrada é o corpo bruto da requisição).
+   */
+  readonly schema: ZodType<TPayload, ZodTypeDef, unknown>;
+
+  /**
+   * Extrai do payload bruto o ID da conta no provedor
+   * (ex: `instanceId` do Z-API, `metadata.phone_number_id` da Meta).
+   * Executado antes da validação, para identificar o tenant do webhook.
+   * @returns ID da conta ou undefined se ausente
+   * @throws TenantNotResolvedError se o payload referenciar mais de uma conta
+   */
+  extractAccountId(payload: unknown): string | undefined;
+
+  /**
+   * Headers com credenciais do provedor (ex: header de token configurável),
+   * mascarados ao arquivar o webhook. Nomes em minúsculas.
+   */
+  readonly credentialHeaders?: readonly string[];
+
+  /**
+   * Mascara as credenciais enviadas no corpo (ex: `apikey` da Evolution) antes de
+   * arquivar o webhook. Retorna uma cópia; o payload original segue o processamento.
+   * Adapters de provedores sem credenciais no corpo não implementam este método.
+   */
+  redactPayload?(payload: unknown): unknown;
+
+  /**
+   * Verifica a autenticidade da requisição (assinatura HMAC, token, etc).
+   * Executado antes da validação do payload.
+   * Adapters sem mecanismo de verificação não implementam este método.
+   * @param credentials - Credenciais da conta do tenant que recebeu o webhook
+   * @throws WebhookSignatureError se a assinatura/token for inválido
+   */
+  verifySignature?(request: WebhookRequest, credentials: ProviderCredentials): void;
+
+  /**
+   * Interpreta a requisição de verificação (handshake) do provedor.
+   * A comparação do token com as contas cadastradas é feita por quem chama.
+   * Adapters de provedores sem handshake não implementam este método.
+   * @throws WebhookVerificationError se a requisição não for um handshake válido
    */
-  readonly schema: ZodSchema<TPayload>;
+  parseVerification?(request: VerificationRequest): VerificationHandshake;
 
   /**
    * Valida o payload recebido usando o schema Zod.
@@ -28,10 +147,12 @@ export interface WebhookAdapter<TPayload = unknown> {
 
   /**
    * Normaliza o payload validado para o formato único interno.
+   * Um único webhook pode conter várias mensagens (ex: entregas em lote da Meta)
+   * e/ou atualizações de status (sent, delivered, read, failed).
    * @param payload - Payload já validado pelo schema
-   * @returns Mensagem normalizada pronta para persistência
+   * @returns Mensagens e eventos de status normalizados
    */
-  normalize(payload: TPayload): CreateNormalizedMessage;
+  normalize(payload: TPayload): NormalizedWebhook;
 
   /**
    * Verifica se este adapter deve processar o payload.
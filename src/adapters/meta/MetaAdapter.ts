@@ -1,25 +1,171 @@
+import { createHmac } from 'node:crypto';
 import type { ZodSchema } from 'zod';
-import type { WebhookAdapter } from '../interfaces/WebhookAdapter.js';
-import type { CreateNormalizedMessage } from '../../domain/entities/NormalizedMessage.js';
-import { WebhookValidationError } from '../../domain/errors/WebhookErrors.js';
-import { MetaWebhookSchema, type MetaWebhookPayload } from './MetaSchema.js';
+import type {
+  WebhookAdapter,
+  AdapterMetadata,
+  NormalizedWebhook,
+  WebhookRequest,
+  VerificationRequest,
+  VerificationHandshake,
+} from '../interfaces/WebhookAdapter.js';
+import type { MessageContent } from '../../domain/entities/NormalizedMessage.js';
+import type { MessageStatusEvent } from '../../domain/entities/MessageStatusEvent.js';
+import type { ProviderCredentials } from '../../domain/entities/Tenant.js';
+import {
+  TenantNotResolvedError,
+  WebhookValidationError,
+  WebhookSignatureError,
+  WebhookVerificationError,
+} from '../../domain/errors/WebhookErrors.js';
+import { getHeader, safeCompare } from '../shared/RequestVerification.js';
+import {
+  buildTextContent,
+  buildMediaContent,
+  buildLocationContent,
+  buildContactContent,
+  buildReactionContent,
+  type MediaInput,
+} from '../shared/MessageContentBuilder.js';
+import {
+  MetaWebhookSchema,
+  type MetaWebhookPayload,
+  type MetaWebhookContact,
+  type MetaWebhookMessage,
+  type MetaWebhookMedia,
+  type MetaWebhookStatus,
+} from './MetaSchema.js';
 
 /**
  * Adapter para normalização de webhooks da Meta Cloud API (WhatsApp Business).
  *
  * Responsabilidades:
+ * - Identificar o número (conta) pelo metadata.phone_number_id
+ * - Verificar a assinatura HMAC (X-Hub-Signature-256) da requisição
+ * - Interpretar o challenge de verificação (hub.mode, hub.verify_token, hub.challenge)
  * - Validar payload da Meta usando Zod (fail-fast)
- * - Extrair primeira mensagem do payload aninhado
+ * - Extrair todas as mensagens e atualizações de status do payload aninhado
  * - Normalizar para formato único interno
  * - Identificar se o payload é da Meta
  *
- * NOTA: A Meta pode enviar múltiplas mensagens em um único webhook.
- * Este adapter processa apenas a PRIMEIRA mensagem.
- * Para processar todas, seria necessário retornar um array.
+ * NOTA: A Meta pode enviar múltiplas mensagens em um único webhook
+ * (vários entry, changes e messages). Todas são normalizadas.
  */
 export class MetaAdapter implements WebhookAdapter<MetaWebhookPayload> {
   readonly provider = 'meta' as const;
   readonly schema: ZodSchema<MetaWebhookPayload> = MetaWebhookSchema;
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Meta Cloud API',
+    messageTypes: [
+      'text',
+      'image',
+      'audio',
+      'video',
+      'document',
+      'sticker',
+      'location',
+      'contact',
+      'reaction',
+    ],
+    capabilities: {
+      signatureVerification: true,
+      verificationChallenge: true,
+      statusUpdates: true,
+    },
+  };
+
+  /**
+   * Extrai o phone_number_id dos changes do payload.
+   * Um webhook da Meta pode trazer números diferentes da mesma conta (WABA), que
+   * podem pertencer a tenants diferentes: o webhook inteiro é atribuído a um único
+   * tenant, então payloads com mais de um número são rejeitados.
+   * @throws TenantNotResolvedError se o payload tiver mais de um phone_number_id
+   */
+  extractAccountId(payload: unknown): string | undefined {
+    if (typeof payload !== 'object' || payload === null) {
+      return undefined;
+    }
+
+    // Leitura defensiva: o payload ainda não foi validado pelo schema
+    const { entry } = payload as {
+      entry?: Array<{ changes?: Array<{ value?: { metadata?: { phone_number_id?: unknown } } }> }>;
+    };
+    if (!Array.isArray(entry)) {
+      return undefined;
+    }
+
+    const phoneNumberIds = new Set<string>();
+    for (const item of entry) {
+      if (!Array.isArray(item?.changes)) continue;
+
+      for (const change of item.changes) {
+        const phoneNumberId = change?.value?.metadata?.phone_number_id;
+        if (typeof phoneNumberId === 'string') {
+          phoneNumberIds.add(phoneNumberId);
+        }
+      }
+    }
+
+    if (phoneNumberIds.size > 1) {
+      throw new TenantNotResolvedError(
+        this.provider,
+        `payload com mais de um número (${[...phoneNumberIds].join(', ')})`
+      );
+    }
+
+    const [phoneNumberId] = phoneNumberIds;
+    return phoneNumberId;
+  }
+
+  /**
+   * Interpreta o challenge enviado pela Meta ao configurar o webhook no painel.
+   * Ex: GET ?hub.mode=subscribe&hub.verify_token=<token>&hub.challenge=<valor>
+   * @throws WebhookVerificationError se algum parâmetro estiver ausente ou inválido
+   */
+  parseVerification(request: VerificationRequest): VerificationHandshake {
+    const { query } = request;
+
+    if (query['hub.mode'] !== 'subscribe') {
+      throw new WebhookVerificationError(this.provider, 'hub.mode deve ser "subscribe"');
+    }
+
+    const verifyToken = query['hub.verify_token'];
+    if (!verifyToken) {
+      throw new WebhookVerificationError(this.provider, 'hub.verify_token ausente');
+    }
+
+    const challenge = query['hub.challenge'];
+    if (!challenge) {
+      throw new WebhookVerificationError(this.provider, 'hub.challenge ausente');
+    }
+
+    return { verifyToken, response: challenge };
+  }
+
+  /**
+   * Verifica a assinatura HMAC-SHA256 do corpo bruto usando o App Secret da conta.
+   * Header no formato: "sha256=<hex>"
+   * Rejeita contas sem appSecret cadastrado (fail-closed).
+   * @throws WebhookSignatureError se o appSecret não estiver cadastrado ou a assinatura estiver ausente ou diferente
+   */
+  verifySignature(request: WebhookRequest, credentials: ProviderCredentials): void {
+    if (!credentials.appSecret) {
+      throw new WebhookSignatureError(this.provider, 'App Secret não cadastrado para o número');
+    }
+
+    const signature = getHeader(request, 'x-hub-signature-256');
+
+    if (!signature || !signature.startsWith('sha256=')) {
+      throw new WebhookSignatureError(this.provider, 'header X-Hub-Signature-256 ausente');
+    }
+
+    const expected = createHmac('sha256', credentials.appSecret)
+      .update(request.rawBody)
+      .digest('hex');
+
+    if (!safeCompare(signature.slice('sha256='.length), expected)) {
+      throw new WebhookSignatureError(this.provider, 'X-Hub-Signature-256 não confere');
+    }
+  }
 
   /**
    * Valida o payload usando o schema Zod.
@@ -37,48 +183,111 @@ export class MetaAdapter implements WebhookAdapter<MetaWebhookPayload> {
 
   /**
    * Normaliza o payload da Meta para formato único interno.
-   * Extrai a primeira mensagem do payload aninhado.
+   * Percorre todas as mensagens e status de todos os entry/changes (entregas em lote).
    */
-  normalize(payload: MetaWebhookPayload): CreateNormalizedMessage {
-    // Estrutura aninhada: entry[0].changes[0].value
-    const entry = payload.entry[0];
-    if (!entry) {
-      throw new Error('Payload Meta sem entry');
-    }
+  normalize(payload: MetaWebhookPayload): NormalizedWebhook {
+    const normalized: NormalizedWebhook = { messages: [], statuses: [] };
 
-    const change = entry.changes[0];
-    if (!change) {
-      throw new Error('Payload Meta sem changes');
-    }
+    // Estrutura aninhada: entry[].changes[].value.{messages[], statuses[]}
+    for (const entry of payload.entry) {
+      for (const change of entry.changes) {
+        const { messages = [], contacts = [], statuses = [] } = change.value;
 
-    const value = change.value;
-    const message = value.messages[0];
-    const contact = value.contacts[0];
+        for (const message of messages) {
+          normalized.messages.push({
+            externalId: message.id,
+            provider: this.provider,
+            contact: {
+              phone: this.normalizePhone(message.from),
+              name: this.findContactName(contacts, message.from),
+            },
+            message: this.extractContent(message),
+            timestamp: new Date(parseInt(message.timestamp) * 1000), // Unix timestamp em segundos
+            isFromMe: false, // Webhook da Meta só envia mensagens recebidas
+          });
+        }
 
-    if (!message) {
-      throw new Error('Payload Meta sem messages');
+        for (const status of statuses) {
+          normalized.statuses.push(this.normalizeStatus(status));
+        }
+      }
     }
 
-    if (!contact) {
-      throw new Error('Payload Meta sem contacts');
-    }
+    return normalized;
+  }
+
+  /**
+   * Converte uma atualização de status da Meta para o evento interno.
+   */
+  private normalizeStatus(status: MetaWebhookStatus): MessageStatusEvent {
+    const error = status.errors?.[0];
 
     return {
-      externalId: message.id,
       provider: this.provider,
-      contact: {
-        phone: this.normalizePhone(message.from),
-        name: contact.profile.name,
-      },
-      message: {
-        type: 'text',
-        content: message.text.body,
-      },
-      timestamp: new Date(parseInt(message.timestamp) * 1000), // Unix timestamp em segundos
-      isFromMe: false, // Webhook da Meta só envia mensagens recebidas
+      externalId: status.id,
+      status: status.status,
+      recipientPhone: this.normalizePhone(status.recipient_id),
+      timestamp: new Date(parseInt(status.timestamp) * 1000), // Unix timestamp em segundos
+      errorCode: error ? String(error.code) : null,
+      errorMessage: error ? error.error_data?.details ?? error.message ?? error.title : null,
     };
   }
 
+  /**
+   * Extrai o conteúdo da mensagem conforme o campo `type`.
+   */
+  private extractContent(message: MetaWebhookMessage): MessageContent {
+    switch (message.type) {
+      case 'text':
+        return buildTextContent(message.text.body);
+      case 'image':
+        return buildMediaContent('image', this.mapMedia(message.image));
+      case 'audio':
+        return buildMediaContent('audio', this.mapMedia(message.audio));
+      case 'video':
+        return buildMediaContent('video', this.mapMedia(message.video));
+      case 'document':
+        return buildMediaContent('document', this.mapMedia(message.document));
+      case 'sticker':
+        return buildMediaContent('sticker', this.mapMedia(message.sticker));
+      case 'location':
+        return buildLocationContent(message.location);
+      case 'contacts':
+        return buildContactContent(
+          message.contacts.map((contact) => ({
+            name: contact.name.formatted_name,
+            phones: (contact.phones ?? [])
+              .map((phone) => phone.wa_id ?? phone.phone)
+              .filter((phone): phone is string => Boolean(phone)),
+          }))
+        );
+      case 'reaction':
+        return buildReactionContent(message.reaction.emoji, message.reaction.message_id);
+    }
+  }
+
+  /**
+   * Mapeia o objeto de mídia da Meta (apenas ID, sem URL de download).
+   */
+  private mapMedia(media: MetaWebhookMedia): MediaInput {
+    return {
+      providerMediaId: media.id,
+      mimeType: media.mime_type,
+      fileName: media.filename,
+      caption: media.caption,
+    };
+  }
+
+  /**
+   * Localiza o nome do contato que enviou a mensagem pelo wa_id.
+   * Em lotes, contacts[] não segue necessariamente a ordem de messages[].
+   * Sem contato correspondente, usa o próprio telefone como nome.
+   */
+  private findContactName(contacts: MetaWebhookContact[], from: string): string {
+    const contact = contacts.find((c) => c.wa_id === from);
+    return contact ? contact.profile.name : this.normalizePhone(from);
+  }
+
   /**
    * Verifica se o payload é da Meta Cloud API.
    * Identifica pelo campo 'object' com valor 'whatsapp_business_account'.
@@ -5,7 +5,8 @@ import { z } from 'zod';
  *
  * Baseado na documentação oficial e exemplo do arquivo de requisitos.
  *
- * IMPORTANTE: Este schema valida apenas mensagens de TEXTO recebidas.
+ * Valida atualizações de STATUS (sent, delivered, read, failed) e mensagens recebidas de TEXTO, IMAGEM, ÁUDIO, VÍDEO, DOCUMENTO,
+ * FIGURINHA, LOCALIZAÇÃO, CONTATOS e REAÇÃO.
  * A estrutura da Meta é aninhada: entry[].changes[].value.messages[]
  */
 
@@ -17,16 +18,87 @@ const MetaTextSchema = z.object({
 });
 
 /**
- * Schema para uma mensagem individual.
+ * Schema para mídias (imagem, áudio, vídeo, documento, figurinha).
+ * A Meta envia apenas o ID da mídia; o download é feito via Graph API.
+ */
+const MetaMediaSchema = z.object({
+  id: z.string().min(1),
+  mime_type: z.string().optional(),
+  sha256: z.string().optional(),
+  caption: z.string().optional(),
+  filename: z.string().optional(),
+  voice: z.boolean().optional(),
+  animated: z.boolean().optional(),
+});
+
+/**
+ * Schema para localização compartilhada.
+ */
+const MetaLocationSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  name: z.string().optional(),
+  address: z.string().optional(),
+  url: z.string().optional(),
+});
+
+/**
+ * Schema para cartão de contato compartilhado.
+ */
+const MetaSharedContactSchema = z.object({
+  name: z.object({
+    formatted_name: z.string(),
+    first_name: z.string().optional(),
+    last_name: z.string().optional(),
+  }),
+  phones: z
+    .array(
+      z.object({
+        phone: z.string().optional(),
+        wa_id: z.string().optional(),
+        type: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Schema para reação a uma mensagem.
+ * O emoji vem ausente quando a reação é removida.
+ */
+const MetaReactionSchema = z.object({
+  message_id: z.string().min(1),
+  emoji: z.string().optional(),
+});
+
+/**
+ * Campos comuns a todas as mensagens.
  */
-const MetaMessageSchema = z.object({
+const MetaBaseMessageSchema = z.object({
   from: z.string().min(1),
   id: z.string().min(1),
   timestamp: z.string(), // Unix timestamp como string
-  type: z.literal('text'),
-  text: MetaTextSchema,
 });
 
+/**
+ * Schema para uma mensagem individual.
+ * União discriminada pelo campo `type`.
+ */
+const MetaMessageSchema = z.discriminatedUnion('type', [
+  MetaBaseMessageSchema.extend({ type: z.literal('text'), text: MetaTextSchema }),
+  MetaBaseMessageSchema.extend({ type: z.literal('image'), image: MetaMediaSchema }),
+  MetaBaseMessageSchema.extend({ type: z.literal('audio'), audio: MetaMediaSchema }),
+  MetaBaseMessageSchema.extend({ type: z.literal('video'), video: MetaMediaSchema }),
+  MetaBaseMessageSchema.extend({ type: z.literal('document'), document: MetaMediaSchema }),
+  MetaBaseMessageSchema.extend({ type: z.literal('sticker'), sticker: MetaMediaSchema }),
+  MetaBaseMessageSchema.extend({ type: z.literal('location'), location: MetaLocationSchema }),
+  MetaBaseMessageSchema.extend({
+    type: z.literal('contacts'),
+    contacts: z.array(MetaSharedContactSchema).min(1),
+  }),
+  MetaBaseMessageSchema.extend({ type: z.literal('reaction'), reaction: MetaReactionSchema }),
+]);
+
 /**
  * Schema para informações do contato.
  */
@@ -46,15 +118,45 @@ const MetaMetadataSchema = z.object({
 });
 
 /**
- * Schema para o objeto value dentro de changes.
+ * Schema para erros reportados em status "failed".
+ */
+const MetaStatusErrorSchema = z.object({
+  code: z.number(),
+  title: z.string(),
+  message: z.string().optional(),
+  error_data: z.object({ details: z.string() }).optional(),
+});
+
+/**
+ * Schema para atualização de status de mensagem enviada por nós.
  */
-const MetaValueSchema = z.object({
-  messaging_product: z.literal('whatsapp'),
-  metadata: MetaMetadataSchema,
-  contacts: z.array(MetaContactSchema).min(1),
-  messages: z.array(MetaMessageSchema).min(1),
+const MetaStatusSchema = z.object({
+  id: z.string().min(1),
+  status: z.enum(['sent', 'delivered', 'read', 'failed']),
+  timestamp: z.string(), // Unix timestamp como string
+  recipient_id: z.string().min(1),
+  errors: z.array(MetaStatusErrorSchema).optional(),
 });
 
+/**
+ * Schema para o objeto value dentro de changes.
+ *
+ * Entregas de mensagens trazem `contacts` + `messages`;
+ * entregas de status trazem apenas `statuses`. Ao menos um dos dois deve existir.
+ */
+const MetaValueSchema = z
+  .object({
+    messaging_product: z.literal('whatsapp'),
+    metadata: MetaMetadataSchema,
+    contacts: z.array(MetaContactSchema).optional(),
+    messages: z.array(MetaMessageSchema).min(1).optional(),
+    statuses: z.array(MetaStatusSchema).min(1).optional(),
+  })
+  .refine((value) => value.messages !== undefined || value.statuses !== undefined, {
+    message: 'Esperado "messages" ou "statuses"',
+    path: ['messages'],
+  });
+
 /**
  * Schema para o objeto changes.
  */
@@ -84,6 +186,26 @@ export const MetaWebhookSchema = z.object({
  */
 export type MetaWebhookPayload = z.infer<typeof MetaWebhookSchema>;
 
+/**
+ * Tipo para um contato do payload (associado às mensagens pelo wa_id).
+ */
+export type MetaWebhookContact = z.infer<typeof MetaContactSchema>;
+
+/**
+ * Tipo para uma atualização de status do payload.
+ */
+export type MetaWebhookStatus = z.infer<typeof MetaStatusSchema>;
+
+/**
+ * Tipo para o objeto de mídia de uma mensagem.
+ */
+export type MetaWebhookMedia = z.infer<typeof MetaMediaSchema>;
+
+/**
+ * Tipo para uma mensagem individual do payload.
+ */
+export type MetaWebhookMessage = z.infer<typeof MetaMessageSchema>;
+
 /**
  * Tipo para uma mensagem individual extraída do payload.
  */
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import type {
+  MessageSender,
+  OutboundTextMessage,
+  SentMessage,
+} from '../interfaces/MessageSender.js';
+import type { HttpClient } from '../interfaces/HttpClient.js';
+import type { ProviderAccount } from '../../domain/entities/Tenant.js';
+import { MessageSendError } from '../../domain/errors/WebhookErrors.js';
+
+/**
+ * Resposta do endpoint /{phone-number-id}/messages da Graph API.
+ * `messages[0].id` (wamid) é o mesmo ID recebido depois em `statuses[]`.
+ */
+const MetaSendMessageResponseSchema = z.object({
+  messaging_product: z.literal('whatsapp'),
+  contacts: z
+    .array(
+      z.object({
+        input: z.string(),
+        wa_id: z.string(),
+      })
+    )
+    .optional(),
+  messages: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Configuração do sender Meta.
+ */
+export interface MetaSenderConfig {
+  /** URL base da Graph API, com versão. Ex: "https://graph.facebook.com/v19.0" */
+  baseUrl: string;
+}
+
+/**
+ * Sender para envio de mensagens pela Meta Cloud API (WhatsApp Business).
+ *
+ * Responsabilidades:
+ * - Traduzir a mensagem interna para a chamada da Graph API do número do tenant
+ * - Validar a resposta da Meta (fail-fast)
+ */
+export class MetaSender implements MessageSender {
+  readonly provider = 'meta' as const;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly config: MetaSenderConfig
+  ) {}
+
+  /**
+   * Envia uma mensagem de texto pelo número (conta) informado.
+   * A conta usa o phone_number_id como accountId e o accessToken
+   * (System User com permissão whatsapp_business_messaging).
+   * @throws MessageSendError se faltar accessToken na conta ou a Meta recusar o envio
+   */
+  async sendText(message: OutboundTextMessage, account: ProviderAccount): Promise<SentMessage> {
+    const { accessToken } = account.credentials;
+    if (!accessToken) {
+      throw new MessageSendError(this.provider, 'accessToken não cadastrado para o número');
+    }
+
+    const response = await this.httpClient.request({
+      method: 'POST',
+      url: `${this.config.baseUrl}/${account.accountId}/messages`,
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: message.phone,
+        type: 'text',
+        text: { preview_url: false, body: message.text },
+      },
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new MessageSendError(this.provider, `HTTP ${response.status}`, response.status, response.body);
+    }
+
+    const result = MetaSendMessageResponseSchema.safeParse(response.body);
+    if (!result.success) {
+      throw new MessageSendError(this.provider, 'resposta sem ID da mensagem', response.status, response.body);
+    }
+
+    const [sent] = result.data.messages;
+    if (!sent) {
+      throw new MessageSendError(this.provider, 'resposta sem ID da mensagem', response.status, response.body);
+    }
+
+    return {
+      externalId: sent.id,
+      timestamp: new Date(),
+    };
+  }
+}
@@ -1,9 +1,17 @@
 import type { Provider } from '../../domain/entities/NormalizedMessage.js';
-import type { WebhookAdapter } from '../interfaces/WebhookAdapter.js';
-import { AdapterNotFoundError } from '../../domain/errors/WebhookErrors.js';
+import type { WebhookAdapter, AdapterMetadata } from '../interfaces/WebhookAdapter.js';
+import { AdapterNotFoundError, AmbiguousProviderError } from '../../domain/errors/WebhookErrors.js';
+
+/**
+ * Provedor registrado com os metadados declarados pelo adapter.
+ */
+export interface ProviderDescriptor extends AdapterMetadata {
+  provider: Provider;
+}
 
 /**
  * Registry de adapters de webhook.
+ * É a fonte da lista de provedores suportados (nativos e configuráveis).
  * Implementa o padrão Factory Registry para gerenciar adapters.
  *
  * Benefícios:
@@ -26,6 +34,18 @@ export class AdapterRegistry {
     console.log(`[AdapterRegistry] Adapter registrado: ${adapter.provider}`);
   }
 
+  /**
+   * Remove o adapter de um provedor (ex: mapeamento configurável removido).
+   * @returns true se havia adapter registrado
+   */
+  unregister(provider: Provider): boolean {
+    const removed = this.adapters.delete(provider);
+    if (removed) {
+      console.log(`[AdapterRegistry] Adapter removido: ${provider}`);
+    }
+    return removed;
+  }
+
   /**
    * Obtém o adapter para um provedor específico.
    * @param provider - Identificador do provedor
@@ -53,14 +73,18 @@ export class AdapterRegistry {
    * Útil quando o provedor não é especificado na rota.
    * @param payload - Payload bruto recebido
    * @returns Adapter que pode processar o payload, ou undefined
+   * @throws AmbiguousProviderError se mais de um adapter reconhecer o payload
    */
   findAdapterForPayload(payload: unknown): WebhookAdapter | undefined {
-    for (const adapter of this.adapters.values()) {
-      if (adapter.canHandle(payload)) {
-        return adapter;
-      }
+    const candidates = Array.from(this.adapters.values()).filter((adapter) =>
+      adapter.canHandle(payload)
+    );
+
+    if (candidates.length > 1) {
+      throw new AmbiguousProviderError(candidates.map((adapter) => adapter.provider));
     }
-    return undefined;
+
+    return candidates[0];
   }
 
   /**
@@ -69,6 +93,16 @@ export class AdapterRegistry {
   getRegisteredProviders(): Provider[] {
     return Array.from(this.adapters.keys());
   }
+
+  /**
+   * Lista os provedores registrados com seus metadados (ordem de registro).
+   */
+  describeProviders(): ProviderDescriptor[] {
+    return Array.from(this.adapters.values()).map(({ provider, metadata }) => ({
+      provider,
+      ...metadata,
+    }));
+  }
 }
 
 /**
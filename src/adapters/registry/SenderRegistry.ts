@@ -0,0 +1,58 @@
+import type { Provider } from '../../domain/entities/NormalizedMessage.js';
+import type { MessageSender } from '../interfaces/MessageSender.js';
+import { SenderNotConfiguredError } from '../../domain/errors/WebhookErrors.js';
+
+/**
+ * Registry de senders (envio de mensagens).
+ * Mesmo padrão Factory Registry do AdapterRegistry: um sender por provedor,
+ * registrado no startup. As credenciais vêm da conta do tenant em cada envio.
+ */
+export class SenderRegistry {
+  private senders: Map<Provider, MessageSender> = new Map();
+
+  /**
+   * Registra um sender para um provedor.
+   * @param sender - Instância do sender a ser registrado
+   */
+  register(sender: MessageSender): void {
+    if (this.senders.has(sender.provider)) {
+      console.warn(`[SenderRegistry] Substituindo sender existente para: ${sender.provider}`);
+    }
+    this.senders.set(sender.provider, sender);
+    console.log(`[SenderRegistry] Sender registrado: ${sender.provider}`);
+  }
+
+  /**
+   * Obtém o sender de um provedor.
+   * @throws SenderNotConfiguredError se não houver sender registrado
+   */
+  getSender(provider: Provider): MessageSender {
+    const sender = this.senders.get(provider);
+
+    if (!sender) {
+      throw new SenderNotConfiguredError(provider);
+    }
+
+    return sender;
+  }
+
+  /**
+   * Verifica se existe sender registrado para um provedor.
+   */
+  hasSender(provider: Provider): boolean {
+    return this.senders.has(provider);
+  }
+
+  /**
+   * Lista todos os provedores com envio habilitado.
+   */
+  getRegisteredProviders(): Provider[] {
+    return Array.from(this.senders.keys());
+  }
+}
+
+/**
+ * Instância singleton do registry.
+ * Deve ser populada no startup da aplicação.
+ */
+export const senderRegistry = new SenderRegistry();
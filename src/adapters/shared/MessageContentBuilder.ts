@@ -0,0 +1,130 @@
+import type {
+  MediaInfo,
+  MediaMessageType,
+  TextMessageContent,
+  MediaMessageContent,
+  LocationMessageContent,
+  ContactMessageContent,
+  ReactionMessageContent,
+  SharedContact,
+} from '../../domain/entities/NormalizedMessage.js';
+
+/**
+ * Funções auxiliares compartilhadas pelos adapters para montar o
+ * `MessageContent` normalizado, garantindo os mesmos placeholders
+ * textuais para todos os provedores.
+ */
+
+/**
+ * Placeholders usados quando a mídia não possui legenda.
+ */
+const MEDIA_PLACEHOLDERS: Record<MediaMessageType, string> = {
+  image: '[Imagem recebida]',
+  audio: '[Áudio recebido]',
+  video: '[Vídeo recebido]',
+  document: '[Documento recebido]',
+  sticker: '[Figurinha recebida]',
+};
+
+/**
+ * Dados de mídia como extraídos do payload (campos ausentes podem vir undefined).
+ */
+export type MediaInput = {
+  [K in keyof MediaInfo]?: MediaInfo[K] | undefined;
+};
+
+/**
+ * Monta conteúdo de texto.
+ */
+export function buildTextContent(content: string): TextMessageContent {
+  return { type: 'text', content };
+}
+
+/**
+ * Monta conteúdo de mídia.
+ * O conteúdo textual prioriza: caption > nome do arquivo (documentos) > placeholder.
+ */
+export function buildMediaContent(type: MediaMessageType, input: MediaInput): MediaMessageContent {
+  const media: MediaInfo = {
+    url: input.url || null,
+    providerMediaId: input.providerMediaId || null,
+    mimeType: input.mimeType || null,
+    fileName: input.fileName || null,
+    width: input.width ?? null,
+    height: input.height ?? null,
+    caption: input.caption || null,
+  };
+
+  let content = MEDIA_PLACEHOLDERS[type];
+  if (media.caption) {
+    content = media.caption;
+  } else if (type === 'document' && media.fileName) {
+    content = `[Documento recebido: ${media.fileName}]`;
+  }
+
+  return { type, content, media };
+}
+
+/**
+ * Monta conteúdo de localização.
+ */
+export function buildLocationContent(input: {
+  latitude: number;
+  longitude: number;
+  name?: string | null | undefined;
+  address?: string | null | undefined;
+}): LocationMessageContent {
+  const name = input.name || null;
+  const address = input.address || null;
+  const description = [name, address].filter(Boolean).join(' - ');
+
+  return {
+    type: 'location',
+    content: description ? `[Localização: ${description}]` : '[Localização recebida]',
+    location: {
+      latitude: input.latitude,
+      longitude: input.longitude,
+      name,
+      address,
+    },
+  };
+}
+
+/**
+ * Monta conteúdo de cartão(ões) de contato.
+ * Telefones são normalizados para apenas dígitos.
+ */
+export function buildContactContent(contacts: SharedContact[]): ContactMessageContent {
+  const normalized = contacts.map((contact) => ({
+    name: contact.name,
+    phones: contact.phones.map((phone) => phone.replace(/\D/g, '')).filter(Boolean),
+  }));
+
+  const names = normalized.map((contact) => contact.name).filter(Boolean);
+
+  return {
+    type: 'contact',
+    content: names.length > 0 ? `[Contato: ${names.join(', ')}]` : '[Contato recebido]',
+    contacts: normalized,
+  };
+}
+
+/**
+ * Monta conteúdo de reação.
+ * Emoji vazio/ausente indica remoção da reação.
+ */
+export function buildReactionContent(
+  emoji: string | null | undefined,
+  targetExternalId: string
+): ReactionMessageContent {
+  const normalizedEmoji = emoji || null;
+
+  return {
+    type: 'reaction',
+    content: normalizedEmoji ? `[Reação: ${normalizedEmoji}]` : '[Reação removida]',
+    reaction: {
+      emoji: normalizedEmoji,
+      targetExternalId,
+    },
+  };
+}
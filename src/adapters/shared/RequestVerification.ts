@@ -0,0 +1,33 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { WebhookRequest } from '../interfaces/WebhookAdapter.js';
+
+/**
+ * Funções auxiliares compartilhadas pelos adapters para verificar
+ * a autenticidade de webhooks.
+ */
+
+/**
+ * Obtém o valor de um header (primeiro valor, se repetido).
+ * @param name - Nome do header em minúsculas
+ */
+export function getHeader(request: WebhookRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+  return value;
+}
+
+/**
+ * Compara dois segredos em tempo constante (evita timing attacks).
+ */
+export function safeCompare(received: string, expected: string): boolean {
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+
+  if (receivedBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return timingSafeEqual(receivedBuffer, expectedBuffer);
+}
@@ -1,20 +1,106 @@
 import type { ZodSchema } from 'zod';
-import type { WebhookAdapter } from '../interfaces/WebhookAdapter.js';
-import type { CreateNormalizedMessage } from '../../domain/entities/NormalizedMessage.js';
-import { WebhookValidationError } from '../../domain/errors/WebhookErrors.js';
-import { ZApiWebhookSchema, type ZApiWebhookPayload } from './ZApiSchema.js';
+import type {
+  WebhookAdapter,
+  AdapterMetadata,
+  NormalizedWebhook,
+  WebhookRequest,
+} from '../interfaces/WebhookAdapter.js';
+import type { MessageContent } from '../../domain/entities/NormalizedMessage.js';
+import type { MessageStatus, MessageStatusEvent } from '../../domain/entities/MessageStatusEvent.js';
+import type { ProviderCredentials } from '../../domain/entities/Tenant.js';
+import { WebhookValidationError, WebhookSignatureError } from '../../domain/errors/WebhookErrors.js';
+import { getHeader, safeCompare } from '../shared/RequestVerification.js';
+import {
+  buildTextContent,
+  buildMediaContent,
+  buildLocationContent,
+  buildContactContent,
+  buildReactionContent,
+} from '../shared/MessageContentBuilder.js';
+import {
+  ZApiWebhookSchema,
+  type ZApiWebhookPayload,
+  type ZApiReceivedCallbackPayload,
+  type ZApiMessageStatusCallbackPayload,
+} from './ZApiSchema.js';
+
+/**
+ * Mapeamento dos status do Z-API para o status interno.
+ * null = status ignorado (não se refere a mensagens enviadas por nós).
+ */
+const ZAPI_STATUS_MAP: Record<ZApiMessageStatusCallbackPayload['status'], MessageStatus | null> = {
+  SENT: 'sent',
+  RECEIVED: 'delivered',
+  READ: 'read',
+  READ_BY_ME: null,
+  PLAYED: 'played',
+};
 
 /**
  * Adapter para normalização de webhooks do Z-API.
  *
  * Responsabilidades:
+ * - Identificar a instância (conta) pelo campo instanceId
+ * - Verificar o header Client-Token da requisição
  * - Validar payload do Z-API usando Zod (fail-fast)
- * - Normalizar para formato único interno
+ * - Normalizar mensagens recebidas e mudanças de status para formato único interno
  * - Identificar se o payload é do Z-API
  */
 export class ZApiAdapter implements WebhookAdapter<ZApiWebhookPayload> {
   readonly provider = 'zapi' as const;
   readonly schema: ZodSchema<ZApiWebhookPayload> = ZApiWebhookSchema;
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Z-API',
+    messageTypes: [
+      'text',
+      'image',
+      'audio',
+      'video',
+      'document',
+      'sticker',
+      'location',
+      'contact',
+      'reaction',
+    ],
+    capabilities: {
+      signatureVerification: true,
+      verificationChallenge: false,
+      statusUpdates: true,
+    },
+  };
+
+  /**
+   * Extrai o ID da instância Z-API, presente em todos os callbacks.
+   */
+  extractAccountId(payload: unknown): string | undefined {
+    if (typeof payload !== 'object' || payload === null) {
+      return undefined;
+    }
+
+    const instanceId = (payload as Record<string, unknown>)['instanceId'];
+    return typeof instanceId === 'string' ? instanceId : undefined;
+  }
+
+  /**
+   * Verifica se o header Client-Token corresponde ao token da conta.
+   * Contas sem clientToken cadastrado têm os webhooks recusados.
+   * @throws WebhookSignatureError se ausente ou diferente
+   */
+  verifySignature(request: WebhookRequest, credentials: ProviderCredentials): void {
+    if (!credentials.clientToken) {
+      throw new WebhookSignatureError(this.provider, 'Client-Token não cadastrado para a instância');
+    }
+
+    const token = getHeader(request, 'client-token');
+
+    if (!token) {
+      throw new WebhookSignatureError(this.provider, 'header Client-Token ausente');
+    }
+
+    if (!safeCompare(token, credentials.clientToken)) {
+      throw new WebhookSignatureError(this.provider, 'Client-Token não confere');
+    }
+  }
 
   /**
    * Valida o payload usando o schema Zod.
@@ -32,55 +118,130 @@ export class ZApiAdapter implements WebhookAdapter<ZApiWebhookPayload> {
 
   /**
    * Normaliza o payload do Z-API para formato único interno.
-   * Suporta mensagens de texto e imagens (usando caption).
+   * - ReceivedCallback: exatamente uma mensagem (texto, mídias, localização, contato ou reação)
+   * - MessageStatusCallback: um evento de status para cada ID informado
    */
-  normalize(payload: ZApiWebhookPayload): CreateNormalizedMessage {
-    // Extrai conteúdo: texto > caption da imagem > placeholder
-    const content = this.extractContent(payload);
+  normalize(payload: ZApiWebhookPayload): NormalizedWebhook {
+    if (payload.type === 'MessageStatusCallback') {
+      return { messages: [], statuses: this.normalizeStatuses(payload) };
+    }
 
     return {
-      externalId: payload.messageId,
+      messages: [
+        {
+          externalId: payload.messageId,
+          provider: this.provider,
+          contact: {
+            phone: this.normalizePhone(payload.phone),
+            name: payload.senderName || payload.chatName,
+          },
+          message: this.extractContent(payload),
+          timestamp: new Date(payload.momment),
+          isFromMe: payload.fromMe,
+        },
+      ],
+      statuses: [],
+    };
+  }
+
+  /**
+   * Converte o MessageStatusCallback em eventos de status.
+   * READ_BY_ME indica leitura de mensagem do contato por nós e é ignorado.
+   */
+  private normalizeStatuses(payload: ZApiMessageStatusCallbackPayload): MessageStatusEvent[] {
+    const status = ZAPI_STATUS_MAP[payload.status];
+    if (!status) {
+      return [];
+    }
+
+    return payload.ids.map((externalId) => ({
       provider: this.provider,
-      contact: {
-        phone: this.normalizePhone(payload.phone),
-        name: payload.senderName || payload.chatName,
-      },
-      message: {
-        type: 'text',
-        content,
-      },
+      externalId,
+      status,
+      recipientPhone: this.normalizePhone(payload.phone),
       timestamp: new Date(payload.momment),
-      isFromMe: payload.fromMe,
-    };
+      errorCode: null,
+      errorMessage: null,
+    }));
   }
 
   /**
-   * Extrai o conteúdo textual da mensagem.
-   * Prioridade: texto > caption da imagem > placeholder
+   * Extrai o conteúdo da mensagem conforme o tipo presente no payload.
+   * Prioridade: texto > mídias > localização > contato > reação > placeholder
    */
-  private extractContent(payload: ZApiWebhookPayload): string {
+  private extractContent(payload: ZApiReceivedCallbackPayload): MessageContent {
     // Mensagem de texto
     if (payload.text?.message) {
-      return payload.text.message;
+      return buildTextContent(payload.text.message);
+    }
+
+    if (payload.image) {
+      return buildMediaContent('image', {
+        url: payload.image.imageUrl,
+        mimeType: payload.image.mimeType,
+        width: payload.image.width,
+        height: payload.image.height,
+        caption: payload.image.caption,
+      });
     }
 
-    // Imagem com caption
-    if (payload.image?.caption) {
-      return payload.image.caption;
+    if (payload.audio) {
+      return buildMediaContent('audio', {
+        url: payload.audio.audioUrl,
+        mimeType: payload.audio.mimeType,
+      });
     }
 
-    // Imagem sem caption
-    if (payload.image) {
-      return '[Imagem recebida]';
+    if (payload.video) {
+      return buildMediaContent('video', {
+        url: payload.video.videoUrl,
+        mimeType: payload.video.mimeType,
+        width: payload.video.width,
+        height: payload.video.height,
+        caption: payload.video.caption,
+      });
+    }
+
+    if (payload.document) {
+      return buildMediaContent('document', {
+        url: payload.document.documentUrl,
+        mimeType: payload.document.mimeType,
+        fileName: payload.document.fileName || payload.document.title,
+        caption: payload.document.caption,
+      });
+    }
+
+    if (payload.sticker) {
+      return buildMediaContent('sticker', {
+        url: payload.sticker.stickerUrl,
+        mimeType: payload.sticker.mimeType,
+      });
+    }
+
+    if (payload.location) {
+      return buildLocationContent(payload.location);
+    }
+
+    if (payload.contact) {
+      return buildContactContent([
+        { name: payload.contact.displayName, phones: payload.contact.phones ?? [] },
+      ]);
+    }
+
+    if (payload.reaction) {
+      return buildReactionContent(
+        payload.reaction.value,
+        payload.reaction.referencedMessage.messageId
+      );
     }
 
-    // Fallback para outros tipos de mídia
-    return '[Mídia recebida]';
+    // Fallback para tipos ainda não suportados
+    return buildTextContent('[Mídia recebida]');
   }
 
   /**
    * Verifica se o payload é do Z-API.
-   * Identifica pelo campo 'type' com valor 'ReceivedCallback'.
+   * Identifica pelo campo 'type' ('ReceivedCallback' ou 'MessageStatusCallback').
    */
   canHandle(payload: unknown): boolean {
     if (typeof payload !== 'object' || payload === null) {
@@ -89,13 +250,18 @@ export class ZApiAdapter implements WebhookAdapter<ZApiWebhookPayload> {
 
     const obj = payload as Record<string, unknown>;
 
-    // Z-API sempre envia 'type': 'ReceivedCallback' para mensagens recebidas
-    // e possui 'instanceId' e 'messageId'
-    return (
-      obj['type'] === 'ReceivedCallback' &&
-      typeof obj['instanceId'] === 'string' &&
-      typeof obj['messageId'] === 'string'
-    );
+    // Z-API sempre envia 'instanceId'
+    if (typeof obj['instanceId'] !== 'string') {
+      return false;
+    }
+
+    // 'type': 'ReceivedCallback' para mensagens recebidas (possui 'messageId')
+    if (obj['type'] === 'ReceivedCallback') {
+      return typeof obj['messageId'] === 'string';
+    }
+
+    // 'type': 'MessageStatusCallback' para mudanças de status (possui 'ids')
+    return obj['type'] === 'MessageStatusCallback' && Array.isArray(obj['ids']);
   }
 
   /**
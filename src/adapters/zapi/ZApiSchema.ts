@@ -1,12 +1,15 @@
 import { z } from 'zod';
 
 /**
- * Schema Zod para validação do webhook de mensagem recebida do Z-API.
+ * Schema Zod para validação dos webhooks do Z-API.
  *
- * Baseado na documentação oficial: https://developer.z-api.io/webhooks/on-message-received
+ * Baseado na documentação oficial:
+ * - https://developer.z-api.io/webhooks/on-message-received (ReceivedCallback)
+ * - https://developer.z-api.io/webhooks/on-whatsapp-message-status-changes (MessageStatusCallback)
  *
- * Suporta mensagens de TEXTO e IMAGEM (com caption).
- * Outros tipos serão aceitos mas normalizados como "outro" no adapter.
+ * Suporta mensagens de TEXTO, IMAGEM, ÁUDIO, VÍDEO, DOCUMENTO, FIGURINHA,
+ * LOCALIZAÇÃO, CONTATO e REAÇÃO.
+ * Payloads sem nenhum desses campos são aceitos e normalizados como texto com placeholder.
  */
 
 /**
@@ -30,7 +33,86 @@ const ZApiImageSchema = z.object({
 });
 
 /**
- * Schema principal do webhook Z-API.
+ * Schema para o objeto de áudio da mensagem.
+ */
+const ZApiAudioSchema = z.object({
+  audioUrl: z.string(),
+  mimeType: z.string().optional(),
+  ptt: z.boolean().optional(),
+  seconds: z.number().optional(),
+  viewOnce: z.boolean().optional(),
+});
+
+/**
+ * Schema para o objeto de vídeo da mensagem.
+ */
+const ZApiVideoSchema = z.object({
+  videoUrl: z.string(),
+  caption: z.string().optional(),
+  mimeType: z.string().optional(),
+  seconds: z.number().optional(),
+  viewOnce: z.boolean().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+});
+
+/**
+ * Schema para o objeto de documento da mensagem.
+ */
+const ZApiDocumentSchema = z.object({
+  documentUrl: z.string(),
+  mimeType: z.string().optional(),
+  title: z.string().optional(),
+  fileName: z.string().optional(),
+  caption: z.string().optional(),
+  pageCount: z.number().optional(),
+});
+
+/**
+ * Schema para o objeto de figurinha da mensagem.
+ */
+const ZApiStickerSchema = z.object({
+  stickerUrl: z.string(),
+  mimeType: z.string().optional(),
+});
+
+/**
+ * Schema para o objeto de localização da mensagem.
+ */
+const ZApiLocationSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  name: z.string().optional(),
+  address: z.string().optional(),
+  url: z.string().optional(),
+  thumbnailUrl: z.string().optional(),
+});
+
+/**
+ * Schema para o objeto de contato (vCard) da mensagem.
+ */
+const ZApiContactSchema = z.object({
+  displayName: z.string(),
+  vCard: z.string().optional(),
+  phones: z.array(z.string()).optional(),
+});
+
+/**
+ * Schema para o objeto de reação da mensagem.
+ */
+const ZApiReactionSchema = z.object({
+  value: z.string(),
+  time: z.number().optional(),
+  referencedMessage: z.object({
+    messageId: z.string().min(1),
+    fromMe: z.boolean().optional(),
+    phone: z.string().optional(),
+    participant: z.string().nullable().optional(),
+  }),
+});
+
+/**
+ * Schema do webhook de mensagem recebida (ReceivedCallback).
  *
  * Campos obrigatórios conforme documentação:
  * - instanceId: ID da instância Z-API
@@ -46,8 +128,12 @@ const ZApiImageSchema = z.object({
  * Campos opcionais (dependem do tipo de mensagem):
  * - text: Objeto contendo a mensagem de texto
  * - image: Objeto contendo imagem com caption opcional
+ * - audio, video, document, sticker: Objetos de mídia com URL de download
+ * - location: Coordenadas e nome/endereço do local
+ * - contact: Cartão de contato (vCard)
+ * - reaction: Emoji e mensagem referenciada
  */
-export const ZApiWebhookSchema = z.object({
+const ZApiReceivedCallbackSchema = z.object({
   instanceId: z.string().min(1),
   messageId: z.string().min(1),
   phone: z.string().min(1),
@@ -64,9 +150,56 @@ export const ZApiWebhookSchema = z.object({
   // Tipos de mensagem (pelo menos um deve estar presente)
   text: ZApiTextSchema.optional(),
   image: ZApiImageSchema.optional(),
+  audio: ZApiAudioSchema.optional(),
+  video: ZApiVideoSchema.optional(),
+  document: ZApiDocumentSchema.optional(),
+  sticker: ZApiStickerSchema.optional(),
+  location: ZApiLocationSchema.optional(),
+  contact: ZApiContactSchema.optional(),
+  reaction: ZApiReactionSchema.optional(),
 });
 
+/**
+ * Schema do webhook de mudança de status de mensagem (MessageStatusCallback).
+ *
+ * Status conforme documentação:
+ * - SENT: enviada
+ * - RECEIVED: entregue no aparelho do contato
+ * - READ: lida pelo contato
+ * - READ_BY_ME: mensagem do contato lida por nós (não se refere a mensagens enviadas)
+ * - PLAYED: áudio/vídeo reproduzido pelo contato
+ */
+const ZApiMessageStatusCallbackSchema = z.object({
+  instanceId: z.string().min(1),
+  status: z.enum(['SENT', 'RECEIVED', 'READ', 'READ_BY_ME', 'PLAYED']),
+  ids: z.array(z.string().min(1)).min(1),
+  momment: z.number(), // Timestamp em millisegundos
+  phone: z.string().min(1),
+  phoneDevice: z.number().optional(),
+  isGroup: z.boolean().optional(),
+  type: z.literal('MessageStatusCallback'),
+});
+
+/**
+ * Schema principal do webhook Z-API.
+ * União discriminada pelo campo `type`.
+ */
+export const ZApiWebhookSchema = z.discriminatedUnion('type', [
+  ZApiReceivedCallbackSchema,
+  ZApiMessageStatusCallbackSchema,
+]);
+
 /**
  * Tipo inferido do schema Z-API.
  */
 export type ZApiWebhookPayload = z.infer<typeof ZApiWebhookSchema>;
+
+/**
+ * Tipo do webhook de mensagem recebida.
+ */
+export type ZApiReceivedCallbackPayload = z.infer<typeof ZApiReceivedCallbackSchema>;
+
+/**
+ * Tipo do webhook de mudança de status.
+ */
+export type ZApiMessageStatusCallbackPayload = z.infer<typeof ZApiMessageStatusCallbackSchema>;
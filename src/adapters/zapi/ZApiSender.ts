@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import type {
+  MessageSender,
+  OutboundTextMessage,
+  SentMessage,
+} from '../interfaces/MessageSender.js';
+import type { HttpClient } from '../interfaces/HttpClient.js';
+import type { ProviderAccount } from '../../domain/entities/Tenant.js';
+import { MessageSendError } from '../../domain/errors/WebhookErrors.js';
+
+/**
+ * Resposta do endpoint send-text do Z-API.
+ * `messageId` é o mesmo ID recebido depois nos callbacks de status.
+ */
+const ZApiSendTextResponseSchema = z.object({
+  zaapId: z.string().optional(),
+  messageId: z.string().min(1),
+  id: z.string().optional(),
+});
+
+/**
+ * Configuração do sender Z-API.
+ */
+export interface ZApiSenderConfig {
+  /** URL base da API. Ex: "https://api.z-api.io" */
+  baseUrl: string;
+}
+
+/**
+ * Sender para envio de mensagens pelo Z-API.
+ *
+ * Responsabilidades:
+ * - Traduzir a mensagem interna para a chamada send-text da instância do tenant
+ * - Validar a resposta do Z-API (fail-fast)
+ */
+export class ZApiSender implements MessageSender {
+  readonly provider = 'zapi' as const;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly config: ZApiSenderConfig
+  ) {}
+
+  /**
+   * Envia uma mensagem de texto pela instância (conta) informada.
+   * @throws MessageSendError se faltar token na conta ou o Z-API recusar o envio
+   */
+  async sendText(message: OutboundTextMessage, account: ProviderAccount): Promise<SentMessage> {
+    const { token, clientToken } = account.credentials;
+    if (!token || !clientToken) {
+      throw new MessageSendError(this.provider, 'token ou clientToken não cadastrado para a instância');
+    }
+
+    const response = await this.httpClient.request({
+      method: 'POST',
+      url: `${this.config.baseUrl}/instances/${account.accountId}/token/${token}/send-text`,
+      headers: { 'Client-Token': clientToken },
+      body: {
+        phone: message.phone,
+        message: message.text,
+      },
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new MessageSendError(this.provider, `HTTP ${response.status}`, response.status, response.body);
+    }
+
+    const result = ZApiSendTextResponseSchema.safeParse(response.body);
+    if (!result.success) {
+      throw new MessageSendError(this.provider, 'resposta sem messageId', response.status, response.body);
+    }
+
+    return {
+      externalId: result.data.messageId,
+      timestamp: new Date(),
+    };
+  }
+}
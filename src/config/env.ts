@@ -4,6 +4,41 @@ import dotenv from 'dotenv';
 // Carrega variáveis de ambiente do arquivo .env
 dotenv.config();
 
+/**
+ * Verifica se o fuso horário é reconhecido pelo runtime (IANA, ex: "America/Sao_Paulo").
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Classificadores disponíveis para a cadeia de classificação.
+ * - claude: Claude (Anthropic)
+ * - openai: endpoint compatível com a API da OpenAI (ex: Ollama local)
+ * - keyword: classificador por palavras-chave, sem chamadas externas
+ */
+const CLASSIFIER_NAMES = ['claude', 'openai', 'keyword'] as const;
+
+/**
+ * Converte a lista "nome[:timeoutMs],..." da cadeia de classificação.
+ * Ex: "claude:8000,openai:15000,keyword"
+ */
+function parseClassifierList(value: string): Array<{ name: string; timeoutMs?: number | undefined }> {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+    .map((item) => {
+      const [name = '', timeout] = item.split(':').map((part) => part.trim());
+      return timeout !== undefined ? { name, timeoutMs: Number(timeout) } : { name };
+    });
+}
+
 /**
  * Schema de validação das variáveis de ambiente.
  * FAIL-FAST: Todas as variáveis obrigatórias devem estar presentes.
@@ -17,17 +52,89 @@ const envSchema = z.object({
   // Database
   DATABASE_URL: z.string().url().startsWith('postgresql://'),
 
-  // Z-API
-  ZAPI_INSTANCE_ID: z.string().min(1),
-  ZAPI_TOKEN: z.string().min(1),
-  ZAPI_CLIENT_TOKEN: z.string().min(1),
+  // Z-API (credenciais opcionais: usadas apenas para criar o tenant padrão)
+  ZAPI_INSTANCE_ID: z.string().min(1).optional(),
+  ZAPI_TOKEN: z.string().min(1).optional(),
+  ZAPI_CLIENT_TOKEN: z.string().min(1).optional(),
+  ZAPI_API_URL: z.string().url().default('https://api.z-api.io'),
 
-  // Meta Cloud API (opcional para simulação)
+  // Meta Cloud API (credenciais opcionais: usadas apenas para criar o tenant padrão)
   META_VERIFY_TOKEN: z.string().optional(),
   META_ACCESS_TOKEN: z.string().optional(),
+  META_APP_SECRET: z.string().optional(),
+  META_PHONE_NUMBER_ID: z.string().optional(),
+  META_GRAPH_API_URL: z.string().url().default('https://graph.facebook.com/v19.0'),
+
+  // Envio de mensagens (chamadas HTTP aos provedores)
+  OUTBOUND_HTTP_TIMEOUT_MS: z.string().default('10000').transform(Number).pipe(z.number().int().min(1000)),
+
+  // Cadeia de classificação: classificadores em ordem de preferência, com timeout opcional
+  CLASSIFIERS: z
+    .string()
+    .default('claude,keyword')
+    .transform(parseClassifierList)
+    .pipe(
+      z
+        .array(
+          z.object({
+            name: z.enum(CLASSIFIER_NAMES),
+            timeoutMs: z.number().int().min(100).optional(),
+          })
+        )
+        .min(1)
+        .refine(
+          (classifiers) => new Set(classifiers.map((classifier) => classifier.name)).size === classifiers.length,
+          'Classificador repetido na cadeia'
+        )
+    ),
+  CLASSIFIER_TIMEOUT_MS: z.string().default('10000').transform(Number).pipe(z.number().int().min(100)),
+  CLASSIFIER_FAILURE_THRESHOLD: z.string().default('3').transform(Number).pipe(z.number().int().min(1)),
+  CLASSIFIER_COOLDOWN_MS: z.string().default('60000').transform(Number).pipe(z.number().int().min(1000)),
+  // Cache de classificações de mensagens sem contexto (0 desativa)
+  CLASSIFICATION_CACHE_TTL_MS: z.string().default('86400000').transform(Number).pipe(z.number().int().min(0)),
+
+  // Anthropic (Claude LLM) - obrigatória se "claude" estiver na cadeia (vazia equivale a ausente)
+  ANTHROPIC_API_KEY: z
+    .string()
+    .startsWith('sk-ant-')
+    .or(z.literal('').transform(() => undefined))
+    .optional(),
 
-  // Anthropic (Claude LLM)
-  ANTHROPIC_API_KEY: z.string().startsWith('sk-ant-'),
+  // Endpoint compatível com a API da OpenAI (classificador "openai")
+  OPENAI_BASE_URL: z.string().url().default('http://localhost:11434/v1'),
+  OPENAI_API_KEY: z.string().min(1).optional(),
+  OPENAI_MODEL: z.string().min(1).default('llama3.1'),
+
+  // Fila de classificação (valores padrão seguros, ajustáveis por ambiente)
+  CLASSIFICATION_CONCURRENCY: z.string().default('2').transform(Number).pipe(z.number().int().min(1)),
+  CLASSIFICATION_MAX_ATTEMPTS: z.string().default('5').transform(Number).pipe(z.number().int().min(1)),
+  CLASSIFICATION_POLL_INTERVAL_MS: z.string().default('1000').transform(Number).pipe(z.number().int().min(100)),
+  CLASSIFICATION_RETRY_BASE_DELAY_MS: z.string().default('5000').transform(Number).pipe(z.number().int().min(0)),
+  CLASSIFICATION_LOCK_TIMEOUT_MS: z.string().default('300000').transform(Number).pipe(z.number().int().min(1000)),
+  CLASSIFICATION_HISTORY_SIZE: z.string().default('10').transform(Number).pipe(z.number().int().min(0).max(50)),
+  // Revisão manual: classificações abaixo desta confiança entram na fila de revisão
+  REVIEW_CONFIDENCE_THRESHOLD: z.string().default('0.7').transform(Number).pipe(z.number().min(0).max(1)),
+  // Regras de automação
+  RULES_TIMEZONE: z.string().default('America/Sao_Paulo').refine(isValidTimeZone, 'Fuso horário IANA inválido'),
+  INTENT_CACHE_TTL_MS: z.string().default('60000').transform(Number).pipe(z.number().int().min(0)),
+
+  // Entrega de eventos para sistemas externos (assinaturas)
+  EVENT_DELIVERY_CONCURRENCY: z.string().default('4').transform(Number).pipe(z.number().int().min(1)),
+  EVENT_DELIVERY_MAX_ATTEMPTS: z.string().default('8').transform(Number).pipe(z.number().int().min(1)),
+  EVENT_DELIVERY_POLL_INTERVAL_MS: z.string().default('1000').transform(Number).pipe(z.number().int().min(100)),
+  EVENT_DELIVERY_RETRY_BASE_DELAY_MS: z.string().default('10000').transform(Number).pipe(z.number().int().min(0)),
+  EVENT_DELIVERY_LOCK_TIMEOUT_MS: z.string().default('60000').transform(Number).pipe(z.number().int().min(1000)),
+
+  // Adapters configuráveis (mapeamentos cadastrados em /admin/adapters)
+  ADAPTER_MAPPINGS_REFRESH_MS: z.string().default('60000').transform(Number).pipe(z.number().int().min(1000)),
+}).superRefine((value, ctx) => {
+  if (value.CLASSIFIERS.some((classifier) => classifier.name === 'claude') && !value.ANTHROPIC_API_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['ANTHROPIC_API_KEY'],
+      message: 'Obrigatória quando "claude" está em CLASSIFIERS',
+    });
+  }
 });
 
 /**
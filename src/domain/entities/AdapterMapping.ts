@@ -0,0 +1,78 @@
+/**
+ * Unidade do timestamp da mensagem no payload do provedor.
+ * - seconds: Unix timestamp em segundos
+ * - milliseconds: Unix timestamp em milissegundos
+ * - iso: data em texto (ISO 8601)
+ */
+export type TimestampUnit = 'seconds' | 'milliseconds' | 'iso';
+
+/**
+ * Condição de detecção do provedor pelo payload.
+ * Sem `equals`, basta o campo estar presente.
+ */
+export interface DetectionRule {
+  /** Seletor do campo (ex: "$.app") */
+  path: string;
+  /** Valor esperado no campo */
+  equals?: string | number | boolean | undefined;
+}
+
+/**
+ * Seletores dos campos de cada mensagem.
+ * São avaliados sobre cada item da lista de mensagens (ou sobre o payload
+ * inteiro, se o mapeamento não define a lista).
+ */
+export interface AdapterFieldMapping {
+  externalId: string;
+  phone: string;
+  /** Nome do contato (sem seletor ou ausente: usa o telefone) */
+  name: string | null;
+  /** Texto da mensagem */
+  content: string;
+  timestamp: { path: string; unit: TimestampUnit };
+  /** Booleano indicando mensagem enviada pela conta (sem seletor: false) */
+  fromMe: string | null;
+}
+
+/**
+ * Documento de mapeamento que define um adapter configurável.
+ * Seletores no estilo JSONPath (ver FieldSelector.ts).
+ */
+export interface AdapterMappingDefinition {
+  /** Condições (todas obrigatórias) que identificam o payload do provedor */
+  detect: DetectionRule[];
+  /** Seletor da conta no provedor, que identifica o tenant (avaliado no payload) */
+  accountId: string;
+  /** Seletor das mensagens (ex: "$.messages[*]"). Null: o payload é uma única mensagem */
+  messages: string | null;
+  fields: AdapterFieldMapping;
+  /**
+   * Header com o token do webhook, comparado com o clientToken da conta.
+   * Null: o provedor não autentica os webhooks.
+   */
+  tokenHeader: string | null;
+}
+
+/**
+ * Provedor integrado por mapeamento, sem código específico.
+ */
+export interface AdapterMapping {
+  id: string;
+  /** Identificador do provedor (usado nas URLs de webhook e nas contas dos tenants) */
+  provider: string;
+  name: string;
+  active: boolean;
+  definition: AdapterMappingDefinition;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Dados para cadastrar um mapeamento.
+ */
+export type CreateAdapterMapping = Pick<AdapterMapping, 'provider' | 'name' | 'active' | 'definition'>;
+
+/**
+ * Dados alteráveis de um mapeamento.
+ */
+export type UpdateAdapterMapping = Partial<Pick<AdapterMapping, 'name' | 'active' | 'definition'>>;
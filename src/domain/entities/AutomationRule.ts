@@ -0,0 +1,139 @@
+import type { Provider } from './NormalizedMessage.js';
+
+/**
+ * Condições de uma regra de automação.
+ * Campos vazios/nulos não restringem (casam com qualquer mensagem).
+ */
+export interface RuleConditions {
+  /** Intenções que disparam a regra (vazio = qualquer intenção) */
+  intents: string[];
+  /** Confiança mínima da classificação (inclusive) */
+  minConfidence: number | null;
+  /** Provedores de origem da mensagem (vazio = qualquer provedor) */
+  providers: Provider[];
+  /**
+   * Janela de horário da mensagem (hora local, 0-23, início inclusive e fim exclusivo).
+   * Início maior que fim indica janela que atravessa a meia-noite (ex: 22 -> 6).
+   */
+  startHour: number | null;
+  endHour: number | null;
+  /** true = apenas contatos novos, false = apenas contatos existentes, null = ambos */
+  contactIsNew: boolean | null;
+}
+
+/**
+ * Envia uma resposta de texto pelo mesmo provedor da mensagem.
+ * Placeholders: {{contact.name}}, {{contact.phone}}, {{intent}}, {{message}}.
+ */
+export interface SendReplyAction {
+  type: 'send_reply';
+  template: string;
+}
+
+/**
+ * Adiciona etiquetas ao contato.
+ */
+export interface TagContactAction {
+  type: 'tag_contact';
+  tags: string[];
+}
+
+/**
+ * Envia a mensagem classificada (JSON) para uma URL externa via POST.
+ */
+export interface CallWebhookAction {
+  type: 'call_webhook';
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Ação executada quando a regra casa com a mensagem.
+ * União discriminada por `type`.
+ */
+export type RuleAction = SendReplyAction | TagContactAction | CallWebhookAction;
+
+/**
+ * Regra de automação disparada após a classificação de uma mensagem recebida.
+ */
+export interface AutomationRule {
+  /** UUID gerado internamente */
+  id: string;
+  /** Tenant ao qual a regra se aplica (null = todos os tenants) */
+  tenantId: string | null;
+  /** Nome descritivo da regra */
+  name: string;
+  /** Regras inativas não são avaliadas */
+  active: boolean;
+  /** Ordem de avaliação (menor primeiro) */
+  priority: number;
+  /** Condições para a regra disparar */
+  conditions: RuleConditions;
+  /** Ações executadas em ordem; a primeira falha interrompe as seguintes */
+  actions: RuleAction[];
+  /** Momento da criação do registro */
+  createdAt: Date;
+  /** Momento da última alteração */
+  updatedAt: Date;
+}
+
+/**
+ * Dados para criar uma regra.
+ */
+export type CreateAutomationRule = Pick<
+  AutomationRule,
+  'tenantId' | 'name' | 'active' | 'priority' | 'conditions' | 'actions'
+>;
+
+/**
+ * Dados para alterar uma regra (o tenant é definido na criação).
+ */
+export type UpdateAutomationRule = Partial<Omit<CreateAutomationRule, 'tenantId'>>;
+
+/**
+ * Resultado de uma execução de regra.
+ * - running: execução reservada antes das ações; se ficar assim, as ações foram
+ *   interrompidas (ex: queda do worker) e não são repetidas
+ * - success: todas as ações executadas
+ * - failed: uma ação falhou (as seguintes não foram executadas)
+ */
+export type RuleExecutionStatus = 'running' | 'success' | 'failed';
+
+/**
+ * Resultado de uma ação individual.
+ */
+export interface RuleActionResult {
+  type: RuleAction['type'];
+  success: boolean;
+  /** Detalhe do resultado (ex: ID da mensagem enviada, status HTTP) */
+  detail: string | null;
+  /** Mensagem de erro, se falhou */
+  error: string | null;
+}
+
+/**
+ * Registro de auditoria da execução de uma regra para uma mensagem.
+ * Cada regra executa no máximo uma vez por mensagem.
+ */
+export interface RuleExecution {
+  /** UUID gerado internamente */
+  id: string;
+  ruleId: string;
+  messageId: string;
+  contactId: string;
+  status: RuleExecutionStatus;
+  /** Resultado de cada ação executada, em ordem */
+  results: RuleActionResult[];
+  /** Momento da execução */
+  executedAt: Date;
+}
+
+/**
+ * Dados para registrar uma execução.
+ */
+export type CreateRuleExecution = Omit<RuleExecution, 'id' | 'executedAt'>;
+
+/**
+ * Dados para reservar uma execução antes de rodar as ações.
+ */
+export type ClaimRuleExecution = Pick<RuleExecution, 'ruleId' | 'messageId' | 'contactId'>;
@@ -0,0 +1,20 @@
+import type { ClassificationSource } from './NormalizedMessage.js';
+
+/**
+ * Registro de uma classificação de mensagem (automática ou correção manual).
+ * O histórico nunca é alterado: correções humanas formam o dataset rotulado.
+ */
+export interface ClassificationHistoryEntry {
+  id: string;
+  messageId: string;
+  intent: string;
+  confidence: number;
+  source: ClassificationSource;
+  /** Classificador da cadeia (ex: "claude", "keyword", "human") */
+  classifier: string | null;
+  /** Modelo usado (null para palavras-chave e correções manuais) */
+  model: string | null;
+  /** Versão do prompt usado (null para palavras-chave e correções manuais) */
+  promptVersion: string | null;
+  createdAt: Date;
+}
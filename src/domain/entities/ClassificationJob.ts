@@ -0,0 +1,31 @@
+/**
+ * Estado de um job de classificação na fila.
+ * - pending: aguardando execução (inclui retentativas agendadas)
+ * - processing: em execução por um worker
+ * - done: classificação concluída
+ * - dead: esgotou as tentativas (dead-letter)
+ */
+export type ClassificationJobStatus = 'pending' | 'processing' | 'done' | 'dead';
+
+/**
+ * Job de classificação de intenção de uma mensagem.
+ * Persistido no banco para sobreviver a reinícios da aplicação.
+ */
+export interface ClassificationJob {
+  /** UUID gerado internamente */
+  id: string;
+  /** ID interno da mensagem a classificar */
+  messageId: string;
+  /** Estado atual do job */
+  status: ClassificationJobStatus;
+  /** Tentativas já iniciadas */
+  attempts: number;
+  /** Máximo de tentativas antes do dead-letter */
+  maxAttempts: number;
+  /** Momento a partir do qual o job pode ser executado (backoff) */
+  runAt: Date;
+  /** Mensagem do último erro, se houver */
+  lastError: string | null;
+  /** Momento da criação do job */
+  createdAt: Date;
+}
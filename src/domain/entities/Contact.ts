@@ -0,0 +1,27 @@
+/**
+ * Contato (lead) único do tenant.
+ * Identificado pelo telefone: o mesmo número chegando por provedores
+ * diferentes (Z-API, Meta, Evolution) resulta em um único contato por tenant.
+ */
+export interface Contact {
+  /** UUID gerado internamente */
+  id: string;
+  /** ID do tenant (cliente) dono do contato */
+  tenantId: string;
+  /** Número de telefone normalizado (apenas dígitos). Ex: "5511988888888" */
+  phone: string;
+  /** Nome mais recente informado pelo contato */
+  name: string;
+  /** Timestamp da primeira mensagem trocada com o contato */
+  firstMessageAt: Date | null;
+  /** Timestamp da última mensagem trocada com o contato */
+  lastMessageAt: Date | null;
+  /** Total de mensagens trocadas (ambas as direções) */
+  messageCount: number;
+  /** Intenção da mensagem mais recente já classificada */
+  lastIntent: string | null;
+  /** Etiquetas atribuídas ao contato (ex: pelas regras de automação) */
+  tags: string[];
+  /** Momento da criação do registro */
+  createdAt: Date;
+}
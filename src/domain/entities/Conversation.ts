@@ -0,0 +1,22 @@
+import type { Provider } from './NormalizedMessage.js';
+
+/**
+ * Conversa entre nós e um contato em um provedor específico.
+ * Um contato tem no máximo uma conversa por provedor.
+ */
+export interface Conversation {
+  /** UUID gerado internamente */
+  id: string;
+  /** ID do contato */
+  contactId: string;
+  /** Provedor por onde a conversa acontece */
+  provider: Provider;
+  /** Timestamp da primeira mensagem da conversa */
+  firstMessageAt: Date | null;
+  /** Timestamp da última mensagem da conversa */
+  lastMessageAt: Date | null;
+  /** Total de mensagens da conversa */
+  messageCount: number;
+  /** Momento da criação do registro */
+  createdAt: Date;
+}
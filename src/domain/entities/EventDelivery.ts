@@ -0,0 +1,46 @@
+import type { EventType, EventEnvelope } from './EventSubscription.js';
+
+/**
+ * Estado de uma entrega de evento.
+ * - pending: aguardando envio (inclui retentativas agendadas)
+ * - processing: em envio por um worker
+ * - delivered: destino respondeu 2xx
+ * - dead: esgotou as tentativas (dead-letter)
+ */
+export type EventDeliveryStatus = 'pending' | 'processing' | 'delivered' | 'dead';
+
+/**
+ * Entrega de um evento para uma assinatura.
+ * Persistida no banco: funciona como fila de envio e como log de entregas.
+ */
+export interface EventDelivery {
+  /** UUID gerado internamente */
+  id: string;
+  subscriptionId: string;
+  /** ID do evento (compartilhado entre as assinaturas) */
+  eventId: string;
+  eventType: EventType;
+  /** Corpo enviado ao destino */
+  payload: EventEnvelope;
+  /** Estado atual da entrega */
+  status: EventDeliveryStatus;
+  /** Tentativas já iniciadas */
+  attempts: number;
+  /** Máximo de tentativas antes do dead-letter */
+  maxAttempts: number;
+  /** Momento a partir do qual a entrega pode ser executada (backoff) */
+  runAt: Date;
+  /** Status HTTP da última tentativa (null = falha de rede/timeout) */
+  lastStatusCode: number | null;
+  /** Mensagem do último erro, se houver */
+  lastError: string | null;
+  /** Momento da entrega bem-sucedida */
+  deliveredAt: Date | null;
+  /** Momento da criação da entrega */
+  createdAt: Date;
+}
+
+/**
+ * Dados para enfileirar uma entrega.
+ */
+export type CreateEventDelivery = Pick<EventDelivery, 'subscriptionId' | 'eventId' | 'eventType' | 'payload'>;
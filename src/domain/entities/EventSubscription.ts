@@ -0,0 +1,64 @@
+/**
+ * Eventos emitidos para sistemas externos (CRMs).
+ * - message.received: mensagem nova recebida e salva
+ * - message.classified: mensagem classificada pelo LLM
+ * - message.duplicate: reentrega de mensagem já processada
+ */
+export type EventType = 'message.received' | 'message.classified' | 'message.duplicate';
+
+/**
+ * Todos os tipos de evento suportados (para validação).
+ */
+export const EVENT_TYPES = [
+  'message.received',
+  'message.classified',
+  'message.duplicate',
+] as const satisfies readonly EventType[];
+
+/**
+ * Assinatura de eventos de um sistema externo.
+ */
+export interface EventSubscription {
+  /** UUID gerado internamente */
+  id: string;
+  /** Tenant cujos eventos são assinados (null = todos os tenants) */
+  tenantId: string | null;
+  /** URL que recebe os eventos via POST */
+  url: string;
+  /** Eventos assinados */
+  events: EventType[];
+  /** Segredo do HMAC-SHA256 enviado no header X-SuperSDR-Signature */
+  secret: string;
+  /** Assinaturas inativas não recebem novos eventos */
+  active: boolean;
+  /** Momento da criação do registro */
+  createdAt: Date;
+  /** Momento da última alteração */
+  updatedAt: Date;
+}
+
+/**
+ * Dados para criar uma assinatura.
+ */
+export type CreateEventSubscription = Pick<
+  EventSubscription,
+  'tenantId' | 'url' | 'events' | 'secret' | 'active'
+>;
+
+/**
+ * Dados para alterar uma assinatura (o tenant é definido na criação).
+ */
+export type UpdateEventSubscription = Partial<Omit<CreateEventSubscription, 'tenantId'>>;
+
+/**
+ * Envelope enviado no corpo de cada entrega.
+ */
+export interface EventEnvelope<T = unknown> {
+  /** ID do evento (o mesmo em todas as assinaturas; use para deduplicar) */
+  id: string;
+  type: EventType;
+  /** Momento em que o evento ocorreu */
+  occurredAt: string;
+  /** NormalizedMessage em JSON */
+  data: T;
+}
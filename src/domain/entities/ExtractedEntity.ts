@@ -0,0 +1,59 @@
+/**
+ * Tipos de entidade reconhecidos no conteúdo das mensagens.
+ * - email: endereço de e-mail
+ * - cpf / cnpj: documentos com dígitos verificadores válidos
+ * - cep: código postal no formato 00000-000
+ * - order_number: número de pedido/protocolo citado após a palavra-chave
+ * - date: data de calendário válida
+ * - money: valor em reais
+ */
+export type EntityType = 'email' | 'cpf' | 'cnpj' | 'cep' | 'order_number' | 'date' | 'money';
+
+/**
+ * Tipos aceitos, na ordem de prioridade da extração
+ * (um trecho reconhecido por um tipo não é reaproveitado pelos seguintes).
+ */
+export const ENTITY_TYPES = [
+  'email',
+  'order_number',
+  'cnpj',
+  'cpf',
+  'cep',
+  'money',
+  'date',
+] as const satisfies readonly EntityType[];
+
+/**
+ * Entidade encontrada no conteúdo de uma mensagem.
+ */
+export interface ExtractedEntity {
+  type: EntityType;
+  /**
+   * Valor normalizado:
+   * - email: minúsculas
+   * - cpf / cnpj: apenas dígitos
+   * - cep: "00000-000"
+   * - order_number: maiúsculas
+   * - date: "AAAA-MM-DD"
+   * - money: decimal com 2 casas (ex: "1500.00")
+   */
+  value: string;
+  /** Trecho como escrito na mensagem */
+  text: string;
+  /** Posição inicial do trecho no conteúdo */
+  start: number;
+  /** Posição final do trecho no conteúdo (exclusiva) */
+  end: number;
+}
+
+/**
+ * Entidade de um contato, agregada entre as suas mensagens.
+ */
+export interface ContactEntity {
+  type: EntityType;
+  value: string;
+  /** Quantidade de mensagens em que a entidade apareceu */
+  occurrences: number;
+  /** Momento em que a entidade apareceu pela última vez */
+  lastSeenAt: Date;
+}
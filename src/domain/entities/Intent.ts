@@ -0,0 +1,91 @@
+/**
+ * Intenção do catálogo de classificação.
+ * Cada cliente define as próprias categorias; os classificadores montam
+ * prompt, regras e validação a partir do catálogo em tempo de execução.
+ */
+export interface Intent {
+  /** UUID gerado internamente */
+  id: string;
+  /** Identificador usado na classificação. Ex: "interesse_produto" */
+  key: string;
+  /** Descrição da categoria (enviada ao LLM) */
+  description: string;
+  /** Exemplos de mensagens/expressões da categoria */
+  examples: string[];
+  /** Intenções inativas não são usadas na classificação */
+  active: boolean;
+  /** Momento da criação do registro */
+  createdAt: Date;
+  /** Momento da última alteração */
+  updatedAt: Date;
+}
+
+/**
+ * Definição de uma intenção como usada pelos classificadores.
+ */
+export type IntentDefinition = Pick<Intent, 'key' | 'description' | 'examples'>;
+
+/**
+ * Dados para criar uma intenção no catálogo.
+ */
+export type CreateIntent = IntentDefinition & Pick<Intent, 'active'>;
+
+/**
+ * Dados para alterar uma intenção (a chave é imutável).
+ */
+export type UpdateIntent = Partial<Pick<Intent, 'description' | 'examples' | 'active'>>;
+
+/**
+ * Chave da intenção usada quando nenhuma categoria se aplica
+ * ou quando o classificador retorna uma chave fora do catálogo.
+ */
+export const FALLBACK_INTENT_KEY = 'outro';
+
+/**
+ * Definição da intenção de fallback, usada quando ela não está no catálogo.
+ */
+export const FALLBACK_INTENT: CreateIntent = {
+  key: FALLBACK_INTENT_KEY,
+  description: 'Não se encaixa em nenhuma categoria',
+  examples: [],
+  active: true,
+};
+
+/**
+ * Catálogo inicial, inserido quando a tabela de intenções está vazia.
+ * Os exemplos são expressões curtas: servem de exemplo para o LLM
+ * e de palavra-chave para o MockClaudeService.
+ */
+export const DEFAULT_INTENTS: CreateIntent[] = [
+  {
+    key: 'interesse_produto',
+    description: 'Lead quer comprar ou saber mais sobre o produto',
+    examples: ['comprar', 'quero', 'preço', 'valor', 'quanto custa', 'interesse'],
+    active: true,
+  },
+  {
+    key: 'duvida_produto',
+    description: 'Pergunta sobre preço, características, disponibilidade',
+    examples: ['dúvida', 'como funciona', 'qual', 'quando', 'onde', 'características'],
+    active: true,
+  },
+  {
+    key: 'suporte_tecnico',
+    description: 'Problema técnico, dificuldade de uso',
+    examples: ['suporte', 'ajuda', 'problema', 'erro', 'não funciona', 'bug'],
+    active: true,
+  },
+  {
+    key: 'reclamacao',
+    description: 'Insatisfação, queixa, problema com compra',
+    examples: ['reclamação', 'insatisfeito', 'péssimo', 'ruim', 'horrível', 'decepcionado'],
+    active: true,
+  },
+  {
+    key: 'saudacao',
+    description: 'Apenas oi, olá, bom dia, sem conteúdo adicional',
+    examples: ['oi', 'olá', 'bom dia', 'boa tarde', 'boa noite', 'hey', 'opa'],
+    active: true,
+  },
+  FALLBACK_INTENT,
+];
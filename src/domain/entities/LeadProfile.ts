@@ -0,0 +1,152 @@
+/**
+ * Prazo de compra indicado pelo contato.
+ * - immediate: hoje ou nos próximos dias
+ * - short_term: até cerca de 3 meses
+ * - long_term: mais de 3 meses
+ * - unknown: sem sinal de prazo
+ */
+export type LeadTimeline = 'immediate' | 'short_term' | 'long_term' | 'unknown';
+
+/**
+ * Prazos aceitos, do mais urgente para o menos urgente.
+ */
+export const LEAD_TIMELINES = [
+  'immediate',
+  'short_term',
+  'long_term',
+  'unknown',
+] as const satisfies readonly LeadTimeline[];
+
+/**
+ * Sinais de qualificação (BANT) extraídos de uma única mensagem do contato.
+ */
+export interface LeadSignals {
+  /** O contato falou de orçamento, verba ou valor que pode pagar */
+  budgetMentioned: boolean;
+  /** Valor ou faixa citada, como escrita pelo contato. Ex: "até R$ 5 mil" */
+  budget: string | null;
+  /** Prazo de compra */
+  timeline: LeadTimeline;
+  /** true = decide a compra, false = depende de outra pessoa, null = sem sinal */
+  decisionMaker: boolean | null;
+  /** Produtos ou serviços de interesse citados */
+  productInterest: string[];
+  /** Objeções levantadas. Ex: "preço", "concorrência" */
+  objections: string[];
+}
+
+/**
+ * Perfil de qualificação do contato, acumulado entre mensagens.
+ */
+export interface LeadProfile {
+  /** ID do contato (lead) */
+  contactId: string;
+  /** Algum sinal de orçamento já apareceu */
+  budgetMentioned: boolean;
+  /** Valor ou faixa mais recente citada */
+  budget: string | null;
+  /** Prazo mais recente informado */
+  timeline: LeadTimeline;
+  /** Sinal mais recente de poder de decisão */
+  decisionMaker: boolean | null;
+  /** Produtos de interesse (sem repetição) */
+  productInterest: string[];
+  /** Objeções levantadas (sem repetição) */
+  objections: string[];
+  /** Pontuação do lead de 0 a 100 (ver calculateLeadScore) */
+  score: number;
+  /** Quantidade de mensagens analisadas */
+  analyzedMessages: number;
+  /** Momento da última atualização */
+  updatedAt: Date;
+}
+
+/**
+ * Campos do perfil derivados das mensagens (sem identificação e metadados).
+ */
+export type LeadProfileData = Omit<LeadProfile, 'contactId' | 'score' | 'analyzedMessages' | 'updatedAt'>;
+
+/**
+ * Perfil de um contato ainda sem sinais.
+ */
+export const EMPTY_LEAD_PROFILE: LeadProfileData = {
+  budgetMentioned: false,
+  budget: null,
+  timeline: 'unknown',
+  decisionMaker: null,
+  productInterest: [],
+  objections: [],
+};
+
+/**
+ * Máximo de produtos de interesse e de objeções mantidos no perfil.
+ */
+const MAX_PROFILE_ITEMS = 20;
+
+/**
+ * Pontos de cada critério do score. Objeções descontam pontos até o limite.
+ */
+const SCORE_WEIGHTS = {
+  budget: 25,
+  timeline: { immediate: 25, short_term: 15, long_term: 5, unknown: 0 },
+  decisionMaker: 25,
+  influencer: 10,
+  productInterest: 25,
+  objection: -5,
+  maxObjectionPenalty: -15,
+} as const;
+
+/**
+ * Acumula os sinais de uma mensagem no perfil do contato.
+ * Orçamento é cumulativo; prazo, valor e poder de decisão ficam com o sinal
+ * mais recente; produtos e objeções são unidos sem repetição.
+ */
+export function mergeLeadSignals(profile: LeadProfileData, signals: LeadSignals): LeadProfileData {
+  return {
+    budgetMentioned: profile.budgetMentioned || signals.budgetMentioned,
+    budget: signals.budget ?? profile.budget,
+    timeline: signals.timeline !== 'unknown' ? signals.timeline : profile.timeline,
+    decisionMaker: signals.decisionMaker ?? profile.decisionMaker,
+    productInterest: mergeItems(profile.productInterest, signals.productInterest),
+    objections: mergeItems(profile.objections, signals.objections),
+  };
+}
+
+/**
+ * Calcula o score do lead (0 a 100) a partir do perfil acumulado:
+ * orçamento, prazo, poder de decisão e interesse em produto somam até 25 pontos
+ * cada; cada objeção desconta 5 (até 15).
+ */
+export function calculateLeadScore(profile: LeadProfileData): number {
+  let score = 0;
+
+  if (profile.budgetMentioned) score += SCORE_WEIGHTS.budget;
+  score += SCORE_WEIGHTS.timeline[profile.timeline];
+  if (profile.decisionMaker === true) score += SCORE_WEIGHTS.decisionMaker;
+  if (profile.decisionMaker === false) score += SCORE_WEIGHTS.influencer;
+  if (profile.productInterest.length > 0) score += SCORE_WEIGHTS.productInterest;
+  score += Math.max(
+    SCORE_WEIGHTS.maxObjectionPenalty,
+    profile.objections.length * SCORE_WEIGHTS.objection
+  );
+
+  return Math.min(100, Math.max(0, score));
+}
+
+/**
+ * Une duas listas ignorando diferenças de caixa e espaços (mantém a primeira grafia).
+ */
+function mergeItems(current: string[], incoming: string[]): string[] {
+  const merged = [...current];
+  const seen = new Set(current.map((item) => item.trim().toLowerCase()));
+
+  for (const item of incoming) {
+    const key = item.trim().toLowerCase();
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      merged.push(item.trim());
+    }
+  }
+
+  return merged.slice(0, MAX_PROFILE_ITEMS);
+}
@@ -0,0 +1,32 @@
+import type { Provider } from './NormalizedMessage.js';
+
+/**
+ * Status de entrega de uma mensagem enviada por nós.
+ * - sent: aceita pelo servidor do WhatsApp
+ * - delivered: entregue no aparelho do contato
+ * - read: lida pelo contato
+ * - played: áudio/vídeo reproduzido pelo contato
+ * - failed: falha no envio
+ */
+export type MessageStatus = 'sent' | 'delivered' | 'read' | 'played' | 'failed';
+
+/**
+ * Evento de atualização de status de uma mensagem enviada.
+ * Todos os provedores são convertidos para este formato único.
+ */
+export interface MessageStatusEvent {
+  /** Identificador do provedor de origem */
+  provider: Provider;
+  /** ID externo da mensagem cujo status mudou */
+  externalId: string;
+  /** Novo status da mensagem */
+  status: MessageStatus;
+  /** Telefone do destinatário (apenas dígitos) */
+  recipientPhone: string;
+  /** Momento da mudança de status (timestamp do provedor) */
+  timestamp: Date;
+  /** Código do erro informado pelo provedor (apenas para "failed") */
+  errorCode: string | null;
+  /** Descrição do erro informado pelo provedor (apenas para "failed") */
+  errorMessage: string | null;
+}
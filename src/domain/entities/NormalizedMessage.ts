@@ -1,18 +1,36 @@
+import type { ExtractedEntity } from './ExtractedEntity.js';
+
 /**
- * Provedores de WhatsApp suportados pelo sistema.
+ * Identificador de um provedor de WhatsApp.
+ * Provedores nativos: 'zapi', 'meta' e 'evolution'. Provedores configuráveis
+ * usam o identificador cadastrado no mapeamento (ver AdapterMapping).
  */
-export type Provider = 'zapi' | 'meta';
+export type Provider = string;
 
 /**
  * Tipos de mensagem suportados.
- * MVP: Apenas texto.
  */
-export type MessageType = 'text';
+export type MessageType =
+  | 'text'
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'document'
+  | 'sticker'
+  | 'location'
+  | 'contact'
+  | 'reaction';
+
+/**
+ * Tipos de mensagem que carregam um arquivo de mídia.
+ */
+export type MediaMessageType = 'image' | 'audio' | 'video' | 'document' | 'sticker';
 
 /**
- * Informações do contato que enviou a mensagem.
+ * Informações do contato como recebidas na mensagem.
+ * O registro único do lead fica na entidade Contact (ver Contact.ts).
  */
-export interface Contact {
+export interface ContactInfo {
   /** Número de telefone normalizado (apenas dígitos). Ex: "5511988888888" */
   phone: string;
   /** Nome do contato conforme salvo no WhatsApp */
@@ -20,25 +38,159 @@ export interface Contact {
 }
 
 /**
- * Conteúdo da mensagem.
+ * Arquivo de mídia anexado à mensagem.
+ * Campos não informados pelo provedor ficam como null.
+ */
+export interface MediaInfo {
+  /** URL de download (Z-API, Evolution). A Meta envia apenas o ID da mídia */
+  url: string | null;
+  /** ID da mídia no provedor (Meta: usado para baixar via Graph API) */
+  providerMediaId: string | null;
+  /** Mime type do arquivo. Ex: "image/jpeg" */
+  mimeType: string | null;
+  /** Nome do arquivo (documentos) */
+  fileName: string | null;
+  /** Largura em pixels (imagens, vídeos) */
+  width: number | null;
+  /** Altura em pixels (imagens, vídeos) */
+  height: number | null;
+  /** Legenda enviada junto com a mídia */
+  caption: string | null;
+}
+
+/**
+ * Localização compartilhada.
+ */
+export interface LocationInfo {
+  latitude: number;
+  longitude: number;
+  /** Nome do local */
+  name: string | null;
+  /** Endereço do local */
+  address: string | null;
+}
+
+/**
+ * Cartão de contato compartilhado (vCard).
+ */
+export interface SharedContact {
+  /** Nome de exibição do contato */
+  name: string;
+  /** Telefones do contato (apenas dígitos) */
+  phones: string[];
+}
+
+/**
+ * Reação (emoji) a uma mensagem anterior.
+ */
+export interface ReactionInfo {
+  /** Emoji da reação. Null quando a reação foi removida */
+  emoji: string | null;
+  /** ID externo da mensagem que recebeu a reação */
+  targetExternalId: string;
+}
+
+/**
+ * Conteúdo de mensagem de texto.
  */
-export interface MessageContent {
-  /** Tipo da mensagem */
-  type: MessageType;
+export interface TextMessageContent {
+  type: 'text';
   /** Conteúdo textual da mensagem */
   content: string;
 }
 
 /**
- * Classificação de intenção gerada pelo LLM.
+ * Conteúdo de mensagem de mídia (imagem, áudio, vídeo, documento, figurinha).
+ */
+export interface MediaMessageContent {
+  type: MediaMessageType;
+  /** Legenda da mídia ou placeholder (ex: "[Imagem recebida]") */
+  content: string;
+  media: MediaInfo;
+}
+
+/**
+ * Conteúdo de mensagem de localização.
+ */
+export interface LocationMessageContent {
+  type: 'location';
+  /** Nome/endereço do local ou placeholder */
+  content: string;
+  location: LocationInfo;
+}
+
+/**
+ * Conteúdo de mensagem de cartão de contato.
+ */
+export interface ContactMessageContent {
+  type: 'contact';
+  /** Nomes dos contatos compartilhados */
+  content: string;
+  contacts: SharedContact[];
+}
+
+/**
+ * Conteúdo de mensagem de reação.
+ */
+export interface ReactionMessageContent {
+  type: 'reaction';
+  /** Representação textual da reação */
+  content: string;
+  reaction: ReactionInfo;
+}
+
+/**
+ * Conteúdo da mensagem.
+ * União discriminada pelo campo `type`. Todas as variantes possuem
+ * `content` textual, usado na classificação de intenção.
+ */
+export type MessageContent =
+  | TextMessageContent
+  | MediaMessageContent
+  | LocationMessageContent
+  | ContactMessageContent
+  | ReactionMessageContent;
+
+/**
+ * Origem de uma classificação.
+ * - llm: modelo de linguagem (Claude ou endpoint compatível com OpenAI)
+ * - mock: classificador por palavras-chave
+ * - human: correção manual (PATCH /messages/:id/classification)
+ */
+export type ClassificationSource = 'llm' | 'mock' | 'human';
+
+/**
+ * Nome do classificador gravado nas correções manuais.
+ */
+export const HUMAN_CLASSIFIER = 'human';
+
+/**
+ * Classificação de intenção gerada pelo LLM (ou corrigida manualmente).
  */
 export interface Classification {
   /** Intenção identificada (ex: "interesse_produto", "duvida", "reclamacao") */
   intent: string;
   /** Nível de confiança da classificação (0.0 a 1.0) */
   confidence: number;
+  /** Classificador da cadeia que produziu o resultado (ex: "claude", "keyword", "human") */
+  classifier?: string | undefined;
+  /** Origem da classificação (registrada no histórico; ausente = llm) */
+  source?: ClassificationSource | undefined;
+  /** Modelo usado (ex: "claude-3-haiku-20240307") */
+  model?: string | undefined;
+  /** Versão do prompt usado (CLASSIFICATION_PROMPT_VERSION) */
+  promptVersion?: string | undefined;
 }
 
+/**
+ * Progresso da classificação assíncrona da mensagem.
+ * - pending: aguardando na fila de classificação
+ * - done: classificada
+ * - failed: classificação esgotou as tentativas (dead-letter)
+ * - skipped: não classificada (mensagem enviada pela API de envio)
+ */
+export type ClassificationStatus = 'pending' | 'done' | 'failed' | 'skipped';
+
 /**
  * Formato normalizado de mensagem.
  * Todos os provedores são convertidos para este formato único.
@@ -46,13 +198,20 @@ export interface Classification {
 export interface NormalizedMessage {
   /** UUID gerado internamente */
   id: string;
+  /** ID do tenant (cliente) dono da mensagem */
+  tenantId: string;
   /** ID original da mensagem no provedor */
   externalId: string;
   /** Identificador do provedor de origem */
   provider: Provider;
 
+  /** ID do contato (lead) ao qual a mensagem pertence */
+  contactId: string;
+  /** ID da conversa (contato + provedor) à qual a mensagem pertence */
+  conversationId: string;
+
   /** Informações do contato */
-  contact: Contact;
+  contact: ContactInfo;
   /** Conteúdo da mensagem */
   message: MessageContent;
 
@@ -63,11 +222,26 @@ export interface NormalizedMessage {
   /** Se a mensagem foi enviada por nós (não pelo contato) */
   isFromMe: boolean;
 
+  /** Progresso da classificação assíncrona */
+  classificationStatus: ClassificationStatus;
   /** Classificação de intenção (preenchido após processamento LLM) */
   classification?: Classification;
+  /** Entidades extraídas do conteúdo (e-mail, CPF/CNPJ, CEP, pedido, data, valor) */
+  entities: ExtractedEntity[];
 }
 
 /**
- * Dados para criar uma nova mensagem normalizada (sem id e receivedAt).
+ * Dados para criar uma nova mensagem normalizada (saída dos adapters).
+ * Sem campos gerados internamente (id, vínculos com tenant/contato/conversa, classificação, entidades).
  */
-export type CreateNormalizedMessage = Omit<NormalizedMessage, 'id' | 'receivedAt' | 'classification'>;
+export type CreateNormalizedMessage = Omit<
+  NormalizedMessage,
+  | 'id'
+  | 'tenantId'
+  | 'contactId'
+  | 'conversationId'
+  | 'receivedAt'
+  | 'classificationStatus'
+  | 'classification'
+  | 'entities'
+>;
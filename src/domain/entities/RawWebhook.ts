@@ -0,0 +1,91 @@
+import type { Provider } from './NormalizedMessage.js';
+
+/**
+ * Resultado do processamento de um webhook arquivado.
+ * - received: arquivado, processamento não concluído
+ * - processed: validado, normalizado e persistido
+ * - rejected: tenant não identificado ou assinatura/token inválido
+ * - quarantined: payload não passou na validação do schema (aguarda correção e reprocessamento)
+ * - failed: erro inesperado ao processar (banco, fila, etc)
+ */
+export type RawWebhookStatus = 'received' | 'processed' | 'rejected' | 'quarantined' | 'failed';
+
+/**
+ * Erro registrado no processamento do webhook.
+ */
+export interface RawWebhookError {
+  /** Código do erro (ex: "VALIDATION_ERROR", "INVALID_SIGNATURE") */
+  code: string;
+  message: string;
+  /** Detalhes do erro (ex: issues do Zod), se houver */
+  details: unknown;
+  /**
+   * Caminhos que falharam na validação, com índices de array trocados por "*"
+   * (ex: "entry.*.changes.*.value.messages"). Vazio para outros erros.
+   */
+  paths: string[];
+}
+
+/**
+ * Webhook recebido exatamente como chegou, antes da validação.
+ * Permite diagnosticar mudanças de formato dos provedores e reprocessar
+ * o payload após corrigir o schema do adapter.
+ */
+export interface RawWebhook {
+  /** UUID gerado internamente */
+  id: string;
+  /** Tenant identificado pela conta do provedor (null se não identificado) */
+  tenantId: string | null;
+  provider: Provider;
+  /** Headers recebidos (nomes em minúsculas; credenciais são mascaradas) */
+  headers: Record<string, string | string[]>;
+  /** Corpo JSON recebido */
+  payload: unknown;
+  /** Resultado do último processamento */
+  status: RawWebhookStatus;
+  /** Se a assinatura/token foi verificada com sucesso no recebimento */
+  authenticated: boolean;
+  /** Erro do último processamento (null se processado com sucesso) */
+  error: RawWebhookError | null;
+  /** IDs das mensagens criadas a partir deste webhook */
+  messageIds: string[];
+  /** Quantidade de reprocessamentos */
+  replayCount: number;
+  /** Momento do recebimento */
+  receivedAt: Date;
+  /** Momento do último processamento concluído (com sucesso ou erro) */
+  processedAt: Date | null;
+}
+
+/**
+ * Dados para arquivar um webhook recebido.
+ */
+export type CreateRawWebhook = Pick<RawWebhook, 'tenantId' | 'provider' | 'headers' | 'payload'>;
+
+/**
+ * Resultado de um processamento do webhook arquivado.
+ */
+export interface RawWebhookOutcome {
+  status: Exclude<RawWebhookStatus, 'received'>;
+  /** Informado apenas no recebimento (reprocessamentos não verificam assinatura) */
+  authenticated?: boolean | undefined;
+  error: RawWebhookError | null;
+}
+
+/**
+ * Agrupamento dos webhooks em quarentena por provedor e caminho que falhou.
+ */
+export interface QuarantineGroup {
+  provider: Provider;
+  /** Caminho do schema que falhou (ex: "senderPhoto") */
+  path: string;
+  /** Webhooks em quarentena com falha neste caminho */
+  count: number;
+  /**
+   * Destes, recebidos de provedores sem verificação de assinatura (authenticated = false).
+   * Só são reprocessados quando o retry os inclui explicitamente.
+   */
+  unauthenticated: number;
+  /** Recebimento mais recente com esta falha */
+  lastReceivedAt: Date;
+}
@@ -0,0 +1,77 @@
+import type { Provider } from './NormalizedMessage.js';
+
+/**
+ * Tenant (cliente/workspace) atendido pelo sistema.
+ * Mensagens, contatos e conversas pertencem a um único tenant.
+ */
+export interface Tenant {
+  /** UUID gerado internamente */
+  id: string;
+  /** Identificador usado nas URLs (ex: "acme" em /webhook/acme/zapi) */
+  slug: string;
+  /** Nome de exibição */
+  name: string;
+  /** Tenants inativos não recebem webhooks nem acessam a API */
+  active: boolean;
+  /** Momento da criação do registro */
+  createdAt: Date;
+}
+
+/**
+ * Dados para criar um tenant.
+ */
+export type CreateTenant = Pick<Tenant, 'slug' | 'name' | 'active'>;
+
+/**
+ * Dados para alterar um tenant.
+ */
+export type UpdateTenant = Partial<Pick<Tenant, 'name' | 'active'>>;
+
+/**
+ * Credenciais de uma conta no provedor. Cada provedor usa um subconjunto:
+ * - zapi: token (envio) e clientToken (header Client-Token de webhooks e envio)
+ * - meta: appSecret (X-Hub-Signature-256), accessToken (envio) e verifyToken (challenge)
+ * - evolution: sem credenciais
+ * - configuráveis: clientToken (header do mapeamento)
+ * Em qualquer provedor com handshake, verifyToken é comparado com o token da verificação.
+ */
+export interface ProviderCredentials {
+  token?: string | undefined;
+  clientToken?: string | undefined;
+  appSecret?: string | undefined;
+  accessToken?: string | undefined;
+  verifyToken?: string | undefined;
+}
+
+/**
+ * Conta de um tenant em um provedor (instância Z-API, número Meta, instância Evolution).
+ * Identifica o tenant dos webhooks e fornece as credenciais de verificação e envio.
+ */
+export interface ProviderAccount {
+  /** UUID gerado internamente */
+  id: string;
+  tenantId: string;
+  provider: Provider;
+  /**
+   * ID da conta no provedor, como aparece nos webhooks:
+   * `instanceId` (Z-API), `metadata.phone_number_id` (Meta) ou `instance` (Evolution).
+   * Único por provedor.
+   */
+  accountId: string;
+  credentials: ProviderCredentials;
+  /** Momento da criação do registro */
+  createdAt: Date;
+}
+
+/**
+ * Dados para cadastrar uma conta de provedor.
+ */
+export type CreateProviderAccount = Pick<ProviderAccount, 'provider' | 'accountId' | 'credentials'>;
+
+/**
+ * Tenant e conta identificados para um webhook.
+ */
+export interface ResolvedTenant {
+  tenant: Tenant;
+  account: ProviderAccount;
+}
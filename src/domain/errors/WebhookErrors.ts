@@ -41,6 +41,108 @@ export class WebhookValidationError extends WebhookError {
   }
 }
 
+/**
+ * Assinatura/token do webhook ausente ou inválido.
+ * Impede que terceiros que conheçam a URL criem mensagens.
+ * HTTP 401 - Unauthorized
+ */
+export class WebhookSignatureError extends WebhookError {
+  readonly statusCode = 401;
+  readonly code = 'INVALID_SIGNATURE';
+
+  constructor(
+    public readonly provider: string,
+    public readonly reason: string
+  ) {
+    super(`Assinatura inválida do provedor ${provider}: ${reason}`);
+  }
+}
+
+/**
+ * Verificação (handshake) do webhook recusada: requisição malformada ou
+ * token que não confere com nenhuma conta cadastrada.
+ * HTTP 403 - Forbidden
+ */
+export class WebhookVerificationError extends WebhookError {
+  readonly statusCode = 403;
+  readonly code = 'VERIFICATION_FAILED';
+
+  constructor(
+    public readonly provider: string,
+    public readonly reason: string
+  ) {
+    super(`Verificação do webhook ${provider} recusada: ${reason}`);
+  }
+}
+
+/**
+ * Provedor sem verificação (handshake) de webhook.
+ * HTTP 404 - Not Found
+ */
+export class VerificationNotSupportedError extends WebhookError {
+  readonly statusCode = 404;
+  readonly code = 'VERIFICATION_NOT_SUPPORTED';
+
+  constructor(public readonly provider: string) {
+    super(`Provedor ${provider} não possui verificação de webhook`);
+  }
+}
+
+/**
+ * Parâmetros da requisição (query/body) inválidos nas rotas da API.
+ * HTTP 400 - Bad Request
+ */
+export class InvalidRequestError extends WebhookError {
+  readonly statusCode = 400;
+  readonly code = 'INVALID_REQUEST';
+
+  constructor(public readonly zodError: ZodError) {
+    super('Parâmetros da requisição inválidos');
+  }
+
+  /**
+   * Retorna os detalhes do erro de validação formatados.
+   */
+  getDetails(): Array<{ path: string; message: string }> {
+    return this.zodError.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+  }
+}
+
+/**
+ * Recurso solicitado não existe.
+ * HTTP 404 - Not Found
+ */
+export class ResourceNotFoundError extends WebhookError {
+  readonly statusCode = 404;
+  readonly code = 'NOT_FOUND';
+
+  constructor(
+    public readonly resource: string,
+    public readonly id: string
+  ) {
+    super(`${resource} não encontrado(a): ${id}`);
+  }
+}
+
+/**
+ * Recurso já existe (ex: chave duplicada).
+ * HTTP 409 - Conflict
+ */
+export class ResourceConflictError extends WebhookError {
+  readonly statusCode = 409;
+  readonly code = 'CONFLICT';
+
+  constructor(
+    public readonly resource: string,
+    public readonly id: string
+  ) {
+    super(`${resource} já existe: ${id}`);
+  }
+}
+
 /**
  * Não foi possível identificar o provedor pelo payload/rota.
  * HTTP 400 - Bad Request
@@ -58,6 +160,37 @@ export class UnknownProviderError extends WebhookError {
   }
 }
 
+/**
+ * Mais de um adapter reconhece o payload; o provedor não pode ser detectado
+ * com segurança. Use a rota específica do provedor.
+ * HTTP 400 - Bad Request
+ */
+export class AmbiguousProviderError extends WebhookError {
+  readonly statusCode = 400;
+  readonly code = 'AMBIGUOUS_PROVIDER';
+
+  constructor(public readonly candidates: string[]) {
+    super(`Payload reconhecido por mais de um provedor: ${candidates.join(', ')}`);
+  }
+}
+
+/**
+ * Não foi possível identificar o tenant do webhook: conta do provedor
+ * não cadastrada, ausente no payload, de outro tenant ou tenant inativo.
+ * HTTP 404 - Not Found
+ */
+export class TenantNotResolvedError extends WebhookError {
+  readonly statusCode = 404;
+  readonly code = 'TENANT_NOT_RESOLVED';
+
+  constructor(
+    public readonly provider: string,
+    reason: string
+  ) {
+    super(`Tenant não identificado para o webhook ${provider}: ${reason}`);
+  }
+}
+
 /**
  * Provedor identificado, mas não há adapter registrado para ele.
  * HTTP 501 - Not Implemented
@@ -71,6 +204,60 @@ export class AdapterNotFoundError extends WebhookError {
   }
 }
 
+/**
+ * Provedor sem envio de mensagens (sem suporte ou tenant sem conta no provedor).
+ * HTTP 501 - Not Implemented
+ */
+export class SenderNotConfiguredError extends WebhookError {
+  readonly statusCode = 501;
+  readonly code = 'SENDER_NOT_CONFIGURED';
+
+  constructor(public readonly provider: string) {
+    super(`Envio de mensagens não configurado para provedor: ${provider}`);
+  }
+}
+
+/**
+ * O provedor recusou o envio ou respondeu de forma inesperada.
+ * HTTP 502 - Bad Gateway
+ */
+export class MessageSendError extends WebhookError {
+  readonly statusCode = 502;
+  readonly code = 'SEND_FAILED';
+
+  constructor(
+    public readonly provider: string,
+    reason: string,
+    public readonly providerStatus?: number,
+    public readonly providerResponse?: unknown
+  ) {
+    super(`Falha ao enviar mensagem pelo provedor ${provider}: ${reason}`);
+  }
+
+  /**
+   * Retorna a resposta do provedor para diagnóstico.
+   */
+  getDetails(): { status: number | undefined; response: unknown } {
+    return { status: this.providerStatus, response: this.providerResponse };
+  }
+}
+
+/**
+ * Webhook arquivado não pode ser reprocessado (ex: assinatura não verificada).
+ * HTTP 409 - Conflict
+ */
+export class WebhookReplayError extends WebhookError {
+  readonly statusCode = 409;
+  readonly code = 'REPLAY_NOT_ALLOWED';
+
+  constructor(
+    public readonly webhookId: string,
+    public readonly reason: string
+  ) {
+    super(`Webhook ${webhookId} não pode ser reprocessado: ${reason}`);
+  }
+}
+
 /**
  * Erro durante o processamento do webhook (banco, LLM, etc).
  * HTTP 500 - Internal Server Error
@@ -0,0 +1,117 @@
+import type { AdapterRegistry } from '../../adapters/registry/AdapterRegistry.js';
+import type { AdapterMappingRepository } from '../../usecases/interfaces/AdapterMappingRepository.js';
+import { ConfigurableAdapter } from '../../adapters/configurable/ConfigurableAdapter.js';
+
+/**
+ * Configuração da sincronização dos adapters configuráveis.
+ */
+export interface AdapterMappingSyncConfig {
+  /** Intervalo entre releituras dos mapeamentos (ms). Limita a defasagem entre instâncias */
+  refreshIntervalMs: number;
+}
+
+/**
+ * Mantém o AdapterRegistry em sincronia com os mapeamentos cadastrados.
+ *
+ * Responsabilidades:
+ * - Registrar um ConfigurableAdapter por mapeamento ativo
+ * - Recriar o adapter quando o mapeamento é alterado
+ * - Remover o adapter de mapeamentos desativados ou removidos
+ * - Nunca substituir os adapters nativos (Z-API, Meta, Evolution)
+ *
+ * Alterações pela API administrativa sincronizam a instância local;
+ * outras instâncias enxergam a mudança na próxima releitura.
+ */
+export class AdapterMappingSync {
+  /** Provedores registrados por esta sincronização → updatedAt do mapeamento (ms) */
+  private readonly registered = new Map<string, number>();
+  private syncing: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly adapterRegistry: AdapterRegistry,
+    private readonly adapterMappingRepository: AdapterMappingRepository,
+    private readonly config: AdapterMappingSyncConfig
+  ) {}
+
+  /**
+   * Inicia a releitura periódica dos mapeamentos.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sync().catch((error: unknown) => {
+        console.error('[AdapterMappingSync] Falha ao sincronizar mapeamentos:', error);
+      });
+    }, this.config.refreshIntervalMs);
+  }
+
+  /**
+   * Para a releitura periódica.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Relê os mapeamentos ativos e atualiza o registry.
+   * Chamadas concorrentes são executadas em sequência.
+   */
+  sync(): Promise<void> {
+    const next = this.syncing.then(() => this.apply());
+    // Uma falha não impede as próximas sincronizações
+    this.syncing = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Verifica se o provedor pertence a um adapter nativo
+   * (não pode ser usado por um mapeamento).
+   */
+  isBuiltIn(provider: string): boolean {
+    return this.adapterRegistry.hasAdapter(provider) && !this.registered.has(provider);
+  }
+
+  /**
+   * Aplica ao registry o estado atual dos mapeamentos.
+   */
+  private async apply(): Promise<void> {
+    const mappings = await this.adapterMappingRepository.findActive();
+    const active = new Set(mappings.map((mapping) => mapping.provider));
+
+    for (const provider of this.registered.keys()) {
+      if (!active.has(provider)) {
+        this.adapterRegistry.unregister(provider);
+        this.registered.delete(provider);
+      }
+    }
+
+    for (const mapping of mappings) {
+      const version = mapping.updatedAt.getTime();
+
+      if (this.registered.get(mapping.provider) === version) {
+        continue;
+      }
+
+      if (this.isBuiltIn(mapping.provider)) {
+        console.warn(
+          `[AdapterMappingSync] Mapeamento ignorado: ${mapping.provider} é um provedor nativo`
+        );
+        continue;
+      }
+
+      try {
+        this.adapterRegistry.register(new ConfigurableAdapter(mapping));
+        this.registered.set(mapping.provider, version);
+      } catch (error) {
+        console.error(`[AdapterMappingSync] Mapeamento inválido (${mapping.provider}):`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import { createHash } from 'node:crypto';
+import type {
+  ClassificationService,
+  ClassificationContext,
+  ServiceCallOptions,
+} from '../../usecases/interfaces/ClassificationService.js';
+import type {
+  ClassificationCache,
+  ClassificationCacheStats,
+} from '../../usecases/interfaces/ClassificationCache.js';
+import type { ClassificationCacheRepository } from '../../usecases/interfaces/ClassificationCacheRepository.js';
+import type { IntentCatalog } from '../../usecases/interfaces/IntentCatalog.js';
+import type { Classification } from '../../domain/entities/NormalizedMessage.js';
+
+/**
+ * Tamanho máximo do conteúdo normalizado guardado no cache.
+ * Mensagens longas raramente se repetem e só ocupariam espaço.
+ */
+const MAX_CACHEABLE_LENGTH = 280;
+
+/**
+ * Configuração do cache de classificações.
+ */
+export interface CachedClassificationServiceConfig {
+  /** Tempo de vida de cada entrada (ms). 0 desativa o cache */
+  ttlMs: number;
+  /** Versão do prompt de classificação (CLASSIFICATION_PROMPT_VERSION) */
+  promptVersion: string;
+  /**
+   * Classificador principal da cadeia. Resultados de outros classificadores
+   * (fallback) não são guardados. Ausente: guarda qualquer resultado.
+   */
+  primaryClassifier?: string | undefined;
+}
+
+/**
+ * ClassificationService com cache sobre outro classificador.
+ *
+ * Responsabilidades:
+ * - Servir do cache mensagens sem contexto com o mesmo conteúdo normalizado
+ *   (minúsculas, sem acentos e espaços extras). Ex: "Oi", " oi " e "OI"
+ * - Compartilhar uma única chamada entre classificações simultâneas do mesmo conteúdo
+ * - Invalidar o cache quando o prompt, o classificador principal ou o catálogo de intenções mudam
+ * - Contar acertos e faltas
+ *
+ * Mensagens com histórico não usam o cache: a mesma frase pode ter outra intenção em outro contexto.
+ * Falhas do cache são registradas e não impedem a classificação.
+ */
+export class CachedClassificationService implements ClassificationService, ClassificationCache {
+  private readonly inFlight = new Map<string, Promise<Classification>>();
+  /** Última versão vista: ao mudar, as entradas antigas são removidas */
+  private currentVersion: string | null = null;
+  private hits = 0;
+  private misses = 0;
+  private deduplicated = 0;
+  private bypassed = 0;
+
+  constructor(
+    private readonly classifier: ClassificationService,
+    private readonly repository: ClassificationCacheRepository,
+    private readonly intentCatalog: IntentCatalog,
+    private readonly config: CachedClassificationServiceConfig
+  ) {}
+
+  /**
+   * Classifica usando o cache quando possível.
+   *
+   * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
+   * @param options - Opções da chamada. O sinal só é repassado fora do cache: a chamada
+   *   compartilhada entre classificações simultâneas não é cancelada por uma delas
+   * @returns Classificação do cache ou do classificador
+   * @throws ProcessingError se o classificador falhar
+   */
+  async classify(
+    content: string,
+    context?: ClassificationContext,
+    options?: ServiceCallOptions
+  ): Promise<Classification> {
+    const normalized = normalizeContent(content);
+
+    if (!this.isCacheable(normalized, context)) {
+      this.bypassed++;
+      return this.classifier.classify(content, context, options);
+    }
+
+    const version = await this.resolveVersion();
+    const contentHash = hashContent(normalized);
+    const key = `${version}:${contentHash}`;
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.deduplicated++;
+      return pending;
+    }
+
+    const lookup = this.lookup(content, normalized, contentHash, version).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, lookup);
+
+    return lookup;
+  }
+
+  /**
+   * Retorna as estatísticas do cache.
+   */
+  async getStats(): Promise<ClassificationCacheStats> {
+    const version = await this.resolveVersion();
+    const summary = await this.repository.summarize(version, new Date());
+    const lookups = this.hits + this.misses;
+
+    return {
+      version,
+      hits: this.hits,
+      misses: this.misses,
+      deduplicated: this.deduplicated,
+      bypassed: this.bypassed,
+      hitRate: lookups > 0 ? this.hits / lookups : null,
+      entries: summary.entries,
+      storedHits: summary.hits,
+    };
+  }
+
+  /**
+   * Remove todas as entradas.
+   */
+  async clear(): Promise<number> {
+    return this.repository.clear();
+  }
+
+  /**
+   * Busca no cache e, se não houver entrada válida, classifica e guarda o resultado.
+   * O classificador recebe o conteúdo original (acentos e caixa ajudam a identificar a intenção).
+   */
+  private async lookup(
+    content: string,
+    normalized: string,
+    contentHash: string,
+    version: string
+  ): Promise<Classification> {
+    const cached = await this.repository.find(contentHash, version, new Date()).catch((error: unknown) => {
+      this.warn('Falha ao ler o cache', error);
+      return null;
+    });
+
+    if (cached) {
+      this.hits++;
+      return cached;
+    }
+
+    this.misses++;
+    const classification = await this.classifier.classify(content);
+
+    if (this.shouldStore(classification)) {
+      await this.repository
+        .save({
+          contentHash,
+          version,
+          content: normalized,
+          classification,
+          expiresAt: new Date(Date.now() + this.config.ttlMs),
+        })
+        .catch((error: unknown) => this.warn('Falha ao salvar no cache', error));
+    }
+
+    return classification;
+  }
+
+  /**
+   * Apenas conteúdo curto, sem histórico, com o cache ativo.
+   */
+  private isCacheable(normalized: string, context: ClassificationContext | undefined): boolean {
+    return (
+      this.config.ttlMs > 0 &&
+      (context?.history.length ?? 0) === 0 &&
+      normalized.length > 0 &&
+      normalized.length <= MAX_CACHEABLE_LENGTH
+    );
+  }
+
+  /**
+   * Resultados de fallback não são guardados: o classificador principal volta a ser usado assim que se recuperar.
+   */
+  private shouldStore(classification: Classification): boolean {
+    return (
+      this.config.primaryClassifier === undefined ||
+      classification.classifier === this.config.primaryClassifier
+    );
+  }
+
+  /**
+   * Calcula a versão atual do cache e remove as entradas antigas quando ela muda.
+   */
+  private async resolveVersion(): Promise<string> {
+    const intents = await this.intentCatalog.getActive();
+    const fingerprint = JSON.stringify({
+      prompt: this.config.promptVersion,
+      classifier: this.config.primaryClassifier ?? null,
+      intents: intents
+        .map(({ key, description, examples }) => ({ key, description, examples }))
+        .sort((left, right) => left.key.localeCompare(right.key)),
+    });
+    const version = createHash('sha256').update(fingerprint).digest('hex').slice(0, 16);
+
+    if (version !== this.currentVersion) {
+      this.currentVersion = version;
+      await this.repository
+        .deleteStale(version, new Date())
+        .then((removed) => {
+          if (removed > 0) {
+            console.log(`[ClassificationCache] ${removed} entradas antigas removidas (versão ${version})`);
+          }
+        })
+        .catch((error: unknown) => this.warn('Falha ao remover entradas antigas', error));
+    }
+
+    return version;
+  }
+
+  private warn(message: string, error: unknown): void {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`[ClassificationCache] ${message}: ${reason}`);
+  }
+}
+
+/**
+ * Normaliza o conteúdo para a chave do cache: minúsculas, sem acentos,
+ * sem espaços nas pontas e com espaços internos simples.
+ */
+function normalizeContent(content: string): string {
+  return content
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hash do conteúdo normalizado (chave de busca no banco).
+ */
+function hashContent(normalized: string): string {
+  return createHash('sha256').update(normalized).digest('hex');
+}
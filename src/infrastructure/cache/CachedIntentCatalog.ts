@@ -0,0 +1,92 @@
+import type { IntentCatalog } from '../../usecases/interfaces/IntentCatalog.js';
+import type { IntentRepository } from '../../usecases/interfaces/IntentRepository.js';
+import {
+  FALLBACK_INTENT,
+  FALLBACK_INTENT_KEY,
+  type IntentDefinition,
+} from '../../domain/entities/Intent.js';
+
+/**
+ * Configuração do cache do catálogo de intenções.
+ */
+export interface CachedIntentCatalogConfig {
+  /** Tempo de vida do cache (ms). Limita a defasagem entre instâncias */
+  ttlMs: number;
+}
+
+/**
+ * Catálogo de intenções com cache em memória sobre o IntentRepository.
+ *
+ * Responsabilidades:
+ * - Evitar uma consulta ao banco por classificação
+ * - Garantir a presença da intenção de fallback
+ * - Compartilhar uma única consulta entre chamadas concorrentes
+ *
+ * Alterações pela API administrativa invalidam o cache local;
+ * outras instâncias enxergam a mudança ao expirar o TTL.
+ */
+export class CachedIntentCatalog implements IntentCatalog {
+  private cached: { intents: IntentDefinition[]; expiresAt: number } | null = null;
+  private loading: Promise<IntentDefinition[]> | null = null;
+  /** Incrementado a cada invalidação, para descartar leituras em andamento */
+  private version = 0;
+
+  constructor(
+    private readonly intentRepository: IntentRepository,
+    private readonly config: CachedIntentCatalogConfig
+  ) {}
+
+  /**
+   * Retorna as intenções ativas (do cache, se válido).
+   */
+  async getActive(): Promise<IntentDefinition[]> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      return this.cached.intents;
+    }
+
+    if (!this.loading) {
+      const loading = this.load().finally(() => {
+        if (this.loading === loading) {
+          this.loading = null;
+        }
+      });
+      this.loading = loading;
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Descarta o cache.
+   */
+  invalidate(): void {
+    this.cached = null;
+    this.loading = null;
+    this.version++;
+  }
+
+  /**
+   * Lê as intenções ativas do banco e atualiza o cache.
+   */
+  private async load(): Promise<IntentDefinition[]> {
+    const version = this.version;
+    const active = await this.intentRepository.findActive();
+
+    const intents: IntentDefinition[] = active.map(({ key, description, examples }) => ({
+      key,
+      description,
+      examples,
+    }));
+
+    if (!intents.some((intent) => intent.key === FALLBACK_INTENT_KEY)) {
+      const { key, description, examples } = FALLBACK_INTENT;
+      intents.push({ key, description, examples });
+    }
+
+    // Catálogo alterado durante a leitura: não guarda o resultado defasado
+    if (version === this.version) {
+      this.cached = { intents, expiresAt: Date.now() + this.config.ttlMs };
+    }
+    return intents;
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  PrismaClient,
+  Prisma,
+  type AdapterMapping as AdapterMappingRecord,
+} from '@prisma/client';
+import type { AdapterMappingRepository } from '../../../usecases/interfaces/AdapterMappingRepository.js';
+import type {
+  AdapterMapping,
+  AdapterMappingDefinition,
+  CreateAdapterMapping,
+  UpdateAdapterMapping,
+} from '../../../domain/entities/AdapterMapping.js';
+import {
+  ProcessingError,
+  ResourceConflictError,
+  ResourceNotFoundError,
+} from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Códigos de erro do Prisma tratados pelo repositório.
+ * - P2002: violação de unique constraint
+ * - P2025: registro não encontrado
+ */
+const UNIQUE_VIOLATION = 'P2002';
+const RECORD_NOT_FOUND = 'P2025';
+
+/**
+ * Implementação do AdapterMappingRepository usando Prisma.
+ *
+ * Responsabilidades:
+ * - CRUD dos mapeamentos dos adapters configuráveis
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class PrismaAdapterMappingRepository implements AdapterMappingRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Lista todos os mapeamentos, ordenados pelo provedor.
+   */
+  async findAll(): Promise<AdapterMapping[]> {
+    const records = await this.prisma.adapterMapping.findMany({
+      orderBy: { provider: 'asc' },
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Lista os mapeamentos ativos, ordenados pelo provedor.
+   */
+  async findActive(): Promise<AdapterMapping[]> {
+    const records = await this.prisma.adapterMapping.findMany({
+      where: { active: true },
+      orderBy: { provider: 'asc' },
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Busca um mapeamento pelo provedor.
+   */
+  async findByProvider(provider: string): Promise<AdapterMapping | null> {
+    const record = await this.prisma.adapterMapping.findUnique({
+      where: { provider },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return this.mapToEntity(record);
+  }
+
+  /**
+   * Cadastra um mapeamento.
+   * @throws ResourceConflictError se o provedor já tiver mapeamento
+   */
+  async create(data: CreateAdapterMapping): Promise<AdapterMapping> {
+    try {
+      const record = await this.prisma.adapterMapping.create({
+        data: { ...data, definition: this.toJson(data.definition) },
+      });
+      return this.mapToEntity(record);
+    } catch (error) {
+      if (this.isPrismaError(error, UNIQUE_VIOLATION)) {
+        throw new ResourceConflictError('Mapeamento', data.provider);
+      }
+      throw this.toProcessingError('create_adapter_mapping', error);
+    }
+  }
+
+  /**
+   * Altera um mapeamento existente.
+   * @throws ResourceNotFoundError se o provedor não tiver mapeamento
+   */
+  async update(provider: string, data: UpdateAdapterMapping): Promise<AdapterMapping> {
+    try {
+      const record = await this.prisma.adapterMapping.update({
+        where: { provider },
+        data: {
+          ...(data.name !== undefined ? { name: data.name } : {}),
+          ...(data.active !== undefined ? { active: data.active } : {}),
+          ...(data.definition !== undefined ? { definition: this.toJson(data.definition) } : {}),
+        },
+      });
+      return this.mapToEntity(record);
+    } catch (error) {
+      if (this.isPrismaError(error, RECORD_NOT_FOUND)) {
+        throw new ResourceNotFoundError('Mapeamento', provider);
+      }
+      throw this.toProcessingError('update_adapter_mapping', error);
+    }
+  }
+
+  /**
+   * Remove um mapeamento.
+   * Mensagens já recebidas do provedor são mantidas.
+   * @throws ResourceNotFoundError se o provedor não tiver mapeamento
+   */
+  async delete(provider: string): Promise<void> {
+    try {
+      await this.prisma.adapterMapping.delete({ where: { provider } });
+    } catch (error) {
+      if (this.isPrismaError(error, RECORD_NOT_FOUND)) {
+        throw new ResourceNotFoundError('Mapeamento', provider);
+      }
+      throw this.toProcessingError('delete_adapter_mapping', error);
+    }
+  }
+
+  /**
+   * Verifica se o erro é um erro conhecido do Prisma com o código informado.
+   */
+  private isPrismaError(error: unknown, code: string): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === code;
+  }
+
+  /**
+   * Encapsula erros inesperados em ProcessingError.
+   */
+  private toProcessingError(step: string, error: unknown): ProcessingError {
+    if (error instanceof Error) {
+      return new ProcessingError(step, error);
+    }
+    return new ProcessingError(step, new Error('Unknown error'));
+  }
+
+  /**
+   * Converte o documento de mapeamento para o tipo JSON aceito pelo Prisma.
+   */
+  private toJson(definition: AdapterMappingDefinition): Prisma.InputJsonValue {
+    return definition as unknown as Prisma.InputJsonValue;
+  }
+
+  /**
+   * Mapeia o registro do Prisma para a entidade de domínio.
+   * O documento foi validado na escrita (API administrativa).
+   */
+  private mapToEntity(record: AdapterMappingRecord): AdapterMapping {
+    return {
+      id: record.id,
+      provider: record.provider,
+      name: record.name,
+      active: record.active,
+      definition: record.definition as unknown as AdapterMappingDefinition,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,191 @@
+import { PrismaClient, Prisma, type AutomationRule as AutomationRuleRecord } from '@prisma/client';
+import type { AutomationRuleRepository } from '../../../usecases/interfaces/AutomationRuleRepository.js';
+import type {
+  AutomationRule,
+  CreateAutomationRule,
+  UpdateAutomationRule,
+  RuleConditions,
+  RuleAction,
+} from '../../../domain/entities/AutomationRule.js';
+import type { Provider } from '../../../domain/entities/NormalizedMessage.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Códigos de erro do Prisma tratados pelo repositório.
+ * - P2025: registro não encontrado
+ * - P2003: violação de foreign key (tenant inexistente)
+ */
+const RECORD_NOT_FOUND = 'P2025';
+const FOREIGN_KEY_VIOLATION = 'P2003';
+
+/**
+ * Ordem de avaliação das regras.
+ */
+const RULE_ORDER: Prisma.AutomationRuleOrderByWithRelationInput[] = [
+  { priority: 'asc' },
+  { createdAt: 'asc' },
+];
+
+/**
+ * Implementação do AutomationRuleRepository usando Prisma.
+ *
+ * As condições ficam em colunas próprias (filtráveis);
+ * as ações ficam em uma coluna JSON, validada na API administrativa.
+ */
+export class PrismaAutomationRuleRepository implements AutomationRuleRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Lista todas as regras, na ordem de avaliação.
+   */
+  async findAll(): Promise<AutomationRule[]> {
+    const records = await this.prisma.automationRule.findMany({
+      orderBy: RULE_ORDER,
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Lista as regras ativas do tenant e as globais, na ordem de avaliação.
+   */
+  async findActive(tenantId: string): Promise<AutomationRule[]> {
+    const records = await this.prisma.automationRule.findMany({
+      where: { active: true, OR: [{ tenantId }, { tenantId: null }] },
+      orderBy: RULE_ORDER,
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Busca uma regra pelo ID.
+   */
+  async findById(id: string): Promise<AutomationRule | null> {
+    const record = await this.prisma.automationRule.findUnique({
+      where: { id },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return this.mapToEntity(record);
+  }
+
+  /**
+   * Cria uma regra.
+   */
+  async create(data: CreateAutomationRule): Promise<AutomationRule> {
+    try {
+      const record = await this.prisma.automationRule.create({
+        data: {
+          tenantId: data.tenantId,
+          name: data.name,
+          active: data.active,
+          priority: data.priority,
+          ...this.mapConditionsToData(data.conditions),
+          actions: this.toJson(data.actions),
+        },
+      });
+
+      return this.mapToEntity(record);
+    } catch (error) {
+      if (
+        data.tenantId &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === FOREIGN_KEY_VIOLATION
+      ) {
+        throw new ResourceNotFoundError('Tenant', data.tenantId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Altera uma regra existente.
+   * @throws ResourceNotFoundError se a regra não existir
+   */
+  async update(id: string, data: UpdateAutomationRule): Promise<AutomationRule> {
+    try {
+      const record = await this.prisma.automationRule.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined ? { name: data.name } : {}),
+          ...(data.active !== undefined ? { active: data.active } : {}),
+          ...(data.priority !== undefined ? { priority: data.priority } : {}),
+          ...(data.conditions !== undefined ? this.mapConditionsToData(data.conditions) : {}),
+          ...(data.actions !== undefined ? { actions: this.toJson(data.actions) } : {}),
+        },
+      });
+
+      return this.mapToEntity(record);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === RECORD_NOT_FOUND) {
+        throw new ResourceNotFoundError('Regra', id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove uma regra (execuções são removidas em cascata).
+   * @throws ResourceNotFoundError se a regra não existir
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await this.prisma.automationRule.delete({ where: { id } });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === RECORD_NOT_FOUND) {
+        throw new ResourceNotFoundError('Regra', id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mapeia as condições para as colunas da tabela.
+   */
+  private mapConditionsToData(conditions: RuleConditions) {
+    return {
+      intents: conditions.intents,
+      minConfidence: conditions.minConfidence,
+      providers: conditions.providers,
+      startHour: conditions.startHour,
+      endHour: conditions.endHour,
+      contactIsNew: conditions.contactIsNew,
+    };
+  }
+
+  /**
+   * Converte as ações para o tipo JSON aceito pelo Prisma.
+   */
+  private toJson(actions: RuleAction[]): Prisma.InputJsonValue {
+    return actions as unknown as Prisma.InputJsonValue;
+  }
+
+  /**
+   * Mapeia o registro do Prisma para a entidade de domínio.
+   * As ações foram validadas na escrita (API administrativa).
+   */
+  private mapToEntity(record: AutomationRuleRecord): AutomationRule {
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      name: record.name,
+      active: record.active,
+      priority: record.priority,
+      conditions: {
+        intents: record.intents,
+        minConfidence: record.minConfidence,
+        providers: record.providers as Provider[],
+        startHour: record.startHour,
+        endHour: record.endHour,
+        contactIsNew: record.contactIsNew,
+      },
+      actions: record.actions as unknown as RuleAction[],
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { PrismaClient } from '@prisma/client';
+import type {
+  ClassificationCacheEntry,
+  ClassificationCacheRepository,
+  ClassificationCacheSummary,
+} from '../../../usecases/interfaces/ClassificationCacheRepository.js';
+import type { Classification, ClassificationSource } from '../../../domain/entities/NormalizedMessage.js';
+import { ProcessingError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Implementação do ClassificationCacheRepository usando Prisma.
+ *
+ * O cache fica no PostgreSQL para sobreviver a reinícios e ser compartilhado
+ * entre instâncias. Entradas são únicas por (contentHash, version).
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class PrismaClassificationCacheRepository implements ClassificationCacheRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Busca a classificação válida e incrementa o contador de acertos da entrada.
+   */
+  async find(contentHash: string, version: string, now: Date): Promise<Classification | null> {
+    try {
+      const record = await this.prisma.classificationCacheEntry.findFirst({
+        where: { contentHash, version, expiresAt: { gt: now } },
+      });
+
+      if (!record) {
+        return null;
+      }
+
+      await this.prisma.classificationCacheEntry.update({
+        where: { id: record.id },
+        data: { hits: { increment: 1 } },
+      });
+
+      return {
+        intent: record.intent,
+        confidence: record.confidence,
+        ...(record.classifier ? { classifier: record.classifier } : {}),
+        ...(record.source ? { source: record.source as ClassificationSource } : {}),
+        ...(record.model ? { model: record.model } : {}),
+        ...(record.promptVersion ? { promptVersion: record.promptVersion } : {}),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('find_cached_classification', error);
+      }
+      throw new ProcessingError('find_cached_classification', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Salva a classificação. Uma entrada expirada da mesma versão é substituída
+   * (e tem os acertos zerados).
+   */
+  async save(entry: ClassificationCacheEntry): Promise<void> {
+    const data = {
+      content: entry.content,
+      intent: entry.classification.intent,
+      confidence: entry.classification.confidence,
+      classifier: entry.classification.classifier ?? null,
+      source: entry.classification.source ?? null,
+      model: entry.classification.model ?? null,
+      promptVersion: entry.classification.promptVersion ?? null,
+      expiresAt: entry.expiresAt,
+    };
+
+    try {
+      await this.prisma.classificationCacheEntry.upsert({
+        where: { contentHash_version: { contentHash: entry.contentHash, version: entry.version } },
+        create: { contentHash: entry.contentHash, version: entry.version, ...data },
+        update: { ...data, hits: 0 },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('save_cached_classification', error);
+      }
+      throw new ProcessingError('save_cached_classification', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Remove as entradas expiradas e as de outras versões.
+   */
+  async deleteStale(version: string, now: Date): Promise<number> {
+    try {
+      const result = await this.prisma.classificationCacheEntry.deleteMany({
+        where: { OR: [{ version: { not: version } }, { expiresAt: { lte: now } }] },
+      });
+      return result.count;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('delete_stale_cached_classifications', error);
+      }
+      throw new ProcessingError('delete_stale_cached_classifications', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Remove todas as entradas.
+   */
+  async clear(): Promise<number> {
+    try {
+      const result = await this.prisma.classificationCacheEntry.deleteMany({});
+      return result.count;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('clear_cached_classifications', error);
+      }
+      throw new ProcessingError('clear_cached_classifications', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Conta as entradas válidas da versão e soma os seus acertos.
+   */
+  async summarize(version: string, now: Date): Promise<ClassificationCacheSummary> {
+    const result = await this.prisma.classificationCacheEntry.aggregate({
+      where: { version, expiresAt: { gt: now } },
+      _count: { _all: true },
+      _sum: { hits: true },
+    });
+
+    return {
+      entries: result._count._all,
+      hits: result._sum.hits ?? 0,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { PrismaClient, type ClassificationJob as ClassificationJobRecord } from '@prisma/client';
+import type { ClassificationQueue } from '../../../usecases/interfaces/ClassificationQueue.js';
+import type {
+  ClassificationJob,
+  ClassificationJobStatus,
+} from '../../../domain/entities/ClassificationJob.js';
+import { ProcessingError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Configuração da fila de classificação.
+ */
+export interface PrismaClassificationQueueConfig {
+  /** Máximo de tentativas de cada job antes do dead-letter */
+  maxAttempts: number;
+  /**
+   * Tempo após o qual um job "processing" é considerado abandonado
+   * (ex: processo reiniciado no meio da execução) e volta a ser elegível.
+   */
+  lockTimeoutMs: number;
+}
+
+/**
+ * Implementação da ClassificationQueue usando uma tabela no PostgreSQL.
+ *
+ * Responsabilidades:
+ * - Persistir jobs de classificação (sobrevivem a reinícios)
+ * - Reservar jobs com FOR UPDATE SKIP LOCKED (seguro entre instâncias)
+ * - Registrar retentativas, conclusão e dead-letter
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class PrismaClassificationQueue implements ClassificationQueue {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: PrismaClassificationQueueConfig
+  ) {}
+
+  /**
+   * Enfileira a classificação de uma mensagem (idempotente por messageId).
+   */
+  async enqueue(messageId: string): Promise<ClassificationJob> {
+    try {
+      const job = await this.prisma.classificationJob.upsert({
+        where: { messageId },
+        create: {
+          messageId,
+          maxAttempts: this.config.maxAttempts,
+        },
+        update: {},
+      });
+
+      return this.mapToEntity(job);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('enqueue_classification', error);
+      }
+      throw new ProcessingError('enqueue_classification', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Reserva jobs prontos (pendentes com runAt vencido ou com lock expirado).
+   */
+  async claim(limit: number): Promise<ClassificationJob[]> {
+    const jobs = await this.prisma.$queryRaw<ClassificationJobRecord[]>`
+      UPDATE "ClassificationJob"
+      SET "status" = 'processing',
+          "attempts" = "attempts" + 1,
+          "lockedAt" = NOW(),
+          "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "ClassificationJob"
+        WHERE ("status" = 'pending' AND "runAt" <= NOW())
+           OR ("status" = 'processing' AND "lockedAt" < NOW() - ${this.config.lockTimeoutMs} * INTERVAL '1 millisecond')
+        ORDER BY "runAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return jobs.map((job) => this.mapToEntity(job));
+  }
+
+  /**
+   * Marca o job como concluído.
+   */
+  async complete(jobId: string): Promise<void> {
+    await this.prisma.classificationJob.update({
+      where: { id: jobId },
+      data: { status: 'done', lockedAt: null, lastError: null },
+    });
+  }
+
+  /**
+   * Reagenda o job para nova tentativa.
+   */
+  async retry(jobId: string, error: string, runAt: Date): Promise<void> {
+    await this.prisma.classificationJob.update({
+      where: { id: jobId },
+      data: { status: 'pending', lockedAt: null, lastError: error, runAt },
+    });
+  }
+
+  /**
+   * Move o job para o dead-letter.
+   */
+  async markDead(jobId: string, error: string): Promise<void> {
+    await this.prisma.classificationJob.update({
+      where: { id: jobId },
+      data: { status: 'dead', lockedAt: null, lastError: error },
+    });
+  }
+
+  /**
+   * Mapeia um registro do Prisma para a entidade de domínio.
+   */
+  private mapToEntity(record: ClassificationJobRecord): ClassificationJob {
+    return {
+      id: record.id,
+      messageId: record.messageId,
+      status: record.status as ClassificationJobStatus,
+      attempts: record.attempts,
+      maxAttempts: record.maxAttempts,
+      runAt: record.runAt,
+      lastError: record.lastError,
+      createdAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  PrismaClient,
+  type Prisma,
+  type Contact as ContactRecord,
+  type Conversation as ConversationRecord,
+} from '@prisma/client';
+import type {
+  ContactRepository,
+  ContactQuery,
+  ContactPage,
+  ResolvedContact,
+} from '../../../usecases/interfaces/ContactRepository.js';
+import type { Contact } from '../../../domain/entities/Contact.js';
+import type { Conversation } from '../../../domain/entities/Conversation.js';
+import type { ContactInfo, Provider } from '../../../domain/entities/NormalizedMessage.js';
+import { ProcessingError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Implementação do ContactRepository usando Prisma.
+ *
+ * Responsabilidades:
+ * - Manter um contato único por telefone em cada tenant (independente do provedor)
+ * - Manter uma conversa por contato + provedor
+ * - Atualizar contadores, primeira/última mensagem e última intenção
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class PrismaContactRepository implements ContactRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Obtém (ou cria) o contato do tenant pelo telefone e a conversa no provedor.
+   */
+  async resolve(
+    tenantId: string,
+    info: ContactInfo,
+    provider: Provider,
+    updateName: boolean
+  ): Promise<ResolvedContact> {
+    try {
+      const contact = await this.prisma.contact.upsert({
+        where: { tenantId_phone: { tenantId, phone: info.phone } },
+        create: { tenantId, phone: info.phone, name: info.name },
+        update: updateName ? { name: info.name } : {},
+      });
+
+      const conversation = await this.prisma.conversation.upsert({
+        where: { contactId_provider: { contactId: contact.id, provider } },
+        create: { contactId: contact.id, provider },
+        update: {},
+      });
+
+      return {
+        contact: this.mapContact(contact),
+        conversation: this.mapConversation(conversation),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('resolve_contact', error);
+      }
+      throw new ProcessingError('resolve_contact', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Contabiliza uma nova mensagem no contato e na conversa.
+   * Primeira/última mensagem usam updates condicionais (atômicos),
+   * pois mensagens podem chegar fora de ordem.
+   */
+  async registerMessage(contactId: string, conversationId: string, timestamp: Date): Promise<void> {
+    try {
+      await this.prisma.$transaction([
+        this.prisma.contact.update({
+          where: { id: contactId },
+          data: { messageCount: { increment: 1 } },
+        }),
+        this.prisma.contact.updateMany({
+          where: {
+            id: contactId,
+            OR: [{ firstMessageAt: null }, { firstMessageAt: { gt: timestamp } }],
+          },
+          data: { firstMessageAt: timestamp },
+        }),
+        this.prisma.contact.updateMany({
+          where: {
+            id: contactId,
+            OR: [{ lastMessageAt: null }, { lastMessageAt: { lt: timestamp } }],
+          },
+          data: { lastMessageAt: timestamp },
+        }),
+        this.prisma.conversation.update({
+          where: { id: conversationId },
+          data: { messageCount: { increment: 1 } },
+        }),
+        this.prisma.conversation.updateMany({
+          where: {
+            id: conversationId,
+            OR: [{ firstMessageAt: null }, { firstMessageAt: { gt: timestamp } }],
+          },
+          data: { firstMessageAt: timestamp },
+        }),
+        this.prisma.conversation.updateMany({
+          where: {
+            id: conversationId,
+            OR: [{ lastMessageAt: null }, { lastMessageAt: { lt: timestamp } }],
+          },
+          data: { lastMessageAt: timestamp },
+        }),
+      ]);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('register_contact_message', error);
+      }
+      throw new ProcessingError('register_contact_message', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Atualiza a última intenção apenas se nenhuma mensagem mais nova foi registrada.
+   */
+  async updateLastIntent(contactId: string, intent: string, messageTimestamp: Date): Promise<void> {
+    await this.prisma.contact.updateMany({
+      where: { id: contactId, lastMessageAt: { lte: messageTimestamp } },
+      data: { lastIntent: intent },
+    });
+  }
+
+  /**
+   * Adiciona etiquetas sem duplicar, em um único UPDATE atômico.
+   */
+  async addTags(contactId: string, tags: string[]): Promise<void> {
+    await this.prisma.$executeRaw`
+      UPDATE "Contact"
+      SET "tags" = ARRAY(SELECT DISTINCT unnest("tags" || ${tags}::text[])),
+          "updatedAt" = NOW()
+      WHERE "id" = ${contactId}
+    `;
+  }
+
+  /**
+   * Busca um contato pelo ID interno.
+   */
+  async findById(id: string): Promise<Contact | null> {
+    const contact = await this.prisma.contact.findUnique({
+      where: { id },
+    });
+
+    if (!contact) {
+      return null;
+    }
+
+    return this.mapContact(contact);
+  }
+
+  /**
+   * Consulta contatos ordenados pela última mensagem (mais recente primeiro).
+   * O cursor é o ID do último contato da página anterior.
+   */
+  async findMany(query: ContactQuery): Promise<ContactPage> {
+    const conditions: Prisma.ContactWhereInput[] = [{ tenantId: query.tenantId }];
+
+    if (query.lastIntent) conditions.push({ lastIntent: query.lastIntent });
+    if (query.tag) conditions.push({ tags: { has: query.tag } });
+    if (query.minLeadScore !== undefined) {
+      conditions.push({ leadProfile: { score: { gte: query.minLeadScore } } });
+    }
+    if (query.search) {
+      conditions.push({
+        OR: [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { phone: { contains: query.search } },
+        ],
+      });
+    }
+
+    // Busca um registro a mais para saber se existe próxima página
+    const records = await this.prisma.contact.findMany({
+      where: { AND: conditions },
+      orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }, { id: 'desc' }],
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = records.length > query.limit;
+    const page = hasMore ? records.slice(0, query.limit) : records;
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((record) => this.mapContact(record)),
+      nextCursor: hasMore && last ? last.id : null,
+    };
+  }
+
+  /**
+   * Mapeia um registro de contato do Prisma para a entidade de domínio.
+   */
+  private mapContact(record: ContactRecord): Contact {
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      phone: record.phone,
+      name: record.name,
+      firstMessageAt: record.firstMessageAt,
+      lastMessageAt: record.lastMessageAt,
+      messageCount: record.messageCount,
+      lastIntent: record.lastIntent,
+      tags: record.tags,
+      createdAt: record.createdAt,
+    };
+  }
+
+  /**
+   * Mapeia um registro de conversa do Prisma para a entidade de domínio.
+   */
+  private mapConversation(record: ConversationRecord): Conversation {
+    return {
+      id: record.id,
+      contactId: record.contactId,
+      provider: record.provider as Provider,
+      firstMessageAt: record.firstMessageAt,
+      lastMessageAt: record.lastMessageAt,
+      messageCount: record.messageCount,
+      createdAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { PrismaClient, type Prisma, type EventDelivery as EventDeliveryRecord } from '@prisma/client';
+import type {
+  EventDeliveryQueue,
+  EventDeliveryQuery,
+  EventDeliveryPage,
+} from '../../../usecases/interfaces/EventDeliveryQueue.js';
+import type {
+  EventDelivery,
+  EventDeliveryStatus,
+  CreateEventDelivery,
+} from '../../../domain/entities/EventDelivery.js';
+import type { EventType, EventEnvelope } from '../../../domain/entities/EventSubscription.js';
+
+/**
+ * Configuração da fila de entregas de eventos.
+ */
+export interface PrismaEventDeliveryQueueConfig {
+  /** Máximo de tentativas de cada entrega antes do dead-letter */
+  maxAttempts: number;
+  /**
+   * Tempo após o qual uma entrega "processing" é considerada abandonada
+   * (ex: processo reiniciado no meio do envio) e volta a ser elegível.
+   */
+  lockTimeoutMs: number;
+}
+
+/**
+ * Implementação da EventDeliveryQueue usando uma tabela no PostgreSQL.
+ *
+ * Responsabilidades:
+ * - Persistir entregas pendentes (sobrevivem a reinícios)
+ * - Reservar entregas com FOR UPDATE SKIP LOCKED (seguro entre instâncias)
+ * - Registrar tentativas, status HTTP, entrega e dead-letter (log de entregas)
+ */
+export class PrismaEventDeliveryQueue implements EventDeliveryQueue {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly config: PrismaEventDeliveryQueueConfig
+  ) {}
+
+  /**
+   * Enfileira entregas (idempotente por assinatura + evento).
+   */
+  async enqueue(deliveries: CreateEventDelivery[]): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    await this.prisma.eventDelivery.createMany({
+      data: deliveries.map((delivery) => ({
+        subscriptionId: delivery.subscriptionId,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        payload: delivery.payload as unknown as Prisma.InputJsonValue,
+        maxAttempts: this.config.maxAttempts,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Reserva entregas prontas (pendentes com runAt vencido ou com lock expirado).
+   */
+  async claim(limit: number): Promise<EventDelivery[]> {
+    const deliveries = await this.prisma.$queryRaw<EventDeliveryRecord[]>`
+      UPDATE "EventDelivery"
+      SET "status" = 'processing',
+          "attempts" = "attempts" + 1,
+          "lockedAt" = NOW(),
+          "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "EventDelivery"
+        WHERE ("status" = 'pending' AND "runAt" <= NOW())
+           OR ("status" = 'processing' AND "lockedAt" < NOW() - ${this.config.lockTimeoutMs} * INTERVAL '1 millisecond')
+        ORDER BY "runAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return deliveries.map((delivery) => this.mapToEntity(delivery));
+  }
+
+  /**
+   * Marca a entrega como concluída.
+   */
+  async markDelivered(deliveryId: string, statusCode: number): Promise<void> {
+    await this.prisma.eventDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'delivered',
+        lockedAt: null,
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Reagenda a entrega para nova tentativa.
+   */
+  async retry(deliveryId: string, error: string, statusCode: number | null, runAt: Date): Promise<void> {
+    await this.prisma.eventDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'pending', lockedAt: null, lastError: error, lastStatusCode: statusCode, runAt },
+    });
+  }
+
+  /**
+   * Move a entrega para o dead-letter.
+   */
+  async markDead(deliveryId: string, error: string, statusCode: number | null): Promise<void> {
+    await this.prisma.eventDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'dead', lockedAt: null, lastError: error, lastStatusCode: statusCode },
+    });
+  }
+
+  /**
+   * Consulta o log de entregas (mais recente primeiro).
+   * O cursor é o ID da última entrega da página anterior.
+   */
+  async findMany(query: EventDeliveryQuery): Promise<EventDeliveryPage> {
+    const where: Prisma.EventDeliveryWhereInput = {};
+    if (query.subscriptionId) where.subscriptionId = query.subscriptionId;
+    if (query.status) where.status = query.status;
+
+    // Busca um registro a mais para saber se existe próxima página
+    const records = await this.prisma.eventDelivery.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = records.length > query.limit;
+    const page = hasMore ? records.slice(0, query.limit) : records;
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((record) => this.mapToEntity(record)),
+      nextCursor: hasMore && last ? last.id : null,
+    };
+  }
+
+  /**
+   * Mapeia um registro do Prisma para a entidade de domínio.
+   */
+  private mapToEntity(record: EventDeliveryRecord): EventDelivery {
+    return {
+      id: record.id,
+      subscriptionId: record.subscriptionId,
+      eventId: record.eventId,
+      eventType: record.eventType as EventType,
+      payload: record.payload as unknown as EventEnvelope,
+      status: record.status as EventDeliveryStatus,
+      attempts: record.attempts,
+      maxAttempts: record.maxAttempts,
+      runAt: record.runAt,
+      lastStatusCode: record.lastStatusCode,
+      lastError: record.lastError,
+      deliveredAt: record.deliveredAt,
+      createdAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  PrismaClient,
+  Prisma,
+  type EventSubscription as EventSubscriptionRecord,
+} from '@prisma/client';
+import type { EventSubscriptionRepository } from '../../../usecases/interfaces/EventSubscriptionRepository.js';
+import type {
+  EventSubscription,
+  EventType,
+  CreateEventSubscription,
+  UpdateEventSubscription,
+} from '../../../domain/entities/EventSubscription.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Códigos de erro do Prisma tratados pelo repositório.
+ * - P2025: registro não encontrado
+ * - P2003: violação de foreign key (tenant inexistente)
+ */
+const RECORD_NOT_FOUND = 'P2025';
+const FOREIGN_KEY_VIOLATION = 'P2003';
+
+/**
+ * Implementação do EventSubscriptionRepository usando Prisma.
+ */
+export class PrismaEventSubscriptionRepository implements EventSubscriptionRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Lista todas as assinaturas.
+   */
+  async findAll(): Promise<EventSubscription[]> {
+    const records = await this.prisma.eventSubscription.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Lista as assinaturas ativas do evento, do tenant e globais.
+   */
+  async findActiveByEvent(type: EventType, tenantId: string): Promise<EventSubscription[]> {
+    const records = await this.prisma.eventSubscription.findMany({
+      where: { active: true, events: { has: type }, OR: [{ tenantId }, { tenantId: null }] },
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Busca uma assinatura pelo ID.
+   */
+  async findById(id: string): Promise<EventSubscription | null> {
+    const record = await this.prisma.eventSubscription.findUnique({
+      where: { id },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return this.mapToEntity(record);
+  }
+
+  /**
+   * Cria uma assinatura.
+   */
+  async create(data: CreateEventSubscription): Promise<EventSubscription> {
+    try {
+      const record = await this.prisma.eventSubscription.create({ data });
+      return this.mapToEntity(record);
+    } catch (error) {
+      if (
+        data.tenantId &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === FOREIGN_KEY_VIOLATION
+      ) {
+        throw new ResourceNotFoundError('Tenant', data.tenantId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Altera uma assinatura existente.
+   * @throws ResourceNotFoundError se a assinatura não existir
+   */
+  async update(id: string, data: UpdateEventSubscription): Promise<EventSubscription> {
+    try {
+      const record = await this.prisma.eventSubscription.update({
+        where: { id },
+        data,
+      });
+
+      return this.mapToEntity(record);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === RECORD_NOT_FOUND) {
+        throw new ResourceNotFoundError('Assinatura', id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove uma assinatura (entregas são removidas em cascata).
+   * @throws ResourceNotFoundError se a assinatura não existir
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await this.prisma.eventSubscription.delete({ where: { id } });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === RECORD_NOT_FOUND) {
+        throw new ResourceNotFoundError('Assinatura', id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mapeia o registro do Prisma para a entidade de domínio.
+   */
+  private mapToEntity(record: EventSubscriptionRecord): EventSubscription {
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      url: record.url,
+      events: record.events as EventType[],
+      secret: record.secret,
+      active: record.active,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { PrismaClient, Prisma, type Intent as IntentRecord } from '@prisma/client';
+import type { IntentRepository } from '../../../usecases/interfaces/IntentRepository.js';
+import type { Intent, CreateIntent, UpdateIntent } from '../../../domain/entities/Intent.js';
+import {
+  ProcessingError,
+  ResourceConflictError,
+  ResourceNotFoundError,
+} from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Códigos de erro do Prisma tratados pelo repositório.
+ * - P2002: violação de unique constraint
+ * - P2025: registro não encontrado
+ */
+const UNIQUE_VIOLATION = 'P2002';
+const RECORD_NOT_FOUND = 'P2025';
+
+/**
+ * Implementação do IntentRepository usando Prisma.
+ *
+ * Responsabilidades:
+ * - CRUD do catálogo de intenções
+ * - Seed do catálogo inicial
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class PrismaIntentRepository implements IntentRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Lista todas as intenções, ordenadas pela chave.
+   */
+  async findAll(): Promise<Intent[]> {
+    const records = await this.prisma.intent.findMany({
+      orderBy: { key: 'asc' },
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Lista as intenções ativas, ordenadas pela chave.
+   */
+  async findActive(): Promise<Intent[]> {
+    const records = await this.prisma.intent.findMany({
+      where: { active: true },
+      orderBy: { key: 'asc' },
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Busca uma intenção pela chave.
+   */
+  async findByKey(key: string): Promise<Intent | null> {
+    const record = await this.prisma.intent.findUnique({
+      where: { key },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return this.mapToEntity(record);
+  }
+
+  /**
+   * Cria uma intenção.
+   * @throws ResourceConflictError se a chave já existir
+   */
+  async create(data: CreateIntent): Promise<Intent> {
+    try {
+      const record = await this.prisma.intent.create({ data });
+      return this.mapToEntity(record);
+    } catch (error) {
+      if (this.isPrismaError(error, UNIQUE_VIOLATION)) {
+        throw new ResourceConflictError('Intenção', data.key);
+      }
+      throw this.toProcessingError('create_intent', error);
+    }
+  }
+
+  /**
+   * Altera uma intenção existente.
+   * @throws ResourceNotFoundError se a chave não existir
+   */
+  async update(key: string, data: UpdateIntent): Promise<Intent> {
+    try {
+      const record = await this.prisma.intent.update({
+        where: { key },
+        data,
+      });
+      return this.mapToEntity(record);
+    } catch (error) {
+      if (this.isPrismaError(error, RECORD_NOT_FOUND)) {
+        throw new ResourceNotFoundError('Intenção', key);
+      }
+      throw this.toProcessingError('update_intent', error);
+    }
+  }
+
+  /**
+   * Remove uma intenção do catálogo.
+   * Mensagens já classificadas mantêm a chave gravada.
+   * @throws ResourceNotFoundError se a chave não existir
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.prisma.intent.delete({ where: { key } });
+    } catch (error) {
+      if (this.isPrismaError(error, RECORD_NOT_FOUND)) {
+        throw new ResourceNotFoundError('Intenção', key);
+      }
+      throw this.toProcessingError('delete_intent', error);
+    }
+  }
+
+  /**
+   * Insere o catálogo inicial apenas se a tabela estiver vazia.
+   * Intenções removidas pelo administrador não são recriadas.
+   */
+  async seedIfEmpty(intents: CreateIntent[]): Promise<number> {
+    const count = await this.prisma.intent.count();
+    if (count > 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.intent.createMany({
+      data: intents,
+      skipDuplicates: true,
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Verifica se o erro é um erro conhecido do Prisma com o código informado.
+   */
+  private isPrismaError(error: unknown, code: string): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === code;
+  }
+
+  /**
+   * Encapsula erros inesperados em ProcessingError.
+   */
+  private toProcessingError(step: string, error: unknown): ProcessingError {
+    if (error instanceof Error) {
+      return new ProcessingError(step, error);
+    }
+    return new ProcessingError(step, new Error('Unknown error'));
+  }
+
+  /**
+   * Mapeia o registro do Prisma para a entidade de domínio.
+   */
+  private mapToEntity(record: IntentRecord): Intent {
+    return {
+      id: record.id,
+      key: record.key,
+      description: record.description,
+      examples: record.examples,
+      active: record.active,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
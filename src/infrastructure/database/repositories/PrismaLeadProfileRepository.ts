@@ -0,0 +1,133 @@
+import { PrismaClient, type Prisma, type LeadProfile as LeadProfileRecord } from '@prisma/client';
+import type { LeadProfileRepository } from '../../../usecases/interfaces/LeadProfileRepository.js';
+import {
+  calculateLeadScore,
+  mergeLeadSignals,
+  type LeadProfile,
+  type LeadProfileData,
+  type LeadSignals,
+  type LeadTimeline,
+} from '../../../domain/entities/LeadProfile.js';
+import { ProcessingError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Implementação do LeadProfileRepository usando Prisma.
+ *
+ * Responsabilidades:
+ * - Registrar os sinais extraídos de cada mensagem (uma única vez por mensagem)
+ * - Acumular os sinais no perfil do contato e recalcular o score
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class PrismaLeadProfileRepository implements LeadProfileRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Busca o perfil acumulado do contato.
+   */
+  async findByContact(contactId: string): Promise<LeadProfile | null> {
+    const record = await this.prisma.leadProfile.findUnique({
+      where: { contactId },
+    });
+
+    return record ? this.mapProfile(record) : null;
+  }
+
+  /**
+   * Verifica se os sinais da mensagem já foram registrados.
+   */
+  async hasSignals(messageId: string): Promise<boolean> {
+    const count = await this.prisma.leadSignal.count({
+      where: { messageId },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Registra os sinais e atualiza o perfil em uma única transação.
+   * O perfil é travado (FOR UPDATE) durante a mesclagem: mensagens do mesmo
+   * contato processadas em paralelo não perdem atualizações.
+   */
+  async applySignals(
+    contactId: string,
+    messageId: string,
+    signals: LeadSignals
+  ): Promise<LeadProfile | null> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Inserções idempotentes: a unique constraint descarta mensagens repetidas
+        const inserted = await tx.leadSignal.createMany({
+          data: [{ messageId, contactId, signals: this.toJson(signals) }],
+          skipDuplicates: true,
+        });
+
+        if (inserted.count === 0) {
+          return null;
+        }
+
+        await tx.leadProfile.createMany({
+          data: [{ contactId }],
+          skipDuplicates: true,
+        });
+
+        await tx.$queryRaw`
+          SELECT "id" FROM "LeadProfile" WHERE "contactId" = ${contactId} FOR UPDATE
+        `;
+
+        const current = await tx.leadProfile.findUniqueOrThrow({ where: { contactId } });
+        const data = mergeLeadSignals(this.mapProfileData(current), signals);
+
+        const updated = await tx.leadProfile.update({
+          where: { contactId },
+          data: {
+            ...data,
+            score: calculateLeadScore(data),
+            analyzedMessages: { increment: 1 },
+          },
+        });
+
+        return this.mapProfile(updated);
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('apply_lead_signals', error);
+      }
+      throw new ProcessingError('apply_lead_signals', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Converte os sinais para o tipo JSON aceito pelo Prisma.
+   */
+  private toJson(signals: LeadSignals): Prisma.InputJsonValue {
+    return signals as unknown as Prisma.InputJsonValue;
+  }
+
+  /**
+   * Extrai do registro os campos acumulados do perfil.
+   */
+  private mapProfileData(record: LeadProfileRecord): LeadProfileData {
+    return {
+      budgetMentioned: record.budgetMentioned,
+      budget: record.budget,
+      timeline: record.timeline as LeadTimeline,
+      decisionMaker: record.decisionMaker,
+      productInterest: record.productInterest,
+      objections: record.objections,
+    };
+  }
+
+  /**
+   * Mapeia um registro de perfil do Prisma para a entidade de domínio.
+   */
+  private mapProfile(record: LeadProfileRecord): LeadProfile {
+    return {
+      contactId: record.contactId,
+      ...this.mapProfileData(record),
+      score: record.score,
+      analyzedMessages: record.analyzedMessages,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -1,18 +1,93 @@
-import { PrismaClient, type Message } from '@prisma/client';
-import type { MessageRepository } from '../../../usecases/interfaces/MessageRepository.js';
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
 import type {
-  NormalizedMessage,
-  CreateNormalizedMessage,
-  Classification,
-  Provider,
+  MessageRepository,
+  MessageRelations,
+  MessageQuery,
+  MessagePage,
+} from '../../../usecases/interfaces/MessageRepository.js';
+import type { ClassificationContext } from '../../../usecases/interfaces/ClassificationService.js';
+import {
+  HUMAN_CLASSIFIER,
+  type NormalizedMessage,
+  type CreateNormalizedMessage,
+  type Classification,
+  type ClassificationSource,
+  type ClassificationStatus,
+  type MessageContent,
+  type MediaMessageType,
+  type Provider,
 } from '../../../domain/entities/NormalizedMessage.js';
-import { ProcessingError } from '../../../domain/errors/WebhookErrors.js';
+import type {
+  ContactEntity,
+  EntityType,
+  ExtractedEntity,
+} from '../../../domain/entities/ExtractedEntity.js';
+import type { ClassificationHistoryEntry } from '../../../domain/entities/ClassificationHistory.js';
+import { ProcessingError, InvalidRequestError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Relações carregadas junto com toda mensagem.
+ */
+const MESSAGE_INCLUDE = {
+  contact: true,
+  sharedContacts: { orderBy: { position: 'asc' } },
+  entities: { orderBy: { start: 'asc' } },
+} satisfies Prisma.MessageInclude;
+
+/**
+ * Mensagem que ainda aguarda a classificação automática: pendente e não revisada manualmente.
+ */
+const AWAITING_CLASSIFICATION = {
+  classificationStatus: 'pending',
+  OR: [{ classifier: null }, { classifier: { not: HUMAN_CLASSIFIER } }],
+} satisfies Prisma.MessageWhereInput;
+
+/**
+ * Registro de mensagem com as relações carregadas.
+ */
+type MessageRecord = Prisma.MessageGetPayload<{ include: typeof MESSAGE_INCLUDE }>;
+
+/**
+ * Posição de paginação: última mensagem retornada (ordem timestamp desc, id desc).
+ */
+interface MessageCursor {
+  timestamp: Date;
+  id: string;
+}
+
+/**
+ * Colunas/relações específicas de cada tipo de mensagem.
+ */
+type MessageContentData = Pick<
+  Prisma.MessageCreateInput,
+  | 'mediaUrl'
+  | 'mediaId'
+  | 'mediaMimeType'
+  | 'mediaFileName'
+  | 'mediaWidth'
+  | 'mediaHeight'
+  | 'mediaCaption'
+  | 'locationLatitude'
+  | 'locationLongitude'
+  | 'locationName'
+  | 'locationAddress'
+  | 'reactionEmoji'
+  | 'reactionTargetId'
+  | 'sharedContacts'
+>;
+
+/**
+ * Tipos de mensagem persistidos nas colunas de mídia.
+ */
+const MEDIA_MESSAGE_TYPES: readonly string[] = ['image', 'audio', 'video', 'document', 'sticker'];
 
 /**
  * Implementação do MessageRepository usando Prisma.
  *
  * Responsabilidades:
  * - Persistir mensagens normalizadas no PostgreSQL
+ * - Persistir as entidades extraídas do conteúdo
  * - Verificar duplicatas (idempotência)
  * - Atualizar classificações
  *
@@ -24,19 +99,39 @@ export class PrismaMessageRepository implements MessageRepository {
   /**
    * Salva uma nova mensagem no banco.
    */
-  async save(message: CreateNormalizedMessage): Promise<NormalizedMessage> {
+  async save(
+    message: CreateNormalizedMessage,
+    relations: MessageRelations,
+    classificationStatus: ClassificationStatus = 'pending',
+    entities: ExtractedEntity[] = []
+  ): Promise<NormalizedMessage> {
     try {
       const created = await this.prisma.message.create({
         data: {
           externalId: message.externalId,
           provider: message.provider,
-          contactPhone: message.contact.phone,
-          contactName: message.contact.name,
+          tenant: { connect: { id: relations.tenantId } },
+          contact: { connect: { id: relations.contactId } },
+          conversation: { connect: { id: relations.conversationId } },
+          ...(relations.rawWebhookId ? { rawWebhook: { connect: { id: relations.rawWebhookId } } } : {}),
           messageType: message.message.type,
           messageContent: message.message.content,
+          ...this.mapContentToData(message.message),
           timestamp: message.timestamp,
           isFromMe: message.isFromMe,
+          classificationStatus,
+          entities: {
+            create: entities.map((entity) => ({
+              contact: { connect: { id: relations.contactId } },
+              type: entity.type,
+              value: entity.value,
+              text: entity.text,
+              start: entity.start,
+              end: entity.end,
+            })),
+          },
         },
+        include: MESSAGE_INCLUDE,
       });
 
       return this.mapToEntity(created);
@@ -54,6 +149,7 @@ export class PrismaMessageRepository implements MessageRepository {
   async findById(id: string): Promise<NormalizedMessage | null> {
     const message = await this.prisma.message.findUnique({
       where: { id },
+      include: MESSAGE_INCLUDE,
     });
 
     if (!message) {
@@ -64,20 +160,163 @@ export class PrismaMessageRepository implements MessageRepository {
   }
 
   /**
-   * Busca uma mensagem pelo ID externo e provedor.
+   * Consulta mensagens com filtros e paginação por cursor (keyset).
+   * Ordena por timestamp desc com id como desempate, usando os índices de
+   * contato, timestamp, provider e intent.
+   */
+  async findMany(query: MessageQuery): Promise<MessagePage> {
+    const conditions: Prisma.MessageWhereInput[] = [{ tenantId: query.tenantId }];
+
+    if (query.provider) conditions.push({ provider: query.provider });
+    if (query.contactId) conditions.push({ contactId: query.contactId });
+    if (query.contactPhone) conditions.push({ contact: { phone: query.contactPhone } });
+    if (query.intent) conditions.push({ intent: query.intent });
+    if (query.isFromMe !== undefined) conditions.push({ isFromMe: query.isFromMe });
+    if (query.minConfidence !== undefined) {
+      conditions.push({ intentConfidence: { gte: query.minConfidence } });
+    }
+    if (query.maxConfidence !== undefined) {
+      conditions.push({ intentConfidence: { lte: query.maxConfidence } });
+    }
+    if (query.from) conditions.push({ timestamp: { gte: query.from } });
+    if (query.to) conditions.push({ timestamp: { lte: query.to } });
+    if (query.search) {
+      conditions.push({ messageContent: { contains: query.search, mode: 'insensitive' } });
+    }
+    if (query.reviewBelow !== undefined) {
+      conditions.push(
+        { isFromMe: false },
+        { classificationStatus: 'done' },
+        { intentConfidence: { lt: query.reviewBelow } },
+        { OR: [{ classifier: null }, { classifier: { not: HUMAN_CLASSIFIER } }] }
+      );
+    }
+    if (query.entityType || query.entityValue) {
+      conditions.push({
+        entities: {
+          some: {
+            ...(query.entityType ? { type: query.entityType } : {}),
+            ...(query.entityValue ? { value: query.entityValue } : {}),
+          },
+        },
+      });
+    }
+
+    // Keyset: mensagens "depois" do cursor na ordenação (timestamp desc, id desc)
+    if (query.cursor) {
+      const cursor = this.decodeCursor(query.cursor);
+      conditions.push({
+        OR: [
+          { timestamp: { lt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, id: { lt: cursor.id } },
+        ],
+      });
+    }
+
+    // Busca um registro a mais para saber se existe próxima página
+    const records = await this.prisma.message.findMany({
+      where: { AND: conditions },
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      include: MESSAGE_INCLUDE,
+    });
+
+    const hasMore = records.length > query.limit;
+    const page = hasMore ? records.slice(0, query.limit) : records;
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((record) => this.mapToEntity(record)),
+      nextCursor: hasMore && last ? this.encodeCursor({ timestamp: last.timestamp, id: last.id }) : null,
+    };
+  }
+
+  /**
+   * Busca as últimas mensagens do contato anteriores ao timestamp informado.
+   * Consulta em ordem decrescente (índice de contato) e inverte para ordem cronológica.
+   */
+  async findRecentByContact(
+    contactId: string,
+    before: Date,
+    limit: number
+  ): Promise<NormalizedMessage[]> {
+    const records = await this.prisma.message.findMany({
+      where: { contactId, timestamp: { lt: before } },
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: limit,
+      include: MESSAGE_INCLUDE,
+    });
+
+    return records.reverse().map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Monta o contexto da conversa com as mensagens anteriores do contato.
+   */
+  async findConversationContext(
+    message: NormalizedMessage,
+    limit: number
+  ): Promise<ClassificationContext> {
+    if (limit <= 0) {
+      return { history: [] };
+    }
+
+    try {
+      const recent = await this.findRecentByContact(message.contactId, message.timestamp, limit);
+
+      return {
+        history: recent.map((item) => ({
+          content: item.message.content,
+          isFromMe: item.isFromMe,
+          timestamp: item.timestamp,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('find_history', error);
+      }
+      throw new ProcessingError('find_history', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Agrega as entidades do contato por tipo e valor.
+   */
+  async findEntitiesByContact(contactId: string, type?: EntityType): Promise<ContactEntity[]> {
+    const groups = await this.prisma.messageEntity.groupBy({
+      by: ['type', 'value'],
+      where: { contactId, ...(type ? { type } : {}) },
+      _count: { messageId: true },
+      _max: { createdAt: true },
+      orderBy: { _max: { createdAt: 'desc' } },
+    });
+
+    return groups.map((group) => ({
+      type: group.type as EntityType,
+      value: group.value,
+      occurrences: group._count.messageId,
+      lastSeenAt: group._max.createdAt ?? new Date(0),
+    }));
+  }
+
+  /**
+   * Busca uma mensagem do tenant pelo ID externo e provedor.
    * Usado para verificar duplicatas (idempotência).
    */
   async findByExternalId(
+    tenantId: string,
     provider: string,
     externalId: string
   ): Promise<NormalizedMessage | null> {
     const message = await this.prisma.message.findUnique({
       where: {
-        provider_externalId: {
+        tenantId_provider_externalId: {
+          tenantId,
           provider,
           externalId,
         },
       },
+      include: MESSAGE_INCLUDE,
     });
 
     if (!message) {
@@ -88,20 +327,24 @@ export class PrismaMessageRepository implements MessageRepository {
   }
 
   /**
-   * Atualiza a classificação de uma mensagem.
+   * Atualiza a classificação de uma mensagem e a registra no histórico,
+   * na mesma transação.
    */
   async updateClassification(
     id: string,
     classification: Classification
   ): Promise<NormalizedMessage> {
     try {
-      const updated = await this.prisma.message.update({
-        where: { id },
-        data: {
-          intent: classification.intent,
-          intentConfidence: classification.confidence,
-        },
-      });
+      const [updated] = await this.prisma.$transaction([
+        this.prisma.message.update({
+          where: { id },
+          data: this.toClassificationData(classification),
+          include: MESSAGE_INCLUDE,
+        }),
+        this.prisma.classificationHistory.create({
+          data: this.toHistoryData(id, classification),
+        }),
+      ]);
 
       return this.mapToEntity(updated);
     } catch (error) {
@@ -112,25 +355,279 @@ export class PrismaMessageRepository implements MessageRepository {
     }
   }
 
+  /**
+   * Grava a classificação automática apenas se a mensagem ainda aguarda
+   * classificação, na mesma transação do registro no histórico.
+   * A condição é verificada no próprio UPDATE: uma revisão manual concluída
+   * durante a chamada ao LLM não é sobrescrita.
+   */
+  async completeClassification(
+    id: string,
+    classification: Classification
+  ): Promise<NormalizedMessage | null> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const updated = await tx.message.updateMany({
+          where: { id, ...AWAITING_CLASSIFICATION },
+          data: this.toClassificationData(classification),
+        });
+
+        if (updated.count === 0) {
+          return null;
+        }
+
+        await tx.classificationHistory.create({
+          data: this.toHistoryData(id, classification),
+        });
+
+        const message = await tx.message.findUniqueOrThrow({
+          where: { id },
+          include: MESSAGE_INCLUDE,
+        });
+
+        return this.mapToEntity(message);
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('update_classification', error);
+      }
+      throw new ProcessingError('update_classification', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Lista o histórico de classificações da mensagem (mais antiga primeiro).
+   */
+  async findClassificationHistory(messageId: string): Promise<ClassificationHistoryEntry[]> {
+    const records = await this.prisma.classificationHistory.findMany({
+      where: { messageId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return records.map((record) => ({
+      id: record.id,
+      messageId: record.messageId,
+      intent: record.intent,
+      confidence: record.confidence,
+      source: record.source as ClassificationSource,
+      classifier: record.classifier,
+      model: record.model,
+      promptVersion: record.promptVersion,
+      createdAt: record.createdAt,
+    }));
+  }
+
+  /**
+   * Atualiza o progresso da classificação assíncrona de uma mensagem.
+   * Mensagens que não aguardam mais classificação não são alteradas.
+   */
+  async updateClassificationStatus(id: string, status: ClassificationStatus): Promise<void> {
+    try {
+      await this.prisma.message.updateMany({
+        where: { id, ...AWAITING_CLASSIFICATION },
+        data: { classificationStatus: status },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('update_classification_status', error);
+      }
+      throw new ProcessingError('update_classification_status', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Colunas da mensagem gravadas com a classificação.
+   */
+  private toClassificationData(
+    classification: Classification
+  ): Prisma.MessageUpdateManyMutationInput {
+    return {
+      intent: classification.intent,
+      intentConfidence: classification.confidence,
+      classifier: classification.classifier ?? null,
+      classificationStatus: 'done',
+    };
+  }
+
+  /**
+   * Registro da classificação no histórico.
+   */
+  private toHistoryData(
+    messageId: string,
+    classification: Classification
+  ): Prisma.ClassificationHistoryUncheckedCreateInput {
+    return {
+      messageId,
+      intent: classification.intent,
+      confidence: classification.confidence,
+      source: classification.source ?? 'llm',
+      classifier: classification.classifier ?? null,
+      model: classification.model ?? null,
+      promptVersion: classification.promptVersion ?? null,
+    };
+  }
+
+  /**
+   * Codifica a posição de paginação em um cursor opaco (base64url).
+   */
+  private encodeCursor(cursor: MessageCursor): string {
+    return Buffer.from(`${cursor.timestamp.toISOString()}|${cursor.id}`).toString('base64url');
+  }
+
+  /**
+   * Decodifica um cursor gerado por `encodeCursor`.
+   * @throws InvalidRequestError se o cursor for inválido
+   */
+  private decodeCursor(value: string): MessageCursor {
+    const [timestamp = '', id = ''] = Buffer.from(value, 'base64url').toString('utf8').split('|');
+    const date = new Date(timestamp);
+
+    if (!id || Number.isNaN(date.getTime())) {
+      throw new InvalidRequestError(
+        new ZodError([{ code: 'custom', path: ['cursor'], message: 'Cursor inválido' }])
+      );
+    }
+
+    return { timestamp: date, id };
+  }
+
+  /**
+   * Mapeia o conteúdo tipado para as colunas/relações específicas de cada tipo.
+   */
+  private mapContentToData(content: MessageContent): MessageContentData {
+    switch (content.type) {
+      case 'text':
+        return {};
+      case 'image':
+      case 'audio':
+      case 'video':
+      case 'document':
+      case 'sticker':
+        return {
+          mediaUrl: content.media.url,
+          mediaId: content.media.providerMediaId,
+          mediaMimeType: content.media.mimeType,
+          mediaFileName: content.media.fileName,
+          mediaWidth: content.media.width,
+          mediaHeight: content.media.height,
+          mediaCaption: content.media.caption,
+        };
+      case 'location':
+        return {
+          locationLatitude: content.location.latitude,
+          locationLongitude: content.location.longitude,
+          locationName: content.location.name,
+          locationAddress: content.location.address,
+        };
+      case 'contact':
+        return {
+          sharedContacts: {
+            create: content.contacts.map((contact, position) => ({
+              name: contact.name,
+              phones: contact.phones,
+              position,
+            })),
+          },
+        };
+      case 'reaction':
+        return {
+          reactionEmoji: content.reaction.emoji,
+          reactionTargetId: content.reaction.targetExternalId,
+        };
+    }
+  }
+
+  /**
+   * Reconstrói o conteúdo tipado a partir das colunas do registro.
+   */
+  private mapContentFromRecord(record: MessageRecord): MessageContent {
+    const content = record.messageContent;
+
+    if (MEDIA_MESSAGE_TYPES.includes(record.messageType)) {
+      return {
+        type: record.messageType as MediaMessageType,
+        content,
+        media: {
+          url: record.mediaUrl,
+          providerMediaId: record.mediaId,
+          mimeType: record.mediaMimeType,
+          fileName: record.mediaFileName,
+          width: record.mediaWidth,
+          height: record.mediaHeight,
+          caption: record.mediaCaption,
+        },
+      };
+    }
+
+    if (
+      record.messageType === 'location' &&
+      record.locationLatitude !== null &&
+      record.locationLongitude !== null
+    ) {
+      return {
+        type: 'location',
+        content,
+        location: {
+          latitude: record.locationLatitude,
+          longitude: record.locationLongitude,
+          name: record.locationName,
+          address: record.locationAddress,
+        },
+      };
+    }
+
+    if (record.messageType === 'contact') {
+      return {
+        type: 'contact',
+        content,
+        contacts: record.sharedContacts.map((contact) => ({
+          name: contact.name,
+          phones: contact.phones,
+        })),
+      };
+    }
+
+    if (record.messageType === 'reaction' && record.reactionTargetId !== null) {
+      return {
+        type: 'reaction',
+        content,
+        reaction: {
+          emoji: record.reactionEmoji,
+          targetExternalId: record.reactionTargetId,
+        },
+      };
+    }
+
+    return { type: 'text', content };
+  }
+
   /**
    * Mapeia um registro do Prisma para a entidade de domínio.
    */
-  private mapToEntity(record: Message): NormalizedMessage {
+  private mapToEntity(record: MessageRecord): NormalizedMessage {
     const message: NormalizedMessage = {
       id: record.id,
+      tenantId: record.tenantId,
       externalId: record.externalId,
       provider: record.provider as Provider,
+      contactId: record.contactId,
+      conversationId: record.conversationId,
       contact: {
-        phone: record.contactPhone,
-        name: record.contactName,
-      },
-      message: {
-        type: record.messageType as 'text',
-        content: record.messageContent,
+        phone: record.contact.phone,
+        name: record.contact.name,
       },
+      message: this.mapContentFromRecord(record),
       timestamp: record.timestamp,
       receivedAt: record.receivedAt,
       isFromMe: record.isFromMe,
+      classificationStatus: record.classificationStatus as ClassificationStatus,
+      entities: record.entities.map((entity) => ({
+        type: entity.type as EntityType,
+        value: entity.value,
+        text: entity.text,
+        start: entity.start,
+        end: entity.end,
+      })),
     };
 
     // Adiciona classificação se existir
@@ -138,6 +635,7 @@ export class PrismaMessageRepository implements MessageRepository {
       message.classification = {
         intent: record.intent,
         confidence: record.intentConfidence,
+        ...(record.classifier ? { classifier: record.classifier } : {}),
       };
     }
 
@@ -0,0 +1,81 @@
+import { PrismaClient, type MessageStatusUpdate } from '@prisma/client';
+import type { MessageStatusRepository } from '../../../usecases/interfaces/MessageStatusRepository.js';
+import type { MessageStatus, MessageStatusEvent } from '../../../domain/entities/MessageStatusEvent.js';
+import type { Provider } from '../../../domain/entities/NormalizedMessage.js';
+import { ProcessingError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Implementação do MessageStatusRepository usando Prisma.
+ *
+ * Responsabilidades:
+ * - Persistir o histórico de status por mensagem externa
+ * - Ignorar eventos repetidos (provedores reenviam status)
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class PrismaMessageStatusRepository implements MessageStatusRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Registra eventos de status ignorando duplicatas.
+   */
+  async saveMany(tenantId: string, events: MessageStatusEvent[]): Promise<number> {
+    if (events.length === 0) {
+      return 0;
+    }
+
+    try {
+      const result = await this.prisma.messageStatusUpdate.createMany({
+        data: events.map((event) => ({
+          tenantId,
+          externalId: event.externalId,
+          provider: event.provider,
+          status: event.status,
+          recipientPhone: event.recipientPhone,
+          timestamp: event.timestamp,
+          errorCode: event.errorCode,
+          errorMessage: event.errorMessage,
+        })),
+        skipDuplicates: true,
+      });
+
+      return result.count;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('save_message_status', error);
+      }
+      throw new ProcessingError('save_message_status', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Busca o histórico de status de uma mensagem em ordem cronológica.
+   */
+  async findByExternalId(
+    tenantId: string,
+    provider: string,
+    externalId: string
+  ): Promise<MessageStatusEvent[]> {
+    const records = await this.prisma.messageStatusUpdate.findMany({
+      where: { tenantId, provider, externalId },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    return records.map((record) => this.mapToEntity(record));
+  }
+
+  /**
+   * Mapeia um registro do Prisma para a entidade de domínio.
+   */
+  private mapToEntity(record: MessageStatusUpdate): MessageStatusEvent {
+    return {
+      provider: record.provider as Provider,
+      externalId: record.externalId,
+      status: record.status as MessageStatus,
+      recipientPhone: record.recipientPhone,
+      timestamp: record.timestamp,
+      errorCode: record.errorCode,
+      errorMessage: record.errorMessage,
+    };
+  }
+}
@@ -0,0 +1,270 @@
+import { PrismaClient, Prisma, type RawWebhook as RawWebhookRecord } from '@prisma/client';
+import { ZodError } from 'zod';
+import type {
+  RawWebhookRepository,
+  RawWebhookQuery,
+  RawWebhookPage,
+  QuarantineBatch,
+  QuarantineBatchQuery,
+} from '../../../usecases/interfaces/RawWebhookRepository.js';
+import type {
+  RawWebhook,
+  RawWebhookStatus,
+  CreateRawWebhook,
+  RawWebhookOutcome,
+  QuarantineGroup,
+} from '../../../domain/entities/RawWebhook.js';
+import type { Provider } from '../../../domain/entities/NormalizedMessage.js';
+import { ProcessingError, InvalidRequestError } from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Relações carregadas junto com o webhook (IDs das mensagens geradas).
+ */
+const RAW_WEBHOOK_INCLUDE = {
+  messages: { select: { id: true }, orderBy: { timestamp: 'asc' } },
+} satisfies Prisma.RawWebhookInclude;
+
+type RawWebhookWithMessages = RawWebhookRecord & { messages: Array<{ id: string }> };
+
+/**
+ * Posição no lote da quarentena: último webhook retornado (ordem receivedAt asc, id asc).
+ */
+interface QuarantineCursor {
+  receivedAt: Date;
+  id: string;
+}
+
+/**
+ * Implementação do RawWebhookRepository usando Prisma.
+ *
+ * Responsabilidades:
+ * - Arquivar o corpo e os headers de cada webhook recebido
+ * - Registrar o resultado de cada processamento (recebimento e reprocessamentos)
+ */
+export class PrismaRawWebhookRepository implements RawWebhookRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Arquiva um webhook recebido.
+   */
+  async create(data: CreateRawWebhook): Promise<RawWebhook> {
+    try {
+      const created = await this.prisma.rawWebhook.create({
+        data: {
+          tenantId: data.tenantId,
+          provider: data.provider,
+          headers: data.headers as Prisma.InputJsonValue,
+          payload: (data.payload ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+        },
+        include: RAW_WEBHOOK_INCLUDE,
+      });
+
+      return this.mapToEntity(created);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('archive_webhook', error);
+      }
+      throw new ProcessingError('archive_webhook', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Busca um webhook arquivado pelo ID.
+   */
+  async findById(id: string): Promise<RawWebhook | null> {
+    const record = await this.prisma.rawWebhook.findUnique({
+      where: { id },
+      include: RAW_WEBHOOK_INCLUDE,
+    });
+
+    return record ? this.mapToEntity(record) : null;
+  }
+
+  /**
+   * Consulta o arquivo (mais recente primeiro).
+   * O cursor é o ID do último webhook da página anterior.
+   */
+  async findMany(query: RawWebhookQuery): Promise<RawWebhookPage> {
+    const where: Prisma.RawWebhookWhereInput = {};
+    if (query.tenantId) where.tenantId = query.tenantId;
+    if (query.provider) where.provider = query.provider;
+    if (query.status) where.status = query.status;
+    if (query.failurePath) where.failurePaths = { has: query.failurePath };
+
+    // Busca um registro a mais para saber se existe próxima página
+    const records = await this.prisma.rawWebhook.findMany({
+      where,
+      include: RAW_WEBHOOK_INCLUDE,
+      orderBy: [{ receivedAt: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = records.length > query.limit;
+    const page = hasMore ? records.slice(0, query.limit) : records;
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((record) => this.mapToEntity(record)),
+      nextCursor: hasMore && last ? last.id : null,
+    };
+  }
+
+  /**
+   * Registra o resultado de um processamento.
+   */
+  async recordOutcome(id: string, outcome: RawWebhookOutcome): Promise<void> {
+    await this.prisma.rawWebhook.update({
+      where: { id },
+      data: {
+        status: outcome.status,
+        ...(outcome.authenticated !== undefined ? { authenticated: outcome.authenticated } : {}),
+        errorCode: outcome.error?.code ?? null,
+        errorMessage: outcome.error?.message ?? null,
+        errorDetails:
+          outcome.error?.details === undefined || outcome.error.details === null
+            ? Prisma.DbNull
+            : (outcome.error.details as Prisma.InputJsonValue),
+        failurePaths: outcome.error?.paths ?? [],
+        processedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Incrementa o contador de reprocessamentos.
+   */
+  async markReplayed(id: string): Promise<void> {
+    await this.prisma.rawWebhook.update({
+      where: { id },
+      data: { replayCount: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Conta os webhooks em quarentena por provedor e caminho que falhou.
+   */
+  async summarizeQuarantine(): Promise<QuarantineGroup[]> {
+    const rows = await this.prisma.$queryRaw<
+      Array<{
+        provider: string;
+        path: string;
+        count: number;
+        unauthenticated: number;
+        lastReceivedAt: Date;
+      }>
+    >`
+      SELECT "provider", path, COUNT(*)::int AS "count",
+        (COUNT(*) FILTER (WHERE NOT "authenticated"))::int AS "unauthenticated",
+        MAX("receivedAt") AS "lastReceivedAt"
+      FROM "RawWebhook", unnest("failurePaths") AS path
+      WHERE "status" = 'quarantined'
+      GROUP BY "provider", path
+      ORDER BY "count" DESC, "provider" ASC, path ASC
+    `;
+
+    return rows.map((row) => ({
+      provider: row.provider as Provider,
+      path: row.path,
+      count: row.count,
+      unauthenticated: row.unauthenticated,
+      lastReceivedAt: row.lastReceivedAt,
+    }));
+  }
+
+  /**
+   * Lista um lote de IDs dos webhooks em quarentena do provedor (mais antigo primeiro).
+   *
+   * Paginação por keyset: o cursor guarda a posição (receivedAt, id) do último item
+   * do lote anterior, que em geral já saiu da quarentena ao ser reprocessado.
+   */
+  async findQuarantineBatch(query: QuarantineBatchQuery): Promise<QuarantineBatch> {
+    const { cursor, limit } = query;
+    const where: Prisma.RawWebhookWhereInput = {
+      status: 'quarantined',
+      provider: query.provider,
+      ...(query.includeUnauthenticated ? {} : { authenticated: true }),
+    };
+
+    const records = await this.prisma.rawWebhook.findMany({
+      where: cursor ? { AND: [where, this.after(this.decodeCursor(cursor))] } : where,
+      select: { id: true, receivedAt: true },
+      orderBy: [{ receivedAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+    });
+
+    const last = records[records.length - 1];
+    const remaining = last
+      ? await this.prisma.rawWebhook.count({ where: { AND: [where, this.after(last)] } })
+      : 0;
+
+    return {
+      ids: records.map((record) => record.id),
+      nextCursor: last && remaining > 0 ? this.encodeCursor(last) : null,
+      remaining,
+    };
+  }
+
+  /**
+   * Webhooks recebidos depois da posição (ordem receivedAt asc, id asc).
+   */
+  private after(position: QuarantineCursor): Prisma.RawWebhookWhereInput {
+    return {
+      OR: [
+        { receivedAt: { gt: position.receivedAt } },
+        { receivedAt: position.receivedAt, id: { gt: position.id } },
+      ],
+    };
+  }
+
+  /**
+   * Codifica a posição do lote em um cursor opaco (base64url).
+   */
+  private encodeCursor(position: QuarantineCursor): string {
+    return Buffer.from(`${position.receivedAt.toISOString()}|${position.id}`).toString('base64url');
+  }
+
+  /**
+   * Decodifica um cursor gerado por `encodeCursor`.
+   * @throws InvalidRequestError se o cursor for inválido
+   */
+  private decodeCursor(value: string): QuarantineCursor {
+    const [receivedAt = '', id = ''] = Buffer.from(value, 'base64url').toString('utf8').split('|');
+    const date = new Date(receivedAt);
+
+    if (!id || Number.isNaN(date.getTime())) {
+      throw new InvalidRequestError(
+        new ZodError([{ code: 'custom', path: ['cursor'], message: 'Cursor inválido' }])
+      );
+    }
+
+    return { receivedAt: date, id };
+  }
+
+  /**
+   * Mapeia um registro do Prisma para a entidade de domínio.
+   */
+  private mapToEntity(record: RawWebhookWithMessages): RawWebhook {
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      provider: record.provider as Provider,
+      headers: record.headers as Record<string, string | string[]>,
+      payload: record.payload,
+      status: record.status as RawWebhookStatus,
+      authenticated: record.authenticated,
+      error: record.errorCode
+        ? {
+            code: record.errorCode,
+            message: record.errorMessage ?? '',
+            details: record.errorDetails,
+            paths: record.failurePaths,
+          }
+        : null,
+      messageIds: record.messages.map((message) => message.id),
+      replayCount: record.replayCount,
+      receivedAt: record.receivedAt,
+      processedAt: record.processedAt,
+    };
+  }
+}
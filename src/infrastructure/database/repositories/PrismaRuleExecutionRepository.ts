@@ -0,0 +1,110 @@
+import { PrismaClient, type Prisma, type RuleExecution as RuleExecutionRecord } from '@prisma/client';
+import type {
+  RuleExecutionRepository,
+  RuleExecutionQuery,
+  RuleExecutionPage,
+} from '../../../usecases/interfaces/RuleExecutionRepository.js';
+import type {
+  RuleExecution,
+  CreateRuleExecution,
+  ClaimRuleExecution,
+  RuleExecutionStatus,
+  RuleActionResult,
+} from '../../../domain/entities/AutomationRule.js';
+
+/**
+ * Implementação do RuleExecutionRepository (log de auditoria) usando Prisma.
+ */
+export class PrismaRuleExecutionRepository implements RuleExecutionRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Lista os IDs das regras já executadas para a mensagem.
+   */
+  async findExecutedRuleIds(messageId: string): Promise<string[]> {
+    const records = await this.prisma.ruleExecution.findMany({
+      where: { messageId },
+      select: { ruleId: true },
+    });
+
+    return records.map((record) => record.ruleId);
+  }
+
+  /**
+   * Reserva a execução.
+   * A unique constraint (ruleId + messageId) garante que só um worker reserve a regra para a mensagem.
+   */
+  async claim(execution: ClaimRuleExecution): Promise<boolean> {
+    const { count } = await this.prisma.ruleExecution.createMany({
+      data: [
+        {
+          ruleId: execution.ruleId,
+          messageId: execution.messageId,
+          contactId: execution.contactId,
+          status: 'running',
+          results: [],
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Registra o resultado da execução reservada.
+   */
+  async complete(execution: CreateRuleExecution): Promise<void> {
+    await this.prisma.ruleExecution.update({
+      where: {
+        ruleId_messageId: { ruleId: execution.ruleId, messageId: execution.messageId },
+      },
+      data: {
+        status: execution.status,
+        results: execution.results as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Consulta o log de execuções (mais recente primeiro).
+   * O cursor é o ID da última execução da página anterior.
+   */
+  async findMany(query: RuleExecutionQuery): Promise<RuleExecutionPage> {
+    const where: Prisma.RuleExecutionWhereInput = {};
+    if (query.ruleId) where.ruleId = query.ruleId;
+    if (query.messageId) where.messageId = query.messageId;
+
+    // Busca um registro a mais para saber se existe próxima página
+    const records = await this.prisma.ruleExecution.findMany({
+      where,
+      orderBy: [{ executedAt: 'desc' }, { id: 'desc' }],
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = records.length > query.limit;
+    const page = hasMore ? records.slice(0, query.limit) : records;
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((record) => this.mapToEntity(record)),
+      nextCursor: hasMore && last ? last.id : null,
+    };
+  }
+
+  /**
+   * Mapeia o registro do Prisma para a entidade de domínio.
+   */
+  private mapToEntity(record: RuleExecutionRecord): RuleExecution {
+    return {
+      id: record.id,
+      ruleId: record.ruleId,
+      messageId: record.messageId,
+      contactId: record.contactId,
+      status: record.status as RuleExecutionStatus,
+      results: record.results as unknown as RuleActionResult[],
+      executedAt: record.executedAt,
+    };
+  }
+}
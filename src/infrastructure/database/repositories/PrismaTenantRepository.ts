@@ -0,0 +1,262 @@
+import {
+  PrismaClient,
+  Prisma,
+  type Tenant as TenantRecord,
+  type ProviderAccount as ProviderAccountRecord,
+} from '@prisma/client';
+import type { TenantRepository } from '../../../usecases/interfaces/TenantRepository.js';
+import type {
+  Tenant,
+  CreateTenant,
+  UpdateTenant,
+  ProviderAccount,
+  ProviderCredentials,
+  CreateProviderAccount,
+  ResolvedTenant,
+} from '../../../domain/entities/Tenant.js';
+import type { Provider } from '../../../domain/entities/NormalizedMessage.js';
+import {
+  ProcessingError,
+  ResourceConflictError,
+  ResourceNotFoundError,
+} from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Códigos de erro do Prisma tratados pelo repositório.
+ * - P2002: violação de unique constraint
+ * - P2025: registro não encontrado
+ */
+const UNIQUE_VIOLATION = 'P2002';
+const RECORD_NOT_FOUND = 'P2025';
+
+/**
+ * Implementação do TenantRepository usando Prisma.
+ *
+ * Responsabilidades:
+ * - CRUD de tenants e de suas contas nos provedores
+ * - Identificação do tenant pela conta que recebeu o webhook
+ * - Seed do tenant padrão a partir das variáveis de ambiente
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class PrismaTenantRepository implements TenantRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Lista todos os tenants (mais antigo primeiro).
+   */
+  async findAll(): Promise<Tenant[]> {
+    const records = await this.prisma.tenant.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return records.map((record) => this.mapTenant(record));
+  }
+
+  /**
+   * Busca um tenant pelo ID interno.
+   */
+  async findById(id: string): Promise<Tenant | null> {
+    const record = await this.prisma.tenant.findUnique({ where: { id } });
+    return record ? this.mapTenant(record) : null;
+  }
+
+  /**
+   * Busca um tenant pelo slug.
+   */
+  async findBySlug(slug: string): Promise<Tenant | null> {
+    const record = await this.prisma.tenant.findUnique({ where: { slug } });
+    return record ? this.mapTenant(record) : null;
+  }
+
+  /**
+   * Cria um tenant.
+   * @throws ResourceConflictError se o slug já existir
+   */
+  async create(data: CreateTenant): Promise<Tenant> {
+    try {
+      const record = await this.prisma.tenant.create({ data });
+      return this.mapTenant(record);
+    } catch (error) {
+      if (this.isPrismaError(error, UNIQUE_VIOLATION)) {
+        throw new ResourceConflictError('Tenant', data.slug);
+      }
+      throw this.toProcessingError('create_tenant', error);
+    }
+  }
+
+  /**
+   * Altera um tenant.
+   * @throws ResourceNotFoundError se o tenant não existir
+   */
+  async update(id: string, data: UpdateTenant): Promise<Tenant> {
+    try {
+      const record = await this.prisma.tenant.update({ where: { id }, data });
+      return this.mapTenant(record);
+    } catch (error) {
+      if (this.isPrismaError(error, RECORD_NOT_FOUND)) {
+        throw new ResourceNotFoundError('Tenant', id);
+      }
+      throw this.toProcessingError('update_tenant', error);
+    }
+  }
+
+  /**
+   * Identifica o tenant pela conta que recebeu o webhook.
+   */
+  async findByAccount(provider: Provider, accountId: string): Promise<ResolvedTenant | null> {
+    const record = await this.prisma.providerAccount.findUnique({
+      where: { provider_accountId: { provider, accountId } },
+      include: { tenant: true },
+    });
+
+    return record ? this.mapResolved(record) : null;
+  }
+
+  /**
+   * Identifica o tenant pelo token de verificação de uma conta.
+   */
+  async findByVerifyToken(provider: Provider, verifyToken: string): Promise<ResolvedTenant | null> {
+    const record = await this.prisma.providerAccount.findFirst({
+      where: { provider, credentials: { path: ['verifyToken'], equals: verifyToken } },
+      include: { tenant: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return record ? this.mapResolved(record) : null;
+  }
+
+  /**
+   * Lista as contas do tenant (mais antiga primeiro).
+   */
+  async findAccounts(tenantId: string, provider?: Provider): Promise<ProviderAccount[]> {
+    const records = await this.prisma.providerAccount.findMany({
+      where: { tenantId, ...(provider ? { provider } : {}) },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return records.map((record) => this.mapAccount(record));
+  }
+
+  /**
+   * Cadastra uma conta de provedor no tenant.
+   * @throws ResourceConflictError se a conta já estiver cadastrada
+   * @throws ResourceNotFoundError se o tenant não existir
+   */
+  async addAccount(tenantId: string, data: CreateProviderAccount): Promise<ProviderAccount> {
+    try {
+      const record = await this.prisma.providerAccount.create({
+        data: {
+          tenant: { connect: { id: tenantId } },
+          provider: data.provider,
+          accountId: data.accountId,
+          credentials: data.credentials as Prisma.InputJsonValue,
+        },
+      });
+      return this.mapAccount(record);
+    } catch (error) {
+      if (this.isPrismaError(error, UNIQUE_VIOLATION)) {
+        throw new ResourceConflictError('Conta', `${data.provider}/${data.accountId}`);
+      }
+      if (this.isPrismaError(error, RECORD_NOT_FOUND)) {
+        throw new ResourceNotFoundError('Tenant', tenantId);
+      }
+      throw this.toProcessingError('create_provider_account', error);
+    }
+  }
+
+  /**
+   * Remove uma conta do tenant.
+   * @throws ResourceNotFoundError se a conta não existir no tenant
+   */
+  async removeAccount(tenantId: string, id: string): Promise<void> {
+    const result = await this.prisma.providerAccount.deleteMany({
+      where: { id, tenantId },
+    });
+
+    if (result.count === 0) {
+      throw new ResourceNotFoundError('Conta', id);
+    }
+  }
+
+  /**
+   * Cria o tenant padrão apenas se nenhum tenant existir.
+   * Contas com ID já cadastrado são ignoradas.
+   */
+  async seedIfEmpty(tenant: CreateTenant, accounts: CreateProviderAccount[]): Promise<boolean> {
+    const count = await this.prisma.tenant.count();
+    if (count > 0) {
+      return false;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const created = await tx.tenant.create({ data: tenant });
+
+      await tx.providerAccount.createMany({
+        data: accounts.map((account) => ({
+          tenantId: created.id,
+          provider: account.provider,
+          accountId: account.accountId,
+          credentials: account.credentials as Prisma.InputJsonValue,
+        })),
+        skipDuplicates: true,
+      });
+    });
+
+    return true;
+  }
+
+  /**
+   * Verifica se o erro é um erro conhecido do Prisma com o código informado.
+   */
+  private isPrismaError(error: unknown, code: string): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === code;
+  }
+
+  /**
+   * Encapsula erros inesperados em ProcessingError.
+   */
+  private toProcessingError(step: string, error: unknown): ProcessingError {
+    if (error instanceof Error) {
+      return new ProcessingError(step, error);
+    }
+    return new ProcessingError(step, new Error('Unknown error'));
+  }
+
+  /**
+   * Mapeia a conta com seu tenant.
+   */
+  private mapResolved(record: ProviderAccountRecord & { tenant: TenantRecord }): ResolvedTenant {
+    return {
+      tenant: this.mapTenant(record.tenant),
+      account: this.mapAccount(record),
+    };
+  }
+
+  /**
+   * Mapeia o registro de tenant do Prisma para a entidade de domínio.
+   */
+  private mapTenant(record: TenantRecord): Tenant {
+    return {
+      id: record.id,
+      slug: record.slug,
+      name: record.name,
+      active: record.active,
+      createdAt: record.createdAt,
+    };
+  }
+
+  /**
+   * Mapeia o registro de conta do Prisma para a entidade de domínio.
+   */
+  private mapAccount(record: ProviderAccountRecord): ProviderAccount {
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      provider: record.provider as Provider,
+      accountId: record.accountId,
+      credentials: record.credentials as ProviderCredentials,
+      createdAt: record.createdAt,
+    };
+  }
+}
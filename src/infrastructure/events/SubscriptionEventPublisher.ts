@@ -0,0 +1,57 @@
+import { randomUUID } from 'node:crypto';
+import type { EventPublisher } from '../../usecases/interfaces/EventPublisher.js';
+import type { EventSubscriptionRepository } from '../../usecases/interfaces/EventSubscriptionRepository.js';
+import type { EventDeliveryQueue } from '../../usecases/interfaces/EventDeliveryQueue.js';
+import type { EventType, EventEnvelope } from '../../domain/entities/EventSubscription.js';
+import type { NormalizedMessage } from '../../domain/entities/NormalizedMessage.js';
+
+/**
+ * Publicador de eventos baseado em assinaturas (outbox no PostgreSQL).
+ *
+ * Responsabilidades:
+ * - Encontrar as assinaturas ativas do evento (do tenant da mensagem e globais)
+ * - Montar o envelope (snapshot da mensagem no momento do evento)
+ * - Enfileirar uma entrega por assinatura; o EventDeliveryWorker faz o envio
+ *
+ * Falhas ao publicar são registradas em log e não interrompem o fluxo
+ * de origem (ex: a resposta do webhook ao provedor).
+ */
+export class SubscriptionEventPublisher implements EventPublisher {
+  constructor(
+    private readonly subscriptionRepository: EventSubscriptionRepository,
+    private readonly deliveryQueue: EventDeliveryQueue
+  ) {}
+
+  /**
+   * Publica um evento de mensagem.
+   */
+  async publish(type: EventType, message: NormalizedMessage): Promise<void> {
+    try {
+      const subscriptions = await this.subscriptionRepository.findActiveByEvent(type, message.tenantId);
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const envelope: EventEnvelope<NormalizedMessage> = {
+        id: randomUUID(),
+        type,
+        occurredAt: new Date().toISOString(),
+        data: message,
+      };
+
+      // Serializa para gravar o mesmo JSON que será enviado (datas como ISO)
+      const payload = JSON.parse(JSON.stringify(envelope)) as EventEnvelope;
+
+      await this.deliveryQueue.enqueue(
+        subscriptions.map((subscription) => ({
+          subscriptionId: subscription.id,
+          eventId: envelope.id,
+          eventType: type,
+          payload,
+        }))
+      );
+    } catch (error) {
+      console.error(`[EventPublisher] Falha ao publicar ${type} da mensagem ${message.id}:`, error);
+    }
+  }
+}
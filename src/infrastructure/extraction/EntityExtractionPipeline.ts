@@ -0,0 +1,57 @@
+import type { EntityExtractor } from '../../usecases/interfaces/EntityExtractor.js';
+import type { ExtractedEntity } from '../../domain/entities/ExtractedEntity.js';
+import { DEFAULT_DETECTORS, type EntityDetector } from './detectors.js';
+
+/**
+ * Implementação do EntityExtractor com detectores por expressão regular
+ * e validadores (dígitos verificadores de CPF/CNPJ, formato de CEP, valores em reais).
+ *
+ * Responsabilidades:
+ * - Executar os detectores na ordem de prioridade
+ * - Descartar trechos já reconhecidos por um detector anterior
+ *   (ex: os dígitos de um CNPJ não viram CPF ou valor)
+ * - Remover repetições (mesmo tipo e valor) mantendo a primeira ocorrência
+ *
+ * TypeScript puro: não depende do LLM nem de serviços externos.
+ */
+export class EntityExtractionPipeline implements EntityExtractor {
+  constructor(private readonly detectors: readonly EntityDetector[] = DEFAULT_DETECTORS) {}
+
+  /**
+   * Extrai as entidades do conteúdo, ordenadas pela posição no texto.
+   */
+  extract(content: string, reference: Date): ExtractedEntity[] {
+    const accepted: ExtractedEntity[] = [];
+    // Trechos já reconhecidos, inclusive repetições descartadas
+    const claimed: ExtractedEntity[] = [];
+    const seen = new Set<string>();
+
+    for (const detector of this.detectors) {
+      const found = detector
+        .detect(content, reference)
+        .sort((left, right) => left.start - right.start);
+
+      for (const entity of found) {
+        if (claimed.some((other) => overlaps(entity, other))) {
+          continue;
+        }
+        claimed.push(entity);
+
+        const key = `${entity.type}:${entity.value}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          accepted.push(entity);
+        }
+      }
+    }
+
+    return accepted.sort((left, right) => left.start - right.start);
+  }
+}
+
+/**
+ * Verifica se dois trechos do conteúdo se sobrepõem.
+ */
+function overlaps(left: ExtractedEntity, right: ExtractedEntity): boolean {
+  return left.start < right.end && right.start < left.end;
+}
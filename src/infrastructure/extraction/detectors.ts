@@ -0,0 +1,236 @@
+import type { EntityType, ExtractedEntity } from '../../domain/entities/ExtractedEntity.js';
+import {
+  buildDate,
+  isValidCnpj,
+  isValidCpf,
+  monthFromName,
+  normalizeCep,
+  parseBrlAmount,
+} from './validators.js';
+
+/**
+ * Detector de um tipo de entidade.
+ * Retorna todas as ocorrências válidas; sobreposições entre tipos
+ * são resolvidas pelo pipeline.
+ */
+export interface EntityDetector {
+  readonly type: EntityType;
+  detect(content: string, reference: Date): ExtractedEntity[];
+}
+
+/**
+ * Delimitadores dos números: evita reconhecer parte de um número maior
+ * (ex: um CPF dentro de um código de barras).
+ */
+const NUMBER_START = String.raw`(?<![\w./-])`;
+const NUMBER_END = String.raw`(?![\w/-]|[.,]\d)`;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+const ORDER_PATTERN =
+  /\b(?:pedido|ordem|order|protocolo)\s*(?:n[º°o]?\.?\s*|n[úu]mero\s*)?[:#]?\s*#?([A-Za-z0-9][A-Za-z0-9-]{3,24})\b/gi;
+
+const CNPJ_PATTERN = new RegExp(
+  `${NUMBER_START}(\\d{2}\\.\\d{3}\\.\\d{3}/\\d{4}-\\d{2}|\\d{14})${NUMBER_END}`,
+  'g'
+);
+
+const CPF_PATTERN = new RegExp(
+  `${NUMBER_START}(\\d{3}\\.\\d{3}\\.\\d{3}-\\d{2}|\\d{11})${NUMBER_END}`,
+  'g'
+);
+
+/** CEP formatado, ou 8 dígitos logo após a palavra "CEP" */
+const CEP_PATTERN = new RegExp(
+  `${NUMBER_START}(\\d{5}-\\d{3}|\\d{2}\\.\\d{3}-\\d{3})${NUMBER_END}|\\bcep:?\\s*(\\d{8})${NUMBER_END}`,
+  'gi'
+);
+
+/**
+ * Número em reais: com milhar ("1.234,56"), com decimal ("10,5" / "10.50") ou inteiro.
+ * O número precisa terminar ali: mais de 2 casas decimais ("3,333") não é um valor.
+ */
+const AMOUNT = String.raw`(?:\d{1,3}(?:\.\d{3})+(?:,\d{1,2})?|\d+[.,]\d{1,2}|\d+)(?![.,]?\d)`;
+const MULTIPLIER = String.raw`mil|milh(?:ão|ao|ões|oes)|mi`;
+
+/**
+ * "R$ 1.500,00", "R$ 5 mil" ou "1.500 reais", "2 mil reais".
+ * Não reconhece "R$ 3,333" (nem como "R$ 3").
+ */
+const MONEY_PATTERN = new RegExp(
+  `R\\$\\s*(${AMOUNT})(?:\\s*(${MULTIPLIER})(?!\\p{L}))?` +
+    `|(?<![\\d.,])(${AMOUNT})\\s*(?:(${MULTIPLIER})\\s+(?:de\\s+)?)?reais(?!\\p{L})`,
+  'giu'
+);
+
+/** "15/03/2025", "15/03/25", "15-03-2025" e "15/03" (mês com 2 dígitos: evita "24/7") */
+const NUMERIC_DATE_PATTERN =
+  /(?<![\d/.-])(\d{1,2})(?:\/(\d{2})(?:\/(\d{4}|\d{2}))?|-(\d{1,2})-(\d{4}))(?![\d/-]|\.\d)/g;
+
+const ISO_DATE_PATTERN = /(?<![\d-])(\d{4})-(\d{2})-(\d{2})(?![\d-])/g;
+
+const WRITTEN_DATE_PATTERN =
+  /(?<!\p{L}|\d)(\d{1,2})\s+de\s+(janeiro|fevereiro|março|marco|abril|maio|junho|julho|agosto|setembro|outubro|novembro|dezembro)(?:\s+de\s+(\d{4}))?(?!\p{L})/giu;
+
+/**
+ * E-mails (valor em minúsculas).
+ */
+const emailDetector: EntityDetector = {
+  type: 'email',
+  detect: (content) =>
+    collect('email', content, EMAIL_PATTERN, (match) => ({
+      text: match[0],
+      value: match[0].toLowerCase(),
+    })),
+};
+
+/**
+ * Números de pedido/protocolo citados após a palavra-chave (precisam ter ao menos um dígito).
+ */
+const orderNumberDetector: EntityDetector = {
+  type: 'order_number',
+  detect: (content) =>
+    collect('order_number', content, ORDER_PATTERN, (match) => {
+      const id = match[1] ?? '';
+      return /\d/.test(id)
+        ? { text: id, value: id.toUpperCase(), offset: match[0].lastIndexOf(id) }
+        : null;
+    }),
+};
+
+/**
+ * CNPJs com dígitos verificadores válidos.
+ */
+const cnpjDetector: EntityDetector = {
+  type: 'cnpj',
+  detect: (content) =>
+    collect('cnpj', content, CNPJ_PATTERN, (match) => {
+      const digits = match[0].replace(/\D/g, '');
+      return isValidCnpj(digits) ? { text: match[0], value: digits } : null;
+    }),
+};
+
+/**
+ * CPFs com dígitos verificadores válidos.
+ */
+const cpfDetector: EntityDetector = {
+  type: 'cpf',
+  detect: (content) =>
+    collect('cpf', content, CPF_PATTERN, (match) => {
+      const digits = match[0].replace(/\D/g, '');
+      return isValidCpf(digits) ? { text: match[0], value: digits } : null;
+    }),
+};
+
+/**
+ * CEPs no formato 00000-000 (ou 8 dígitos após "CEP").
+ */
+const cepDetector: EntityDetector = {
+  type: 'cep',
+  detect: (content) =>
+    collect('cep', content, CEP_PATTERN, (match) => {
+      const text = match[1] ?? match[2] ?? '';
+      const value = normalizeCep(text);
+      return value ? { text, value, offset: match[0].lastIndexOf(text) } : null;
+    }),
+};
+
+/**
+ * Valores em reais, com "R$" antes ou "reais" depois.
+ */
+const moneyDetector: EntityDetector = {
+  type: 'money',
+  detect: (content) =>
+    collect('money', content, MONEY_PATTERN, (match) => {
+      const value = parseBrlAmount(match[1] ?? match[3] ?? '', match[2] ?? match[4]);
+      return value ? { text: match[0], value } : null;
+    }),
+};
+
+/**
+ * Datas numéricas, ISO e por extenso ("15 de março").
+ * Datas sem ano usam o ano da data de referência.
+ */
+const dateDetector: EntityDetector = {
+  type: 'date',
+  detect: (content, reference) => {
+    const referenceYear = reference.getUTCFullYear();
+
+    return [
+      ...collect('date', content, NUMERIC_DATE_PATTERN, (match) => {
+        const [, day, slashMonth, slashYear, dashMonth, dashYear] = match;
+        const month = slashMonth ?? dashMonth;
+        const year = slashYear ?? dashYear;
+        const value = buildDate(
+          year !== undefined ? Number(year) : referenceYear,
+          Number(month),
+          Number(day)
+        );
+        return value ? { text: match[0], value } : null;
+      }),
+      ...collect('date', content, ISO_DATE_PATTERN, (match) => {
+        const value = buildDate(Number(match[1]), Number(match[2]), Number(match[3]));
+        return value ? { text: match[0], value } : null;
+      }),
+      ...collect('date', content, WRITTEN_DATE_PATTERN, (match) => {
+        const month = monthFromName(match[2] ?? '');
+        const year = match[3] !== undefined ? Number(match[3]) : referenceYear;
+        const value = month ? buildDate(year, month, Number(match[1])) : null;
+        return value ? { text: match[0], value } : null;
+      }),
+    ];
+  },
+};
+
+/**
+ * Detectores padrão, na ordem de prioridade de ENTITY_TYPES.
+ */
+export const DEFAULT_DETECTORS: readonly EntityDetector[] = [
+  emailDetector,
+  orderNumberDetector,
+  cnpjDetector,
+  cpfDetector,
+  cepDetector,
+  moneyDetector,
+  dateDetector,
+];
+
+/**
+ * Ocorrência reconhecida por um detector.
+ * offset: posição do trecho dentro do match (quando o match inclui uma palavra-chave).
+ */
+interface Occurrence {
+  text: string;
+  value: string;
+  offset?: number;
+}
+
+/**
+ * Percorre os matches do padrão e monta as entidades aceitas pelo conversor.
+ */
+function collect(
+  type: EntityType,
+  content: string,
+  pattern: RegExp,
+  convert: (match: RegExpMatchArray) => Occurrence | null
+): ExtractedEntity[] {
+  const found: ExtractedEntity[] = [];
+
+  for (const match of content.matchAll(pattern)) {
+    const occurrence = convert(match);
+    if (!occurrence) {
+      continue;
+    }
+
+    const start = (match.index ?? 0) + (occurrence.offset ?? 0);
+    found.push({
+      type,
+      value: occurrence.value,
+      text: occurrence.text,
+      start,
+      end: start + occurrence.text.length,
+    });
+  }
+
+  return found;
+}
@@ -0,0 +1,166 @@
+/**
+ * Validadores e conversores das entidades extraídas.
+ * Funções puras, sem dependências externas.
+ */
+
+/**
+ * Formatos aceitos de valor em reais: com milhar ("1.234,56"), com até 2 casas
+ * decimais ("10,5" / "10.50") ou inteiro.
+ */
+const BRL_AMOUNT_FORMAT = /^(?:\d{1,3}(?:\.\d{3})+(?:,\d{1,2})?|\d+(?:[.,]\d{1,2})?)$/;
+
+/**
+ * Multiplicadores aceitos após o valor (ex: "R$ 5 mil", "2,5 milhões de reais").
+ */
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  mil: 1_000,
+  mi: 1_000_000,
+  milhao: 1_000_000,
+  milhoes: 1_000_000,
+};
+
+/**
+ * Nomes dos meses (sem acentos), na ordem do calendário.
+ */
+const MONTH_NAMES = [
+  'janeiro',
+  'fevereiro',
+  'marco',
+  'abril',
+  'maio',
+  'junho',
+  'julho',
+  'agosto',
+  'setembro',
+  'outubro',
+  'novembro',
+  'dezembro',
+];
+
+/**
+ * Valida um CPF pelos dígitos verificadores.
+ * @param digits - CPF com 11 dígitos (sem pontuação)
+ */
+export function isValidCpf(digits: string): boolean {
+  if (!/^\d{11}$/.test(digits) || /^(\d)\1{10}$/.test(digits)) {
+    return false;
+  }
+
+  const numbers = [...digits].map(Number);
+  const checkDigit = (length: number): number => {
+    const sum = numbers
+      .slice(0, length)
+      .reduce((total, digit, index) => total + digit * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === numbers[9] && checkDigit(10) === numbers[10];
+}
+
+/**
+ * Valida um CNPJ pelos dígitos verificadores.
+ * @param digits - CNPJ com 14 dígitos (sem pontuação)
+ */
+export function isValidCnpj(digits: string): boolean {
+  if (!/^\d{14}$/.test(digits) || /^(\d)\1{13}$/.test(digits)) {
+    return false;
+  }
+
+  const numbers = [...digits].map(Number);
+  const checkDigit = (length: number): number => {
+    // Pesos de 2 a 9, da direita para a esquerda
+    const sum = numbers
+      .slice(0, length)
+      .reduce((total, digit, index) => total + digit * (((length - 1 - index) % 8) + 2), 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  return checkDigit(12) === numbers[12] && checkDigit(13) === numbers[13];
+}
+
+/**
+ * Normaliza um CEP para "00000-000".
+ * Retorna null se não tiver 8 dígitos ou estiver fora da faixa usada (01000-000 em diante).
+ */
+export function normalizeCep(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+
+  if (digits.length !== 8 || Number(digits) < 1_000_000) {
+    return null;
+  }
+
+  return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+}
+
+/**
+ * Converte um valor escrito em reais para decimal com 2 casas.
+ * Aceita separador de milhar "." e decimal "," (ex: "1.234,56"), decimal "."
+ * sem milhar (ex: "10.5") e multiplicador (ex: "2,5" + "mil").
+ * Retorna null se o valor for inválido (ex: mais de 2 casas decimais, "3,333") ou zero.
+ *
+ * @param amount - Número como escrito (ex: "1.234,56")
+ * @param multiplier - Multiplicador escrito após o número (ex: "mil", "milhões")
+ */
+export function parseBrlAmount(amount: string, multiplier?: string | undefined): string | null {
+  if (!BRL_AMOUNT_FORMAT.test(amount)) {
+    return null;
+  }
+
+  let normalized: string;
+
+  if (amount.includes(',')) {
+    normalized = amount.replace(/\./g, '').replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(amount)) {
+    normalized = amount.replace(/\./g, '');
+  } else {
+    normalized = amount;
+  }
+
+  const factor = multiplier ? AMOUNT_MULTIPLIERS[foldAccents(multiplier.toLowerCase())] : 1;
+  const value = Number(normalized);
+
+  if (factor === undefined || !Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+
+  // Centavos inteiros evitam erros de arredondamento de ponto flutuante
+  const cents = Math.round(value * factor * 100);
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Monta uma data de calendário válida no formato "AAAA-MM-DD".
+ * Anos com 2 dígitos são do século 21. Retorna null para datas inexistentes (ex: 30/02).
+ */
+export function buildDate(year: number, month: number, day: number): string | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+
+  if (fullYear < 1900 || fullYear > 2100 || month < 1 || month > 12 || day < 1) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Número do mês (1 a 12) pelo nome em português, com ou sem acento.
+ * Retorna null se o nome não for reconhecido.
+ */
+export function monthFromName(name: string): number | null {
+  const index = MONTH_NAMES.indexOf(foldAccents(name.toLowerCase()));
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Remove acentos (ex: "milhões" -> "milhoes").
+ */
+function foldAccents(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
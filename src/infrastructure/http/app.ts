@@ -1,17 +1,56 @@
 import express, { type Application } from 'express';
 import { createWebhookRoutes, type WebhookRoutesDependencies } from './routes/webhookRoutes.js';
+import { createMessageRoutes, type MessageRoutesDependencies } from './routes/messageRoutes.js';
+import { createContactRoutes, type ContactRoutesDependencies } from './routes/contactRoutes.js';
+import { createIntentRoutes, type IntentRoutesDependencies } from './routes/intentRoutes.js';
+import { createRuleRoutes, type RuleRoutesDependencies } from './routes/ruleRoutes.js';
+import {
+  createSubscriptionRoutes,
+  type SubscriptionRoutesDependencies,
+} from './routes/subscriptionRoutes.js';
+import {
+  createWebhookArchiveRoutes,
+  type WebhookArchiveRoutesDependencies,
+} from './routes/webhookArchiveRoutes.js';
+import { createQuarantineRoutes, type QuarantineRoutesDependencies } from './routes/quarantineRoutes.js';
+import { createTenantRoutes, type TenantRoutesDependencies } from './routes/tenantRoutes.js';
+import { createAdapterRoutes, type AdapterRoutesDependencies } from './routes/adapterRoutes.js';
+import { createProviderRoutes, type ProviderRoutesDependencies } from './routes/providerRoutes.js';
+import {
+  createClassificationCacheRoutes,
+  type ClassificationCacheRoutesDependencies,
+} from './routes/classificationCacheRoutes.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { createTenantContext } from './middleware/tenantContext.js';
 import { requestLogger } from './middleware/requestLogger.js';
+import { captureRawBody } from './middleware/rawBody.js';
+
+/**
+ * Dependências de todas as rotas da aplicação.
+ */
+export type AppDependencies = WebhookRoutesDependencies &
+  MessageRoutesDependencies &
+  ContactRoutesDependencies &
+  IntentRoutesDependencies &
+  RuleRoutesDependencies &
+  SubscriptionRoutesDependencies &
+  WebhookArchiveRoutesDependencies &
+  QuarantineRoutesDependencies &
+  TenantRoutesDependencies &
+  AdapterRoutesDependencies &
+  ProviderRoutesDependencies &
+  ClassificationCacheRoutesDependencies;
 
 /**
  * Configura e retorna a aplicação Express.
  * Recebe dependências por injeção.
  */
-export function createApp(deps: WebhookRoutesDependencies): Application {
+export function createApp(deps: AppDependencies): Application {
   const app = express();
 
   // Middlewares globais
-  app.use(express.json());
+  // Corpo bruto é preservado para verificação de assinatura dos webhooks
+  app.use(express.json({ verify: captureRawBody }));
   app.use(requestLogger);
 
   // Health check
@@ -19,9 +58,45 @@ export function createApp(deps: WebhookRoutesDependencies): Application {
     res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
+  // Provedores suportados (adapters registrados e seus recursos)
+  app.use('/providers', createProviderRoutes(deps));
+
   // Rotas de webhook com dependências injetadas
   app.use('/webhook', createWebhookRoutes(deps));
 
+  // Rotas da API restritas ao tenant do header X-Tenant
+  const tenantContext = createTenantContext(deps.tenantRepository);
+
+  // Rotas de consulta de mensagens
+  app.use('/messages', tenantContext, createMessageRoutes(deps));
+
+  // Rotas de contatos (leads)
+  app.use('/contacts', tenantContext, createContactRoutes(deps));
+
+  // Administração de tenants e contas nos provedores
+  app.use('/admin/tenants', createTenantRoutes(deps));
+
+  // Administração dos adapters configuráveis (provedores integrados por mapeamento)
+  app.use('/admin/adapters', createAdapterRoutes(deps));
+
+  // Administração do catálogo de intenções
+  app.use('/admin/intents', createIntentRoutes(deps));
+
+  // Cache de classificações (estatísticas e limpeza)
+  app.use('/admin/classification-cache', createClassificationCacheRoutes(deps));
+
+  // Administração das regras de automação
+  app.use('/admin/rules', createRuleRoutes(deps));
+
+  // Administração das assinaturas de eventos (notificações para CRMs)
+  app.use('/admin/subscriptions', createSubscriptionRoutes(deps));
+
+  // Arquivo de webhooks brutos e reprocessamento
+  app.use('/admin/webhooks', createWebhookArchiveRoutes(deps));
+
+  // Quarentena de payloads inválidos
+  app.use('/admin/quarantine', createQuarantineRoutes(deps));
+
   // Middleware de erro global (deve ser o último)
   app.use(errorHandler);
 
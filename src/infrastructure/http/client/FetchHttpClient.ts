@@ -0,0 +1,71 @@
+import type { HttpClient, HttpRequest, HttpResponse } from '../../../adapters/interfaces/HttpClient.js';
+
+/**
+ * Configuração do cliente HTTP.
+ */
+export interface FetchHttpClientConfig {
+  /** Tempo máximo de cada requisição (ms) */
+  timeoutMs: number;
+}
+
+/**
+ * Implementação do HttpClient usando o fetch nativo do Node.
+ *
+ * Corpo é enviado como JSON (strings são enviadas como estão); a resposta é parseada como JSON quando possível
+ * e devolvida como texto caso contrário. Status não-2xx não rejeitam.
+ */
+export class FetchHttpClient implements HttpClient {
+  constructor(private readonly config: FetchHttpClientConfig) {}
+
+  async request(request: HttpRequest): Promise<HttpResponse> {
+    const hasBody = request.body !== undefined;
+
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: {
+        Accept: 'application/json',
+        ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+        ...request.headers,
+      },
+      ...(hasBody ? { body: this.serializeBody(request.body) } : {}),
+      signal: this.buildSignal(request.signal),
+    });
+
+    const text = await response.text();
+
+    return {
+      status: response.status,
+      body: this.parseBody(text),
+    };
+  }
+
+  /**
+   * Timeout do cliente, combinado com o sinal de cancelamento da requisição (se houver).
+   */
+  private buildSignal(signal: AbortSignal | undefined): AbortSignal {
+    const timeout = AbortSignal.timeout(this.config.timeoutMs);
+    return signal ? AbortSignal.any([timeout, signal]) : timeout;
+  }
+
+  /**
+   * Serializa o corpo da requisição (strings já estão serializadas).
+   */
+  private serializeBody(body: unknown): string {
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  /**
+   * Converte o corpo em JSON, mantendo o texto bruto se não for JSON válido.
+   */
+  private parseBody(text: string): unknown {
+    if (!text) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+}
@@ -2,6 +2,8 @@ import type { Request, Response, NextFunction } from 'express';
 import {
   WebhookError,
   WebhookValidationError,
+  InvalidRequestError,
+  MessageSendError,
   DuplicateMessageError,
 } from '../../../domain/errors/WebhookErrors.js';
 
@@ -40,7 +42,12 @@ export function errorHandler(
     };
 
     // Adiciona detalhes específicos para erros de validação
-    if (err instanceof WebhookValidationError) {
+    if (err instanceof WebhookValidationError || err instanceof InvalidRequestError) {
+      response.details = err.getDetails();
+    }
+
+    // Resposta do provedor em falhas de envio
+    if (err instanceof MessageSendError) {
       response.details = err.getDetails();
     }
 
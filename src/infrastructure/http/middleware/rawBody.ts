@@ -0,0 +1,26 @@
+import type { Request } from 'express';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+/**
+ * Request com o corpo bruto preservado.
+ * Necessário para verificação de assinaturas HMAC (ex: X-Hub-Signature-256),
+ * que são calculadas sobre os bytes exatos recebidos, não sobre o JSON parseado.
+ */
+interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
+/**
+ * Callback `verify` do express.json() que guarda o corpo bruto na requisição.
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * Obtém o corpo bruto capturado por `captureRawBody`.
+ * Retorna buffer vazio se a requisição não tinha corpo JSON.
+ */
+export function getRawBody(req: Request): Buffer {
+  return (req as RawBodyRequest).rawBody ?? Buffer.alloc(0);
+}
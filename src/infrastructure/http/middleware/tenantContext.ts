@@ -0,0 +1,59 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import type { Tenant } from '../../../domain/entities/Tenant.js';
+import type { TenantRepository } from '../../../usecases/interfaces/TenantRepository.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+import { parseRequest } from '../routes/requestParams.js';
+
+/**
+ * Request com o tenant identificado pelo header X-Tenant.
+ */
+interface TenantRequest extends Request {
+  tenant?: Tenant;
+}
+
+/**
+ * Schema do header X-Tenant (slug do tenant).
+ */
+const TenantHeaderSchema = z.object({
+  'x-tenant': z.string().trim().min(1, 'Header X-Tenant obrigatório'),
+});
+
+/**
+ * Cria o middleware que identifica o tenant da requisição pelo header X-Tenant.
+ * Todas as consultas e envios das rotas seguintes ficam restritos a esse tenant.
+ *
+ * @throws InvalidRequestError se o header estiver ausente
+ * @throws ResourceNotFoundError se o tenant não existir ou estiver inativo
+ */
+export function createTenantContext(tenantRepository: TenantRepository): RequestHandler {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const { 'x-tenant': slug } = parseRequest(TenantHeaderSchema, req.headers);
+      const tenant = await tenantRepository.findBySlug(slug);
+
+      if (!tenant || !tenant.active) {
+        throw new ResourceNotFoundError('Tenant', slug);
+      }
+
+      (req as TenantRequest).tenant = tenant;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Obtém o tenant identificado por `createTenantContext`.
+ * @throws Error se o middleware não foi aplicado à rota (erro de configuração)
+ */
+export function getTenant(req: Request): Tenant {
+  const { tenant } = req as TenantRequest;
+
+  if (!tenant) {
+    throw new Error('Tenant não identificado: middleware createTenantContext ausente');
+  }
+
+  return tenant;
+}
@@ -0,0 +1,234 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AdapterMappingRepository } from '../../../usecases/interfaces/AdapterMappingRepository.js';
+import type { AdapterMappingSync } from '../../cache/AdapterMappingSync.js';
+import { ConfigurableAdapter } from '../../../adapters/configurable/ConfigurableAdapter.js';
+import { isValidSelector } from '../../../adapters/configurable/FieldSelector.js';
+import {
+  ResourceConflictError,
+  ResourceNotFoundError,
+} from '../../../domain/errors/WebhookErrors.js';
+import { getParam, parseRequest } from './requestParams.js';
+
+/**
+ * Seletor no estilo JSONPath (ex: "$.messages[*].from").
+ */
+const SelectorSchema = z
+  .string()
+  .trim()
+  .max(500)
+  .refine(isValidSelector, 'Seletor inválido (ex: "$.message.from", "$.entry[*]")');
+
+/**
+ * Schema do documento de mapeamento (ver AdapterMappingDefinition).
+ */
+const DefinitionSchema = z.object({
+  detect: z
+    .array(
+      z.object({
+        path: SelectorSchema,
+        equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+      })
+    )
+    .min(1, 'Informe ao menos uma condição de detecção')
+    .max(10),
+  accountId: SelectorSchema,
+  messages: SelectorSchema.nullable().default(null),
+  fields: z.object({
+    externalId: SelectorSchema,
+    phone: SelectorSchema,
+    name: SelectorSchema.nullable().default(null),
+    content: SelectorSchema,
+    timestamp: z.object({
+      path: SelectorSchema,
+      unit: z.enum(['seconds', 'milliseconds', 'iso']),
+    }),
+    fromMe: SelectorSchema.nullable().default(null),
+  }),
+  tokenHeader: z
+    .string()
+    .regex(/^[A-Za-z0-9-]+$/, 'Nome de header inválido')
+    .max(100)
+    .nullable()
+    .default(null),
+});
+
+/**
+ * Schema do corpo de POST /admin/adapters.
+ * O provedor vira o segmento da URL de webhook (/webhook/:provider)
+ * e o provider das contas dos tenants.
+ */
+const CreateMappingBodySchema = z.object({
+  provider: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, 'Apenas letras minúsculas, números e "-"')
+    .max(50),
+  name: z.string().trim().min(1).max(200),
+  active: z.boolean().default(true),
+  definition: DefinitionSchema,
+});
+
+/**
+ * Schema do corpo de PATCH /admin/adapters/:provider.
+ * O documento de mapeamento é substituído por inteiro.
+ */
+const UpdateMappingBodySchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    active: z.boolean().optional(),
+    definition: DefinitionSchema.optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Informe ao menos um campo para alterar',
+  });
+
+/**
+ * Schema do corpo de POST /admin/adapters/preview.
+ */
+const PreviewBodySchema = z.object({
+  definition: DefinitionSchema,
+  payload: z.unknown(),
+});
+
+/**
+ * Dependências necessárias para as rotas de adapters configuráveis.
+ */
+export interface AdapterRoutesDependencies {
+  adapterMappingRepository: AdapterMappingRepository;
+  adapterMappingSync: AdapterMappingSync;
+}
+
+/**
+ * Factory function para criar rotas administrativas dos adapters configuráveis.
+ * Toda alteração sincroniza o registry de adapters: o provedor passa a receber
+ * webhooks sem deploy.
+ */
+export function createAdapterRoutes(deps: AdapterRoutesDependencies): Router {
+  const router = Router();
+  const { adapterMappingRepository, adapterMappingSync } = deps;
+
+  /**
+   * GET /admin/adapters
+   * Lista todos os mapeamentos (ativos e inativos).
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mappings = await adapterMappingRepository.findAll();
+      res.status(200).json({ data: mappings });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/adapters/preview
+   * Aplica um mapeamento a um payload de exemplo sem salvar nada.
+   * Retorna se o payload seria detectado, a conta e as mensagens normalizadas,
+   * ou 400 com os campos que falharam.
+   */
+  router.post('/preview', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { definition, payload } = parseRequest(PreviewBodySchema, req.body);
+      const now = new Date();
+      const adapter = new ConfigurableAdapter({
+        id: 'preview',
+        provider: 'preview',
+        name: 'preview',
+        active: true,
+        definition,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const detected = adapter.canHandle(payload);
+      const accountId = adapter.extractAccountId(payload) ?? null;
+      const { messages } = adapter.normalize(adapter.validate(payload));
+
+      res.status(200).json({ data: { detected, accountId, messages } });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/adapters/:provider
+   * Retorna o mapeamento de um provedor.
+   */
+  router.get('/:provider', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const provider = getParam(req.params['provider']) ?? '';
+      const mapping = await adapterMappingRepository.findByProvider(provider);
+
+      if (!mapping) {
+        throw new ResourceNotFoundError('Mapeamento', provider);
+      }
+
+      res.status(200).json({ data: mapping });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/adapters
+   * Cadastra o mapeamento de um provedor e registra o adapter.
+   * Retorna 409 se o provedor já tiver mapeamento ou for um provedor nativo.
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseRequest(CreateMappingBodySchema, req.body);
+
+      if (adapterMappingSync.isBuiltIn(body.provider)) {
+        throw new ResourceConflictError('Provedor', body.provider);
+      }
+
+      const mapping = await adapterMappingRepository.create(body);
+      await adapterMappingSync.sync();
+
+      res.status(201).json({ data: mapping });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /admin/adapters/:provider
+   * Altera nome, status ativo e/ou o documento de mapeamento.
+   * Mapeamentos inativos deixam de receber webhooks.
+   */
+  router.patch('/:provider', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const provider = getParam(req.params['provider']) ?? '';
+      const body = parseRequest(UpdateMappingBodySchema, req.body);
+
+      const mapping = await adapterMappingRepository.update(provider, {
+        ...(body.name !== undefined ? { name: body.name } : {}),
+        ...(body.active !== undefined ? { active: body.active } : {}),
+        ...(body.definition !== undefined ? { definition: body.definition } : {}),
+      });
+      await adapterMappingSync.sync();
+
+      res.status(200).json({ data: mapping });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /admin/adapters/:provider
+   * Remove o mapeamento e o adapter. Mensagens já recebidas são mantidas.
+   */
+  router.delete('/:provider', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const provider = getParam(req.params['provider']) ?? '';
+      await adapterMappingRepository.delete(provider);
+      await adapterMappingSync.sync();
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,46 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import type { ClassificationCache } from '../../../usecases/interfaces/ClassificationCache.js';
+
+/**
+ * Dependências necessárias para as rotas do cache de classificações.
+ */
+export interface ClassificationCacheRoutesDependencies {
+  classificationCache: ClassificationCache;
+}
+
+/**
+ * Factory function para criar rotas administrativas do cache de classificações.
+ * Recebe dependências por injeção.
+ */
+export function createClassificationCacheRoutes(deps: ClassificationCacheRoutesDependencies): Router {
+  const router = Router();
+  const { classificationCache } = deps;
+
+  /**
+   * GET /admin/classification-cache
+   * Estatísticas do cache: acertos, faltas e entradas válidas da versão atual.
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const stats = await classificationCache.getStats();
+      res.status(200).json({ data: stats });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /admin/classification-cache
+   * Remove todas as entradas (as próximas mensagens voltam a ser classificadas pelo LLM).
+   */
+  router.delete('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      await classificationCache.clear();
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
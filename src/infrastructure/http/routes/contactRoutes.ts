@@ -0,0 +1,164 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { ContactRepository } from '../../../usecases/interfaces/ContactRepository.js';
+import type { MessageRepository } from '../../../usecases/interfaces/MessageRepository.js';
+import type { LeadProfileRepository } from '../../../usecases/interfaces/LeadProfileRepository.js';
+import { ENTITY_TYPES } from '../../../domain/entities/ExtractedEntity.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+import { getTenant } from '../middleware/tenantContext.js';
+import { getParam, parseRequest } from './requestParams.js';
+
+/**
+ * Tamanho de página padrão e máximo das listagens.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Schema dos filtros de GET /contacts.
+ */
+const ListContactsQuerySchema = z.object({
+  search: z.string().min(1).optional(),
+  lastIntent: z.string().min(1).optional(),
+  tag: z.string().min(1).optional(),
+  minLeadScore: z.coerce.number().int().min(0).max(100).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+/**
+ * Schema da paginação de GET /contacts/:id/messages.
+ */
+const ListContactMessagesQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+/**
+ * Schema dos filtros de GET /contacts/:id/entities.
+ */
+const ListContactEntitiesQuerySchema = z.object({
+  type: z.enum(ENTITY_TYPES).optional(),
+});
+
+/**
+ * Dependências necessárias para as rotas de contatos.
+ */
+export interface ContactRoutesDependencies {
+  contactRepository: ContactRepository;
+  messageRepository: MessageRepository;
+  leadProfileRepository: LeadProfileRepository;
+}
+
+/**
+ * Factory function para criar rotas de contatos (leads).
+ * Recebe dependências por injeção. Requer o tenant da requisição (createTenantContext).
+ */
+export function createContactRoutes(deps: ContactRoutesDependencies): Router {
+  const router = Router();
+  const { contactRepository, messageRepository, leadProfileRepository } = deps;
+
+  /**
+   * GET /contacts
+   * Lista contatos do tenant ordenados pela última mensagem.
+   *
+   * Filtros: search (nome ou telefone), lastIntent, tag, minLeadScore, cursor, limit.
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseRequest(ListContactsQuerySchema, req.query);
+      const page = await contactRepository.findMany({ ...query, tenantId: getTenant(req).id });
+
+      res.status(200).json({
+        data: page.items,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /contacts/:id/lead
+   * Retorna o perfil de qualificação (BANT + score) acumulado do contato.
+   * data é null enquanto nenhuma mensagem do contato foi analisada.
+   */
+  router.get('/:id/lead', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+
+      // Contatos de outros tenants são tratados como inexistentes
+      const contact = await contactRepository.findById(id);
+      if (!contact || contact.tenantId !== getTenant(req).id) {
+        throw new ResourceNotFoundError('Contato', id);
+      }
+
+      const profile = await leadProfileRepository.findByContact(contact.id);
+
+      res.status(200).json({ data: profile });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /contacts/:id/entities
+   * Lista as entidades extraídas das mensagens do contato (e-mail, CPF/CNPJ,
+   * CEP, pedido, data, valor), agregadas por tipo e valor.
+   *
+   * Filtros: type.
+   */
+  router.get('/:id/entities', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const { type } = parseRequest(ListContactEntitiesQuerySchema, req.query);
+
+      // Contatos de outros tenants são tratados como inexistentes
+      const contact = await contactRepository.findById(id);
+      if (!contact || contact.tenantId !== getTenant(req).id) {
+        throw new ResourceNotFoundError('Contato', id);
+      }
+
+      const entities = await messageRepository.findEntitiesByContact(contact.id, type);
+
+      res.status(200).json({ data: entities });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /contacts/:id/messages
+   * Lista as mensagens do contato (todas as conversas/provedores),
+   * da mais recente para a mais antiga.
+   */
+  router.get('/:id/messages', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const query = parseRequest(ListContactMessagesQuerySchema, req.query);
+      const tenant = getTenant(req);
+
+      // Contatos de outros tenants são tratados como inexistentes
+      const contact = await contactRepository.findById(id);
+      if (!contact || contact.tenantId !== tenant.id) {
+        throw new ResourceNotFoundError('Contato', id);
+      }
+
+      const page = await messageRepository.findMany({
+        ...query,
+        tenantId: tenant.id,
+        contactId: contact.id,
+      });
+
+      res.status(200).json({
+        contact,
+        data: page.items,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,144 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { IntentRepository } from '../../../usecases/interfaces/IntentRepository.js';
+import type { IntentCatalog } from '../../../usecases/interfaces/IntentCatalog.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+import { getParam, parseRequest } from './requestParams.js';
+
+/**
+ * Campos editáveis de uma intenção.
+ */
+const IntentDescriptionSchema = z.string().trim().min(1).max(500);
+const IntentExamplesSchema = z.array(z.string().trim().min(1).max(200)).max(50);
+
+/**
+ * Schema do corpo de POST /admin/intents.
+ * A chave vira o valor gravado em `intent` nas mensagens classificadas.
+ */
+const CreateIntentBodySchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z0-9_]+$/, 'Apenas letras minúsculas, números e "_"')
+    .max(50),
+  description: IntentDescriptionSchema,
+  examples: IntentExamplesSchema.default([]),
+  active: z.boolean().default(true),
+});
+
+/**
+ * Schema do corpo de PATCH /admin/intents/:key.
+ */
+const UpdateIntentBodySchema = z
+  .object({
+    description: IntentDescriptionSchema.optional(),
+    examples: IntentExamplesSchema.optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Informe ao menos um campo para alterar',
+  });
+
+/**
+ * Dependências necessárias para as rotas do catálogo de intenções.
+ */
+export interface IntentRoutesDependencies {
+  intentRepository: IntentRepository;
+  intentCatalog: IntentCatalog;
+}
+
+/**
+ * Factory function para criar rotas administrativas do catálogo de intenções.
+ * Toda alteração invalida o cache usado pelos classificadores.
+ */
+export function createIntentRoutes(deps: IntentRoutesDependencies): Router {
+  const router = Router();
+  const { intentRepository, intentCatalog } = deps;
+
+  /**
+   * GET /admin/intents
+   * Lista todas as intenções (ativas e inativas).
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const intents = await intentRepository.findAll();
+      res.status(200).json({ data: intents });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/intents/:key
+   * Retorna uma intenção pela chave.
+   */
+  router.get('/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = getParam(req.params['key']) ?? '';
+      const intent = await intentRepository.findByKey(key);
+
+      if (!intent) {
+        throw new ResourceNotFoundError('Intenção', key);
+      }
+
+      res.status(200).json({ data: intent });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/intents
+   * Cria uma intenção. Retorna 409 se a chave já existir.
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseRequest(CreateIntentBodySchema, req.body);
+      const intent = await intentRepository.create(body);
+      intentCatalog.invalidate();
+
+      res.status(201).json({ data: intent });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /admin/intents/:key
+   * Altera descrição, exemplos e/ou status ativo.
+   */
+  router.patch('/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = getParam(req.params['key']) ?? '';
+      const body = parseRequest(UpdateIntentBodySchema, req.body);
+
+      const intent = await intentRepository.update(key, {
+        ...(body.description !== undefined ? { description: body.description } : {}),
+        ...(body.examples !== undefined ? { examples: body.examples } : {}),
+        ...(body.active !== undefined ? { active: body.active } : {}),
+      });
+      intentCatalog.invalidate();
+
+      res.status(200).json({ data: intent });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /admin/intents/:key
+   * Remove a intenção do catálogo. Mensagens já classificadas não são alteradas.
+   */
+  router.delete('/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = getParam(req.params['key']) ?? '';
+      await intentRepository.delete(key);
+      intentCatalog.invalidate();
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
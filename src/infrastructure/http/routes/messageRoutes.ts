@@ -0,0 +1,225 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { MessageRepository } from '../../../usecases/interfaces/MessageRepository.js';
+import type { SendMessageUseCase } from '../../../usecases/SendMessageUseCase.js';
+import type { ReviewClassificationUseCase } from '../../../usecases/ReviewClassificationUseCase.js';
+import type { AdapterRegistry } from '../../../adapters/registry/AdapterRegistry.js';
+import { ENTITY_TYPES } from '../../../domain/entities/ExtractedEntity.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+import { getTenant } from '../middleware/tenantContext.js';
+import { assertKnownProviders, getParam, parseRequest } from './requestParams.js';
+
+/**
+ * Tamanho de página padrão e máximo da listagem.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Schema dos filtros de GET /messages.
+ * Query params chegam como string e são convertidos aqui.
+ */
+const ListMessagesQuerySchema = z
+  .object({
+    provider: z.string().min(1).optional(),
+    contactPhone: z.string().regex(/^\d+$/, 'Apenas dígitos').optional(),
+    intent: z.string().min(1).optional(),
+    minConfidence: z.coerce.number().min(0).max(1).optional(),
+    maxConfidence: z.coerce.number().min(0).max(1).optional(),
+    isFromMe: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    search: z.string().min(1).optional(),
+    entityType: z.enum(ENTITY_TYPES).optional(),
+    entityValue: z.string().min(1).max(200).optional(),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  })
+  .refine(
+    (query) =>
+      query.minConfidence === undefined ||
+      query.maxConfidence === undefined ||
+      query.minConfidence <= query.maxConfidence,
+    { message: 'minConfidence deve ser menor ou igual a maxConfidence', path: ['minConfidence'] }
+  )
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from deve ser anterior ou igual a to',
+    path: ['from'],
+  });
+
+/**
+ * Schema do corpo de POST /messages/send.
+ * O provedor deve ter adapter registrado; sem sender, o envio retorna 501.
+ */
+const SendMessageBodySchema = z.object({
+  provider: z.string().min(1),
+  accountId: z.string().uuid().optional(),
+  phone: z.string().regex(/^\d{10,15}$/, 'Apenas dígitos, com DDI'),
+  text: z.string().min(1).max(4096),
+});
+
+/**
+ * Schema dos filtros de GET /messages/review-queue.
+ */
+const ReviewQueueQuerySchema = z.object({
+  threshold: z.coerce.number().min(0).max(1).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+/**
+ * Schema do corpo de PATCH /messages/:id/classification.
+ * A intenção deve estar ativa no catálogo.
+ */
+const ReviewClassificationBodySchema = z.object({
+  intent: z.string().min(1).max(50),
+});
+
+/**
+ * Dependências necessárias para as rotas de mensagens.
+ */
+export interface MessageRoutesDependencies {
+  messageRepository: MessageRepository;
+  sendMessageUseCase: SendMessageUseCase;
+  reviewClassificationUseCase: ReviewClassificationUseCase;
+  adapterRegistry: AdapterRegistry;
+}
+
+/**
+ * Factory function para criar rotas de consulta e envio de mensagens.
+ * Recebe dependências por injeção. Requer o tenant da requisição (createTenantContext).
+ */
+export function createMessageRoutes(deps: MessageRoutesDependencies): Router {
+  const router = Router();
+  const { messageRepository, sendMessageUseCase, reviewClassificationUseCase, adapterRegistry } = deps;
+
+  /**
+   * GET /messages
+   * Lista mensagens do tenant com filtros e paginação por cursor.
+   *
+   * Filtros: provider, contactPhone, intent, minConfidence, maxConfidence,
+   * isFromMe, from, to (timestamp ISO), search (texto), entityType, entityValue
+   * (entidade extraída do conteúdo), cursor, limit.
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseRequest(ListMessagesQuerySchema, req.query);
+      const page = await messageRepository.findMany({ ...query, tenantId: getTenant(req).id });
+
+      res.status(200).json({
+        data: page.items,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /messages/review-queue
+   * Fila de revisão: mensagens com classificação automática abaixo do limite
+   * de confiança (REVIEW_CONFIDENCE_THRESHOLD ou `threshold`) e ainda não corrigidas.
+   * Filtros: threshold, cursor, limit.
+   */
+  router.get('/review-queue', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseRequest(ReviewQueueQuerySchema, req.query);
+      const page = await reviewClassificationUseCase.listQueue({ ...query, tenantId: getTenant(req).id });
+
+      res.status(200).json({
+        data: page.items,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /messages/:id
+   * Busca uma mensagem do tenant pelo ID interno.
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const message = await messageRepository.findById(id);
+
+      // Mensagens de outros tenants são tratadas como inexistentes
+      if (!message || message.tenantId !== getTenant(req).id) {
+        throw new ResourceNotFoundError('Mensagem', id);
+      }
+
+      res.status(200).json({ data: message });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /messages/:id/classification-history
+   * Histórico de classificações da mensagem (automáticas e correções manuais),
+   * da mais antiga para a mais recente.
+   */
+  router.get('/:id/classification-history', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const message = await messageRepository.findById(id);
+
+      if (!message || message.tenantId !== getTenant(req).id) {
+        throw new ResourceNotFoundError('Mensagem', id);
+      }
+
+      const history = await messageRepository.findClassificationHistory(id);
+
+      res.status(200).json({ data: history });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /messages/:id/classification
+   * Corrige manualmente a intenção de uma mensagem recebida.
+   * A correção é registrada no histórico com source "human" e confiança 1.
+   */
+  router.patch('/:id/classification', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const body = parseRequest(ReviewClassificationBodySchema, req.body);
+
+      const { message } = await reviewClassificationUseCase.execute({
+        tenantId: getTenant(req).id,
+        messageId: id,
+        intent: body.intent,
+      });
+
+      res.status(200).json({ data: message });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /messages/send
+   * Envia uma mensagem de texto pelo provedor informado e a persiste
+   * como mensagem enviada (isFromMe: true).
+   * A conta remetente é `accountId` ou, se ausente, a mais antiga do tenant no provedor.
+   */
+  router.post('/send', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseRequest(SendMessageBodySchema, req.body);
+      assertKnownProviders(adapterRegistry, [body.provider]);
+
+      const { message } = await sendMessageUseCase.execute({ ...body, tenantId: getTenant(req).id });
+
+      res.status(201).json({ data: message });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
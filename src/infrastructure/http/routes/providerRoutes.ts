@@ -0,0 +1,39 @@
+import { Router, type Request, type Response } from 'express';
+import type { AdapterRegistry } from '../../../adapters/registry/AdapterRegistry.js';
+import type { SenderRegistry } from '../../../adapters/registry/SenderRegistry.js';
+
+/**
+ * Dependências necessárias para as rotas de provedores.
+ */
+export interface ProviderRoutesDependencies {
+  adapterRegistry: AdapterRegistry;
+  senderRegistry: SenderRegistry;
+}
+
+/**
+ * Factory function para criar as rotas de consulta dos provedores suportados.
+ * A lista vem do AdapterRegistry (adapters nativos e configuráveis).
+ */
+export function createProviderRoutes(deps: ProviderRoutesDependencies): Router {
+  const router = Router();
+  const { adapterRegistry, senderRegistry } = deps;
+
+  /**
+   * GET /providers
+   * Lista os provedores com nome, tipos de mensagem e recursos
+   * (verificação de assinatura, desafio de verificação, status, envio).
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    const providers = adapterRegistry.describeProviders().map((descriptor) => ({
+      ...descriptor,
+      capabilities: {
+        ...descriptor.capabilities,
+        sending: senderRegistry.hasSender(descriptor.provider),
+      },
+    }));
+
+    res.status(200).json({ data: providers });
+  });
+
+  return router;
+}
@@ -0,0 +1,118 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { RawWebhookRepository } from '../../../usecases/interfaces/RawWebhookRepository.js';
+import type { RetryQuarantineUseCase } from '../../../usecases/RetryQuarantineUseCase.js';
+import type { AdapterRegistry } from '../../../adapters/registry/AdapterRegistry.js';
+import { assertKnownProviders, parseRequest } from './requestParams.js';
+
+/**
+ * Tamanho de página padrão e máximo da listagem.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Tamanho padrão e máximo do lote de reprocessamento.
+ */
+const DEFAULT_RETRY_BATCH_SIZE = 100;
+const MAX_RETRY_BATCH_SIZE = 500;
+
+/**
+ * Schema dos filtros de GET /admin/quarantine/items.
+ */
+const ListQuarantineQuerySchema = z.object({
+  provider: z.string().min(1).optional(),
+  path: z.string().min(1).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+/**
+ * Schema do corpo de POST /admin/quarantine/retry.
+ * O provedor deve ter adapter registrado.
+ */
+const RetryQuarantineBodySchema = z.object({
+  provider: z.string().min(1),
+  cursor: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(MAX_RETRY_BATCH_SIZE).default(DEFAULT_RETRY_BATCH_SIZE),
+  includeUnauthenticated: z.boolean().default(false),
+});
+
+/**
+ * Dependências necessárias para as rotas da quarentena.
+ */
+export interface QuarantineRoutesDependencies {
+  rawWebhookRepository: RawWebhookRepository;
+  retryQuarantineUseCase: RetryQuarantineUseCase;
+  adapterRegistry: AdapterRegistry;
+}
+
+/**
+ * Factory function para criar rotas administrativas da quarentena
+ * (webhooks com payload inválido).
+ * Recebe dependências por injeção.
+ */
+export function createQuarantineRoutes(deps: QuarantineRoutesDependencies): Router {
+  const router = Router();
+  const { rawWebhookRepository, retryQuarantineUseCase, adapterRegistry } = deps;
+
+  /**
+   * GET /admin/quarantine
+   * Contagem dos webhooks em quarentena por provedor e caminho que falhou
+   * (maiores contagens primeiro).
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const groups = await rawWebhookRepository.summarizeQuarantine();
+      res.status(200).json({ data: groups });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/quarantine/items
+   * Lista os webhooks em quarentena, com as issues do Zod.
+   * Filtros: provider, path (caminho que falhou), cursor, limit.
+   */
+  router.get('/items', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseRequest(ListQuarantineQuerySchema, req.query);
+      const page = await rawWebhookRepository.findMany({
+        provider: query.provider,
+        failurePath: query.path,
+        status: 'quarantined',
+        cursor: query.cursor,
+        limit: query.limit,
+      });
+
+      res.status(200).json({
+        data: page.items,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/quarantine/retry
+   * Reprocessa um lote de webhooks em quarentena do provedor com o adapter atual
+   * (usar após o deploy da correção do schema). Corpo: provider, cursor, limit e
+   * includeUnauthenticated (inclui itens de provedores sem verificação de assinatura).
+   */
+  router.post('/retry', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseRequest(RetryQuarantineBodySchema, req.body);
+      assertKnownProviders(adapterRegistry, [body.provider]);
+
+      const result = await retryQuarantineUseCase.execute(body);
+
+      res.status(200).json({ data: result });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,53 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { AdapterRegistry } from '../../../adapters/registry/AdapterRegistry.js';
+import {
+  InvalidRequestError,
+  UnknownProviderError,
+} from '../../../domain/errors/WebhookErrors.js';
+
+/**
+ * Extrai valor de param (pode ser string ou array).
+ */
+export function getParam(value: string | string[] | undefined): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+  return undefined;
+}
+
+/**
+ * Extrai valor de query param (pode ser string, array ou undefined).
+ */
+export function getQueryParam(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+  return undefined;
+}
+
+/**
+ * Valida query/body da requisição com um schema Zod.
+ * @throws InvalidRequestError se inválido (fail-fast)
+ */
+export function parseRequest<TOutput>(
+  schema: ZodType<TOutput, ZodTypeDef, unknown>,
+  value: unknown
+): TOutput {
+  const result = schema.safeParse(value);
+
+  if (!result.success) {
+    throw new InvalidRequestError(result.error);
+  }
+
+  return result.data;
+}
+
+/**
+ * Garante que os provedores informados têm adapter registrado (nativo ou configurável).
+ * @throws UnknownProviderError com o primeiro provedor desconhecido
+ */
+export function assertKnownProviders(adapterRegistry: AdapterRegistry, providers: string[]): void {
+  const unknown = providers.find((provider) => !adapterRegistry.hasAdapter(provider));
+
+  if (unknown !== undefined) {
+    throw new UnknownProviderError(unknown);
+  }
+}
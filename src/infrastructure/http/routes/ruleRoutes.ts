@@ -0,0 +1,225 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AutomationRuleRepository } from '../../../usecases/interfaces/AutomationRuleRepository.js';
+import type { RuleExecutionRepository } from '../../../usecases/interfaces/RuleExecutionRepository.js';
+import type { AdapterRegistry } from '../../../adapters/registry/AdapterRegistry.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+import { assertKnownProviders, getParam, parseRequest } from './requestParams.js';
+
+/**
+ * Tamanho de página padrão e máximo do log de execuções.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Schema das condições da regra.
+ * Campos omitidos não restringem a regra. Os provedores devem ter adapter registrado.
+ */
+const RuleConditionsSchema = z
+  .object({
+    intents: z.array(z.string().min(1)).default([]),
+    minConfidence: z.number().min(0).max(1).nullable().default(null),
+    providers: z.array(z.string().min(1)).default([]),
+    startHour: z.number().int().min(0).max(23).nullable().default(null),
+    endHour: z.number().int().min(0).max(24).nullable().default(null),
+    contactIsNew: z.boolean().nullable().default(null),
+  })
+  // Início igual ao fim (ex: 9 e 9, ou só endHour 0) seria uma janela que nunca casa
+  .refine(
+    ({ startHour, endHour }) =>
+      (startHour === null && endHour === null) || (startHour ?? 0) !== (endHour ?? 24),
+    {
+      message: 'A janela de horário não pode ser vazia (startHour igual a endHour)',
+      path: ['endHour'],
+    }
+  );
+
+/**
+ * Schema das ações da regra (união discriminada por `type`).
+ */
+const RuleActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('send_reply'),
+    template: z.string().min(1).max(4096),
+  }),
+  z.object({
+    type: z.literal('tag_contact'),
+    tags: z.array(z.string().trim().min(1).max(50)).min(1),
+  }),
+  z.object({
+    type: z.literal('call_webhook'),
+    url: z.string().url(),
+    headers: z.record(z.string()).default({}),
+  }),
+]);
+
+/**
+ * Schema do corpo de POST /admin/rules.
+ */
+const CreateRuleBodySchema = z.object({
+  tenantId: z.string().uuid().nullable().default(null),
+  name: z.string().trim().min(1).max(200),
+  active: z.boolean().default(true),
+  priority: z.number().int().default(0),
+  conditions: RuleConditionsSchema.default({}),
+  actions: z.array(RuleActionSchema).min(1),
+});
+
+/**
+ * Schema do corpo de PATCH /admin/rules/:id.
+ * `conditions` e `actions`, se informados, substituem os valores atuais.
+ */
+const UpdateRuleBodySchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    active: z.boolean().optional(),
+    priority: z.number().int().optional(),
+    conditions: RuleConditionsSchema.optional(),
+    actions: z.array(RuleActionSchema).min(1).optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Informe ao menos um campo para alterar',
+  });
+
+/**
+ * Schema da paginação de GET /admin/rules/:id/executions.
+ */
+const ListExecutionsQuerySchema = z.object({
+  messageId: z.string().min(1).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+/**
+ * Dependências necessárias para as rotas de regras de automação.
+ */
+export interface RuleRoutesDependencies {
+  automationRuleRepository: AutomationRuleRepository;
+  ruleExecutionRepository: RuleExecutionRepository;
+  adapterRegistry: AdapterRegistry;
+}
+
+/**
+ * Factory function para criar rotas administrativas das regras de automação.
+ * Recebe dependências por injeção.
+ */
+export function createRuleRoutes(deps: RuleRoutesDependencies): Router {
+  const router = Router();
+  const { automationRuleRepository, ruleExecutionRepository, adapterRegistry } = deps;
+
+  /**
+   * GET /admin/rules
+   * Lista todas as regras, na ordem de avaliação.
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rules = await automationRuleRepository.findAll();
+      res.status(200).json({ data: rules });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/rules/:id
+   * Retorna uma regra pelo ID.
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const rule = await automationRuleRepository.findById(id);
+
+      if (!rule) {
+        throw new ResourceNotFoundError('Regra', id);
+      }
+
+      res.status(200).json({ data: rule });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/rules/:id/executions
+   * Log de auditoria das execuções da regra (mais recente primeiro).
+   */
+  router.get('/:id/executions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const query = parseRequest(ListExecutionsQuerySchema, req.query);
+
+      const rule = await automationRuleRepository.findById(id);
+      if (!rule) {
+        throw new ResourceNotFoundError('Regra', id);
+      }
+
+      const page = await ruleExecutionRepository.findMany({ ...query, ruleId: rule.id });
+
+      res.status(200).json({
+        data: page.items,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/rules
+   * Cria uma regra. Sem tenantId, a regra se aplica a todos os tenants.
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseRequest(CreateRuleBodySchema, req.body);
+      assertKnownProviders(adapterRegistry, body.conditions.providers);
+
+      const rule = await automationRuleRepository.create(body);
+
+      res.status(201).json({ data: rule });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /admin/rules/:id
+   * Altera uma regra.
+   */
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const body = parseRequest(UpdateRuleBodySchema, req.body);
+      assertKnownProviders(adapterRegistry, body.conditions?.providers ?? []);
+
+      const rule = await automationRuleRepository.update(id, {
+        ...(body.name !== undefined ? { name: body.name } : {}),
+        ...(body.active !== undefined ? { active: body.active } : {}),
+        ...(body.priority !== undefined ? { priority: body.priority } : {}),
+        ...(body.conditions !== undefined ? { conditions: body.conditions } : {}),
+        ...(body.actions !== undefined ? { actions: body.actions } : {}),
+      });
+
+      res.status(200).json({ data: rule });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /admin/rules/:id
+   * Remove a regra e seu histórico de execuções.
+   */
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      await automationRuleRepository.delete(id);
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
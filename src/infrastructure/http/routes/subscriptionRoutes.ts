@@ -0,0 +1,202 @@
+import { randomBytes } from 'node:crypto';
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { EventSubscription } from '../../../domain/entities/EventSubscription.js';
+import { EVENT_TYPES } from '../../../domain/entities/EventSubscription.js';
+import type { EventSubscriptionRepository } from '../../../usecases/interfaces/EventSubscriptionRepository.js';
+import type { EventDeliveryQueue } from '../../../usecases/interfaces/EventDeliveryQueue.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+import { getParam, parseRequest } from './requestParams.js';
+
+/**
+ * Tamanho de página padrão e máximo do log de entregas.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Schema dos eventos assinados.
+ */
+const EventTypesSchema = z
+  .array(z.enum(EVENT_TYPES))
+  .min(1)
+  .transform((events) => [...new Set(events)]);
+
+/**
+ * Schema do corpo de POST /admin/subscriptions.
+ * Se `secret` for omitido, um segredo aleatório é gerado.
+ */
+const CreateSubscriptionBodySchema = z.object({
+  tenantId: z.string().uuid().nullable().default(null),
+  url: z.string().url(),
+  events: EventTypesSchema,
+  secret: z.string().min(16).max(256).optional(),
+  active: z.boolean().default(true),
+});
+
+/**
+ * Schema do corpo de PATCH /admin/subscriptions/:id.
+ */
+const UpdateSubscriptionBodySchema = z
+  .object({
+    url: z.string().url().optional(),
+    events: EventTypesSchema.optional(),
+    secret: z.string().min(16).max(256).optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Informe ao menos um campo para alterar',
+  });
+
+/**
+ * Schema dos filtros de GET /admin/subscriptions/:id/deliveries.
+ */
+const ListDeliveriesQuerySchema = z.object({
+  status: z.enum(['pending', 'processing', 'delivered', 'dead']).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+/**
+ * Remove o segredo da assinatura das respostas de consulta.
+ * O segredo só é exibido na criação.
+ */
+function withoutSecret(subscription: EventSubscription): Omit<EventSubscription, 'secret'> {
+  const { secret: _secret, ...rest } = subscription;
+  return rest;
+}
+
+/**
+ * Dependências necessárias para as rotas de assinaturas de eventos.
+ */
+export interface SubscriptionRoutesDependencies {
+  eventSubscriptionRepository: EventSubscriptionRepository;
+  eventDeliveryQueue: EventDeliveryQueue;
+}
+
+/**
+ * Factory function para criar rotas administrativas das assinaturas de eventos.
+ * Recebe dependências por injeção.
+ */
+export function createSubscriptionRoutes(deps: SubscriptionRoutesDependencies): Router {
+  const router = Router();
+  const { eventSubscriptionRepository, eventDeliveryQueue } = deps;
+
+  /**
+   * GET /admin/subscriptions
+   * Lista todas as assinaturas (sem o segredo).
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subscriptions = await eventSubscriptionRepository.findAll();
+      res.status(200).json({ data: subscriptions.map(withoutSecret) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/subscriptions/:id
+   * Retorna uma assinatura pelo ID (sem o segredo).
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const subscription = await eventSubscriptionRepository.findById(id);
+
+      if (!subscription) {
+        throw new ResourceNotFoundError('Assinatura', id);
+      }
+
+      res.status(200).json({ data: withoutSecret(subscription) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/subscriptions/:id/deliveries
+   * Log de entregas da assinatura (mais recente primeiro).
+   */
+  router.get('/:id/deliveries', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const query = parseRequest(ListDeliveriesQuerySchema, req.query);
+
+      const subscription = await eventSubscriptionRepository.findById(id);
+      if (!subscription) {
+        throw new ResourceNotFoundError('Assinatura', id);
+      }
+
+      const page = await eventDeliveryQueue.findMany({ ...query, subscriptionId: subscription.id });
+
+      res.status(200).json({
+        data: page.items,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/subscriptions
+   * Cria uma assinatura. A resposta inclui o segredo usado nas assinaturas HMAC.
+   * Sem tenantId, a assinatura recebe os eventos de todos os tenants.
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseRequest(CreateSubscriptionBodySchema, req.body);
+      const subscription = await eventSubscriptionRepository.create({
+        tenantId: body.tenantId,
+        url: body.url,
+        events: body.events,
+        secret: body.secret ?? randomBytes(32).toString('hex'),
+        active: body.active,
+      });
+
+      res.status(201).json({ data: subscription });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /admin/subscriptions/:id
+   * Altera uma assinatura.
+   */
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const body = parseRequest(UpdateSubscriptionBodySchema, req.body);
+
+      const subscription = await eventSubscriptionRepository.update(id, {
+        ...(body.url !== undefined ? { url: body.url } : {}),
+        ...(body.events !== undefined ? { events: body.events } : {}),
+        ...(body.secret !== undefined ? { secret: body.secret } : {}),
+        ...(body.active !== undefined ? { active: body.active } : {}),
+      });
+
+      res.status(200).json({ data: withoutSecret(subscription) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /admin/subscriptions/:id
+   * Remove a assinatura e seu log de entregas.
+   */
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      await eventSubscriptionRepository.delete(id);
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
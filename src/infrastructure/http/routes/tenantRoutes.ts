@@ -0,0 +1,200 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { TenantRepository } from '../../../usecases/interfaces/TenantRepository.js';
+import type { AdapterRegistry } from '../../../adapters/registry/AdapterRegistry.js';
+import type { ProviderAccount, ProviderCredentials } from '../../../domain/entities/Tenant.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+import { assertKnownProviders, getParam, parseRequest } from './requestParams.js';
+
+/**
+ * Schema do corpo de POST /admin/tenants.
+ * O slug identifica o tenant nas URLs de webhook e no header X-Tenant.
+ */
+const CreateTenantBodySchema = z.object({
+  slug: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, 'Apenas letras minúsculas, números e "-"')
+    .max(50),
+  name: z.string().trim().min(1).max(200),
+  active: z.boolean().default(true),
+});
+
+/**
+ * Schema do corpo de PATCH /admin/tenants/:id.
+ */
+const UpdateTenantBodySchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Informe ao menos um campo para alterar',
+  });
+
+/**
+ * Schema do corpo de POST /admin/tenants/:id/accounts.
+ * O provedor deve ter adapter registrado (nativo ou configurável).
+ */
+const CreateAccountBodySchema = z.object({
+  provider: z.string().min(1).max(50),
+  accountId: z.string().trim().min(1).max(200),
+  credentials: z
+    .object({
+      token: z.string().min(1).optional(),
+      clientToken: z.string().min(1).optional(),
+      appSecret: z.string().min(1).optional(),
+      accessToken: z.string().min(1).optional(),
+      verifyToken: z.string().min(1).optional(),
+    })
+    .strict()
+    .default({}),
+});
+
+/**
+ * Conta sem os valores das credenciais, apenas com os nomes das cadastradas.
+ */
+type MaskedProviderAccount = Omit<ProviderAccount, 'credentials'> & {
+  credentials: Array<keyof ProviderCredentials>;
+};
+
+/**
+ * Remove os valores das credenciais das respostas de consulta.
+ * As credenciais só são exibidas no cadastro da conta.
+ */
+function withoutCredentials(account: ProviderAccount): MaskedProviderAccount {
+  const { credentials, ...rest } = account;
+  const configured = (Object.keys(credentials) as Array<keyof ProviderCredentials>).filter(
+    (name) => credentials[name] !== undefined
+  );
+  return { ...rest, credentials: configured };
+}
+
+/**
+ * Dependências necessárias para as rotas de tenants.
+ */
+export interface TenantRoutesDependencies {
+  tenantRepository: TenantRepository;
+  adapterRegistry: AdapterRegistry;
+}
+
+/**
+ * Factory function para criar rotas administrativas de tenants e suas contas nos provedores.
+ * Tenants não são removidos (mensagens e contatos dependem deles): use `active: false`.
+ */
+export function createTenantRoutes(deps: TenantRoutesDependencies): Router {
+  const router = Router();
+  const { tenantRepository, adapterRegistry } = deps;
+
+  /**
+   * GET /admin/tenants
+   * Lista todos os tenants (mais antigo primeiro).
+   */
+  router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tenants = await tenantRepository.findAll();
+      res.status(200).json({ data: tenants });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/tenants/:id
+   * Retorna um tenant pelo ID, com suas contas (sem os valores das credenciais).
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const tenant = await tenantRepository.findById(id);
+
+      if (!tenant) {
+        throw new ResourceNotFoundError('Tenant', id);
+      }
+
+      const accounts = await tenantRepository.findAccounts(tenant.id);
+
+      res.status(200).json({ data: { ...tenant, accounts: accounts.map(withoutCredentials) } });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/tenants
+   * Cria um tenant. Retorna 409 se o slug já existir.
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseRequest(CreateTenantBodySchema, req.body);
+      const tenant = await tenantRepository.create(body);
+
+      res.status(201).json({ data: tenant });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /admin/tenants/:id
+   * Altera nome e/ou status ativo. Tenants inativos têm os webhooks
+   * rejeitados e não acessam a API.
+   */
+  router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const body = parseRequest(UpdateTenantBodySchema, req.body);
+
+      const tenant = await tenantRepository.update(id, {
+        ...(body.name !== undefined ? { name: body.name } : {}),
+        ...(body.active !== undefined ? { active: body.active } : {}),
+      });
+
+      res.status(200).json({ data: tenant });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/tenants/:id/accounts
+   * Cadastra uma conta de provedor (instância Z-API, número Meta, instância Evolution,
+   * conta de um provedor configurável).
+   * A resposta inclui as credenciais; as consultas exibem apenas os nomes.
+   * Retorna 409 se a conta já estiver cadastrada em qualquer tenant.
+   */
+  router.post('/:id/accounts', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const body = parseRequest(CreateAccountBodySchema, req.body);
+
+      assertKnownProviders(adapterRegistry, [body.provider]);
+
+      const account = await tenantRepository.addAccount(id, body);
+
+      res.status(201).json({ data: account });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /admin/tenants/:id/accounts/:accountId
+   * Remove uma conta do tenant. Webhooks dessa conta passam a ser rejeitados.
+   */
+  router.delete(
+    '/:id/accounts/:accountId',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const id = getParam(req.params['id']) ?? '';
+        const accountId = getParam(req.params['accountId']) ?? '';
+        await tenantRepository.removeAccount(id, accountId);
+
+        res.status(204).end();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
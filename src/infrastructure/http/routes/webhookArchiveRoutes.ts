@@ -0,0 +1,111 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { RawWebhookRepository } from '../../../usecases/interfaces/RawWebhookRepository.js';
+import type { ProcessWebhookUseCase } from '../../../usecases/ProcessWebhookUseCase.js';
+import { ResourceNotFoundError } from '../../../domain/errors/WebhookErrors.js';
+import { getParam, parseRequest } from './requestParams.js';
+
+/**
+ * Tamanho de página padrão e máximo da listagem.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Schema dos filtros de GET /admin/webhooks.
+ */
+const ListWebhooksQuerySchema = z.object({
+  tenantId: z.string().uuid().optional(),
+  provider: z.string().min(1).optional(),
+  status: z.enum(['received', 'processed', 'rejected', 'quarantined', 'failed']).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+/**
+ * Dependências necessárias para as rotas do arquivo de webhooks.
+ */
+export interface WebhookArchiveRoutesDependencies {
+  rawWebhookRepository: RawWebhookRepository;
+  processWebhookUseCase: ProcessWebhookUseCase;
+}
+
+/**
+ * Factory function para criar rotas administrativas do arquivo de webhooks brutos.
+ * Recebe dependências por injeção.
+ */
+export function createWebhookArchiveRoutes(deps: WebhookArchiveRoutesDependencies): Router {
+  const router = Router();
+  const { rawWebhookRepository, processWebhookUseCase } = deps;
+
+  /**
+   * GET /admin/webhooks
+   * Lista webhooks recebidos (mais recente primeiro).
+   * Filtros: tenantId, provider, status (received, processed, rejected, quarantined, failed), cursor, limit.
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseRequest(ListWebhooksQuerySchema, req.query);
+      const page = await rawWebhookRepository.findMany(query);
+
+      res.status(200).json({
+        data: page.items,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /admin/webhooks/:id
+   * Retorna o webhook arquivado, com headers, corpo e resultado do processamento.
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const rawWebhook = await rawWebhookRepository.findById(id);
+
+      if (!rawWebhook) {
+        throw new ResourceNotFoundError('Webhook', id);
+      }
+
+      res.status(200).json({ data: rawWebhook });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /admin/webhooks/:id/replay
+   * Reprocessa o corpo arquivado com o adapter atual.
+   * Mensagens já salvas retornam como duplicatas.
+   */
+  router.post('/:id/replay', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = getParam(req.params['id']) ?? '';
+      const result = await processWebhookUseCase.replay(id);
+
+      console.log(`[WEBHOOK] Webhook ${id} reprocessado (${result.messages.length} mensagem(ns))`);
+
+      res.status(200).json({
+        data: {
+          webhookId: result.rawWebhookId,
+          messages: result.messages.map(({ message, isDuplicate }) => ({
+            messageId: message.id,
+            duplicate: isDuplicate,
+            classificationStatus: message.classificationStatus,
+          })),
+          statuses: result.statuses.map((status) => ({
+            externalId: status.externalId,
+            status: status.status,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,35 +1,21 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
-import type { Provider } from '../../../domain/entities/NormalizedMessage.js';
+import type { Provider, ClassificationStatus } from '../../../domain/entities/NormalizedMessage.js';
 import type { ProcessWebhookUseCase } from '../../../usecases/ProcessWebhookUseCase.js';
-import type { ClassifyMessageUseCase } from '../../../usecases/ClassifyMessageUseCase.js';
-import type { MessageRepository } from '../../../usecases/interfaces/MessageRepository.js';
+import type { VerifyWebhookUseCase } from '../../../usecases/VerifyWebhookUseCase.js';
+import type { AdapterRegistry } from '../../../adapters/registry/AdapterRegistry.js';
 import { UnknownProviderError } from '../../../domain/errors/WebhookErrors.js';
+import { getRawBody } from '../middleware/rawBody.js';
+import { assertKnownProviders, getParam, getQueryParam } from './requestParams.js';
 
 /**
- * Provedores suportados pelo sistema.
+ * Resultado de uma mensagem individual na resposta do webhook.
  */
-const SUPPORTED_PROVIDERS = ['zapi', 'meta'] as const;
-
-function isValidProvider(provider: string): provider is Provider {
-  return SUPPORTED_PROVIDERS.includes(provider as Provider);
-}
-
-/**
- * Extrai valor de param (pode ser string ou array).
- */
-function getParam(value: string | string[] | undefined): string | undefined {
-  if (typeof value === 'string') return value;
-  if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
-  return undefined;
-}
-
-/**
- * Extrai valor de query param (pode ser string, array ou undefined).
- */
-function getQueryParam(value: unknown): string | undefined {
-  if (typeof value === 'string') return value;
-  if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
-  return undefined;
+interface WebhookMessageResult {
+  messageId: string;
+  duplicate: boolean;
+  classificationStatus: ClassificationStatus;
+  intent: string | null;
+  confidence: number | null;
 }
 
 /**
@@ -37,8 +23,8 @@ function getQueryParam(value: unknown): string | undefined {
  */
 export interface WebhookRoutesDependencies {
   processWebhookUseCase: ProcessWebhookUseCase;
-  classifyMessageUseCase: ClassifyMessageUseCase;
-  messageRepository: MessageRepository;
+  verifyWebhookUseCase: VerifyWebhookUseCase;
+  adapterRegistry: AdapterRegistry;
 }
 
 /**
@@ -47,17 +33,96 @@ export interface WebhookRoutesDependencies {
  */
 export function createWebhookRoutes(deps: WebhookRoutesDependencies): Router {
   const router = Router();
-  const { processWebhookUseCase, classifyMessageUseCase, messageRepository } = deps;
+  const { processWebhookUseCase, verifyWebhookUseCase, adapterRegistry } = deps;
 
   /**
-   * POST /webhook/:provider
-   * Recebe webhooks de provedores de WhatsApp.
+   * Processa o webhook de um provedor já identificado e envia a resposta.
    *
    * Fluxo:
-   * 1. Valida provedor
-   * 2. Processa webhook (valida, normaliza, salva)
-   * 3. Classifica intenção via LLM (apenas mensagens novas)
-   * 4. Retorna resultado
+   * 1. Processa webhook (identifica o tenant, verifica assinatura, valida, normaliza,
+   *    salva cada mensagem e status)
+   * 2. Retorna resultado por mensagem e status recebidos
+   *
+   * A classificação de intenção NÃO é feita aqui: mensagens novas são enfileiradas
+   * e classificadas pelo ClassificationWorker, para que lentidão/falha do LLM
+   * não atrase nem quebre a resposta ao provedor.
+   */
+  async function handleWebhook(
+    provider: Provider,
+    tenantSlug: string | undefined,
+    detected: boolean,
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    // 1. Processa webhook (identifica tenant, verifica assinatura, valida, normaliza, salva, enfileira)
+    const result = await processWebhookUseCase.execute({
+      provider,
+      tenantSlug,
+      payload: req.body,
+      request: { headers: req.headers, rawBody: getRawBody(req) },
+    });
+
+    const messages: WebhookMessageResult[] = result.messages.map(({ message, isDuplicate }) => {
+      if (isDuplicate) {
+        console.log(`[WEBHOOK] Mensagem duplicada: ${message.id}`);
+      } else {
+        console.log(`[WEBHOOK] Mensagem ${message.id} salva e enfileirada para classificação`);
+      }
+
+      return {
+        messageId: message.id,
+        duplicate: isDuplicate,
+        classificationStatus: message.classificationStatus,
+        intent: message.classification?.intent ?? null,
+        confidence: message.classification?.confidence ?? null,
+      };
+    });
+
+    if (result.statuses.length > 0) {
+      console.log(`[WEBHOOK] ${result.statuses.length} atualização(ões) de status recebida(s)`);
+    }
+
+    // 2. Retorna sucesso com o resultado de cada mensagem e status recebidos
+    res.status(200).json({
+      success: true,
+      provider,
+      detected,
+      tenantId: result.tenantId,
+      webhookId: result.rawWebhookId,
+      messages,
+      statuses: result.statuses.map((status) => ({
+        externalId: status.externalId,
+        status: status.status,
+      })),
+    });
+  }
+
+  /**
+   * POST /webhook
+   * Recebe webhooks sem o provedor na URL: o provedor é detectado pelo
+   * formato do payload (`canHandle` dos adapters registrados) e o tenant
+   * pela conta do provedor no payload.
+   *
+   * Erros:
+   * - AmbiguousProviderError: mais de um adapter reconhece o payload
+   * - UnknownProviderError: nenhum adapter reconhece o payload
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const provider = processWebhookUseCase.detectProvider(req.body);
+
+      console.log(`[WEBHOOK] Recebido de ${provider} (provedor detectado pelo payload)`);
+
+      await handleWebhook(provider, undefined, true, req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /webhook/:provider
+   * Recebe webhooks de provedores de WhatsApp.
+   * O tenant é identificado pela conta do provedor no payload.
    */
   router.post(
     '/:provider',
@@ -65,53 +130,42 @@ export function createWebhookRoutes(deps: WebhookRoutesDependencies): Router {
       try {
         const provider = getParam(req.params['provider']);
 
-        // 1. Valida se o provedor foi informado e é suportado
-        if (!provider || !isValidProvider(provider)) {
+        // Valida se o provedor foi informado e tem adapter registrado
+        if (!provider) {
           throw new UnknownProviderError(provider);
         }
+        assertKnownProviders(adapterRegistry, [provider]);
 
         console.log(`[WEBHOOK] Recebido de ${provider}`);
 
-        // 2. Processa webhook (valida, normaliza, salva)
-        const result = await processWebhookUseCase.execute({
-          provider,
-          payload: req.body,
-        });
-
-        // 3. Se duplicata, retorna a existente sem reprocessar
-        if (result.isDuplicate) {
-          console.log(`[WEBHOOK] Mensagem duplicada: ${result.message.id}`);
-          return res.status(200).json({
-            success: true,
-            messageId: result.message.id,
-            duplicate: true,
-            message: 'Mensagem já processada anteriormente',
-          });
+        await handleWebhook(provider, undefined, false, req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /webhook/:tenant/:provider
+   * Recebe webhooks de um tenant específico.
+   * A conta do provedor no payload deve pertencer ao tenant da URL.
+   */
+  router.post(
+    '/:tenant/:provider',
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const tenantSlug = getParam(req.params['tenant']);
+        const provider = getParam(req.params['provider']);
+
+        // Valida se o provedor foi informado e tem adapter registrado
+        if (!provider) {
+          throw new UnknownProviderError(provider);
         }
+        assertKnownProviders(adapterRegistry, [provider]);
+
+        console.log(`[WEBHOOK] Recebido de ${provider} (tenant ${tenantSlug})`);
 
-        // 4. Classifica intenção via LLM (apenas para mensagens novas)
-        const classification = await classifyMessageUseCase.classifyContent(
-          result.message.message.content
-        );
-
-        // 5. Atualiza mensagem com classificação
-        await messageRepository.updateClassification(
-          result.message.id,
-          classification
-        );
-
-        console.log(
-          `[WEBHOOK] Mensagem ${result.message.id} classificada como "${classification.intent}" (${classification.confidence})`
-        );
-
-        // 6. Retorna sucesso com detalhes
-        return res.status(200).json({
-          success: true,
-          messageId: result.message.id,
-          provider: result.message.provider,
-          intent: classification.intent,
-          confidence: classification.confidence,
-        });
+        await handleWebhook(provider, tenantSlug, false, req, res);
       } catch (error) {
         next(error);
       }
@@ -119,24 +173,61 @@ export function createWebhookRoutes(deps: WebhookRoutesDependencies): Router {
   );
 
   /**
-   * GET /webhook/meta
-   * Verificação de webhook da Meta (challenge).
-   * Necessário para configurar webhook no painel do Facebook.
+   * Responde à verificação (handshake) do provedor delegando ao adapter.
+   * Token que não confere ou requisição malformada resultam em
+   * WebhookVerificationError (403), tratado pelo errorHandler.
+   */
+  async function handleVerification(
+    tenantSlug: string | undefined,
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const provider = getParam(req.params['provider']);
+
+    // Valida se o provedor foi informado e tem adapter registrado
+    if (!provider) {
+      throw new UnknownProviderError(provider);
+    }
+    assertKnownProviders(adapterRegistry, [provider]);
+
+    const query: Record<string, string | undefined> = {};
+    for (const [name, value] of Object.entries(req.query)) {
+      query[name] = getQueryParam(value);
+    }
+
+    const { response, tenant } = await verifyWebhookUseCase.execute({
+      provider,
+      tenantSlug,
+      request: { query, headers: req.headers },
+    });
+
+    console.log(`[WEBHOOK] Verificação de ${provider} concluída (tenant ${tenant.slug})`);
+    res.status(200).type('text/plain').send(response);
+  }
+
+  /**
+   * GET /webhook/:provider
+   * Verificação do webhook (ex: challenge da Meta, exigido pelo painel do Facebook).
+   * O token é comparado com o verifyToken das contas do provedor.
    */
-  router.get('/meta', (req: Request, res: Response) => {
-    const mode = getQueryParam(req.query['hub.mode']);
-    const token = getQueryParam(req.query['hub.verify_token']);
-    const challenge = getQueryParam(req.query['hub.challenge']);
-
-    // Verifica se é uma requisição de verificação
-    if (mode === 'subscribe' && token === process.env.META_VERIFY_TOKEN) {
-      console.log('[META] Webhook verificado com sucesso');
-      res.status(200).send(challenge);
-      return;
+  router.get('/:provider', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handleVerification(undefined, req, res);
+    } catch (error) {
+      next(error);
     }
+  });
 
-    console.log('[META] Falha na verificação do webhook');
-    res.status(403).send('Forbidden');
+  /**
+   * GET /webhook/:tenant/:provider
+   * Verificação do webhook para um tenant específico.
+   */
+  router.get('/:tenant/:provider', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await handleVerification(getParam(req.params['tenant']), req, res);
+    } catch (error) {
+      next(error);
+    }
   });
 
   return router;
@@ -1,19 +1,132 @@
 import { PrismaClient } from '@prisma/client';
-import { env } from '../../config/env.js';
+import { env, type Env } from '../../config/env.js';
 import { createApp } from './app.js';
 
 // Infrastructure
 import { PrismaMessageRepository } from '../database/repositories/PrismaMessageRepository.js';
+import { PrismaContactRepository } from '../database/repositories/PrismaContactRepository.js';
+import { PrismaMessageStatusRepository } from '../database/repositories/PrismaMessageStatusRepository.js';
+import { PrismaClassificationQueue } from '../database/repositories/PrismaClassificationQueue.js';
+import { PrismaIntentRepository } from '../database/repositories/PrismaIntentRepository.js';
+import { PrismaAutomationRuleRepository } from '../database/repositories/PrismaAutomationRuleRepository.js';
+import { PrismaRuleExecutionRepository } from '../database/repositories/PrismaRuleExecutionRepository.js';
+import { PrismaEventSubscriptionRepository } from '../database/repositories/PrismaEventSubscriptionRepository.js';
+import { PrismaEventDeliveryQueue } from '../database/repositories/PrismaEventDeliveryQueue.js';
+import { PrismaRawWebhookRepository } from '../database/repositories/PrismaRawWebhookRepository.js';
+import { PrismaTenantRepository } from '../database/repositories/PrismaTenantRepository.js';
+import { PrismaAdapterMappingRepository } from '../database/repositories/PrismaAdapterMappingRepository.js';
+import { PrismaLeadProfileRepository } from '../database/repositories/PrismaLeadProfileRepository.js';
+import { PrismaClassificationCacheRepository } from '../database/repositories/PrismaClassificationCacheRepository.js';
+import { SubscriptionEventPublisher } from '../events/SubscriptionEventPublisher.js';
+import { CachedIntentCatalog } from '../cache/CachedIntentCatalog.js';
+import { CachedClassificationService } from '../cache/CachedClassificationService.js';
+import { AdapterMappingSync } from '../cache/AdapterMappingSync.js';
+import { ClassificationWorker } from '../queue/ClassificationWorker.js';
+import { EventDeliveryWorker } from '../queue/EventDeliveryWorker.js';
+import { FetchHttpClient } from './client/FetchHttpClient.js';
+import { EntityExtractionPipeline } from '../extraction/EntityExtractionPipeline.js';
 import { ClaudeService } from '../llm/ClaudeService.js';
 import { MockClaudeService } from '../llm/MockClaudeService.js';
+import { OpenAICompatibleService } from '../llm/OpenAICompatibleService.js';
+import { ClassifierChain, type ClassifierEntry } from '../llm/ClassifierChain.js';
+import { LeadQualificationChain } from '../llm/LeadQualificationChain.js';
+import { CLASSIFICATION_PROMPT_VERSION } from '../llm/ClassificationPrompt.js';
 import type { ClassificationService } from '../../usecases/interfaces/ClassificationService.js';
+import type { LeadQualificationService } from '../../usecases/interfaces/LeadQualificationService.js';
+import type { IntentCatalog } from '../../usecases/interfaces/IntentCatalog.js';
+import type { HttpClient } from '../../adapters/interfaces/HttpClient.js';
+import { DEFAULT_INTENTS } from '../../domain/entities/Intent.js';
+import type { CreateProviderAccount } from '../../domain/entities/Tenant.js';
 
 // Adapters
-import { initializeAdapters, adapterRegistry } from '../../adapters/index.js';
+import {
+  initializeAdapters,
+  initializeSenders,
+  adapterRegistry,
+  senderRegistry,
+} from '../../adapters/index.js';
 
 // Use Cases
 import { ProcessWebhookUseCase } from '../../usecases/ProcessWebhookUseCase.js';
 import { ClassifyMessageUseCase } from '../../usecases/ClassifyMessageUseCase.js';
+import { QualifyLeadUseCase } from '../../usecases/QualifyLeadUseCase.js';
+import { SendMessageUseCase } from '../../usecases/SendMessageUseCase.js';
+import { ReviewClassificationUseCase } from '../../usecases/ReviewClassificationUseCase.js';
+import { EvaluateRulesUseCase } from '../../usecases/EvaluateRulesUseCase.js';
+import { RetryQuarantineUseCase } from '../../usecases/RetryQuarantineUseCase.js';
+import { VerifyWebhookUseCase } from '../../usecases/VerifyWebhookUseCase.js';
+
+/**
+ * Contas do tenant padrão, montadas a partir das variáveis de ambiente
+ * (configuração de instalações anteriores ao suporte a múltiplos tenants).
+ */
+function defaultTenantAccounts(): CreateProviderAccount[] {
+  const accounts: CreateProviderAccount[] = [];
+
+  if (env.ZAPI_INSTANCE_ID) {
+    accounts.push({
+      provider: 'zapi',
+      accountId: env.ZAPI_INSTANCE_ID,
+      credentials: { token: env.ZAPI_TOKEN, clientToken: env.ZAPI_CLIENT_TOKEN },
+    });
+  }
+
+  if (env.META_PHONE_NUMBER_ID) {
+    accounts.push({
+      provider: 'meta',
+      accountId: env.META_PHONE_NUMBER_ID,
+      credentials: {
+        appSecret: env.META_APP_SECRET,
+        accessToken: env.META_ACCESS_TOKEN,
+        verifyToken: env.META_VERIFY_TOKEN,
+      },
+    });
+  }
+
+  return accounts;
+}
+
+/**
+ * Classificadores da cadeia, na ordem de CLASSIFIERS.
+ * O serviço do Claude é compartilhado com a qualificação de leads.
+ */
+function buildClassifiers(
+  intentCatalog: IntentCatalog,
+  httpClient: HttpClient,
+  claudeService: ClaudeService | null
+): ClassifierEntry[] {
+  return env.CLASSIFIERS.map(({ name, timeoutMs }) => ({
+    name,
+    service: buildClassifier(name, intentCatalog, httpClient, claudeService),
+    timeoutMs: timeoutMs ?? env.CLASSIFIER_TIMEOUT_MS,
+  }));
+}
+
+/**
+ * Instancia um classificador pelo nome usado em CLASSIFIERS.
+ */
+function buildClassifier(
+  name: Env['CLASSIFIERS'][number]['name'],
+  intentCatalog: IntentCatalog,
+  httpClient: HttpClient,
+  claudeService: ClaudeService | null
+): ClassificationService {
+  switch (name) {
+    case 'claude':
+      if (!claudeService) {
+        throw new Error('ANTHROPIC_API_KEY não configurada');
+      }
+      return claudeService;
+    case 'openai':
+      return new OpenAICompatibleService(httpClient, intentCatalog, {
+        baseUrl: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL,
+      });
+    case 'keyword':
+      return new MockClaudeService(intentCatalog);
+  }
+}
 
 /**
  * Composição de dependências (Composition Root).
@@ -27,53 +140,262 @@ async function bootstrap(): Promise<void> {
   await prisma.$connect();
   console.log('✅ Conectado ao banco de dados');
 
-  // 2. Repository
+  // 2. Repositories
   const messageRepository = new PrismaMessageRepository(prisma);
+  const contactRepository = new PrismaContactRepository(prisma);
+  const messageStatusRepository = new PrismaMessageStatusRepository(prisma);
+  const classificationQueue = new PrismaClassificationQueue(prisma, {
+    maxAttempts: env.CLASSIFICATION_MAX_ATTEMPTS,
+    lockTimeoutMs: env.CLASSIFICATION_LOCK_TIMEOUT_MS,
+  });
+  const intentRepository = new PrismaIntentRepository(prisma);
+  const automationRuleRepository = new PrismaAutomationRuleRepository(prisma);
+  const ruleExecutionRepository = new PrismaRuleExecutionRepository(prisma);
+  const rawWebhookRepository = new PrismaRawWebhookRepository(prisma);
+  const tenantRepository = new PrismaTenantRepository(prisma);
+  const adapterMappingRepository = new PrismaAdapterMappingRepository(prisma);
+  const leadProfileRepository = new PrismaLeadProfileRepository(prisma);
+  const classificationCacheRepository = new PrismaClassificationCacheRepository(prisma);
+  const eventSubscriptionRepository = new PrismaEventSubscriptionRepository(prisma);
+  const eventDeliveryQueue = new PrismaEventDeliveryQueue(prisma, {
+    maxAttempts: env.EVENT_DELIVERY_MAX_ATTEMPTS,
+    lockTimeoutMs: env.EVENT_DELIVERY_LOCK_TIMEOUT_MS,
+  });
 
-  // 3. Services
-  const useMockLLM = process.env.USE_MOCK_LLM === 'true';
-  const claudeService: ClassificationService = useMockLLM
-    ? new MockClaudeService()
-    : new ClaudeService(env.ANTHROPIC_API_KEY);
+  const seededIntents = await intentRepository.seedIfEmpty(DEFAULT_INTENTS);
+  if (seededIntents > 0) {
+    console.log(`✅ Catálogo de intenções inicializado (${seededIntents} intenções padrão)`);
+  }
 
-  if (useMockLLM) {
-    console.log('⚠️  Usando MockClaudeService (USE_MOCK_LLM=true)');
+  const seededTenant = await tenantRepository.seedIfEmpty(
+    { slug: 'default', name: 'Padrão', active: true },
+    defaultTenantAccounts()
+  );
+  if (seededTenant) {
+    console.log('✅ Tenant padrão criado (slug "default") com as contas das variáveis de ambiente');
   }
 
-  // 4. Adapter Registry (inicializa o singleton)
+  // 3. Services
+  const intentCatalog = new CachedIntentCatalog(intentRepository, {
+    ttlMs: env.INTENT_CACHE_TTL_MS,
+  });
+
+  const httpClient = new FetchHttpClient({ timeoutMs: env.OUTBOUND_HTTP_TIMEOUT_MS });
+
+  const usesClaude = env.CLASSIFIERS.some((classifier) => classifier.name === 'claude');
+  const claudeService =
+    usesClaude && env.ANTHROPIC_API_KEY ? new ClaudeService(env.ANTHROPIC_API_KEY, intentCatalog) : null;
+
+  // Cadeia de classificação: cai para o próximo classificador em erro ou timeout
+  const classifierChain = new ClassifierChain(
+    buildClassifiers(intentCatalog, httpClient, claudeService),
+    {
+      failureThreshold: env.CLASSIFIER_FAILURE_THRESHOLD,
+      cooldownMs: env.CLASSIFIER_COOLDOWN_MS,
+    }
+  );
+  console.log(`✅ Cadeia de classificação: ${env.CLASSIFIERS.map((classifier) => classifier.name).join(' → ')}`);
+
+  // Cache das classificações sem contexto, na frente da cadeia
+  const classificationService = new CachedClassificationService(
+    classifierChain,
+    classificationCacheRepository,
+    intentCatalog,
+    {
+      ttlMs: env.CLASSIFICATION_CACHE_TTL_MS,
+      promptVersion: CLASSIFICATION_PROMPT_VERSION,
+      primaryClassifier: env.CLASSIFIERS[0]?.name,
+    }
+  );
+
+  // Qualificação de leads: Claude se estiver na cadeia, com fallback para as regras de
+  // palavras-chave (mesmo timeout e circuit breaker da classificação)
+  const claudeTimeoutMs =
+    env.CLASSIFIERS.find((classifier) => classifier.name === 'claude')?.timeoutMs ??
+    env.CLASSIFIER_TIMEOUT_MS;
+  const leadQualificationService: LeadQualificationService = new LeadQualificationChain(
+    [
+      ...(claudeService
+        ? [{ name: 'claude', service: claudeService, timeoutMs: claudeTimeoutMs }]
+        : []),
+      {
+        name: 'keyword',
+        service: new MockClaudeService(intentCatalog),
+        timeoutMs: env.CLASSIFIER_TIMEOUT_MS,
+      },
+    ],
+    {
+      failureThreshold: env.CLASSIFIER_FAILURE_THRESHOLD,
+      cooldownMs: env.CLASSIFIER_COOLDOWN_MS,
+    }
+  );
+
+  const entityExtractor = new EntityExtractionPipeline();
+
+  const eventPublisher = new SubscriptionEventPublisher(eventSubscriptionRepository, eventDeliveryQueue);
+
+  // 4. Registries de adapters e senders (inicializa os singletons)
+  // As credenciais vêm das contas de cada tenant
   initializeAdapters();
 
+  // Adapters configuráveis: mapeamentos cadastrados em /admin/adapters
+  const adapterMappingSync = new AdapterMappingSync(adapterRegistry, adapterMappingRepository, {
+    refreshIntervalMs: env.ADAPTER_MAPPINGS_REFRESH_MS,
+  });
+  await adapterMappingSync.sync();
+  adapterMappingSync.start();
+
+  initializeSenders(
+    {
+      zapi: { baseUrl: env.ZAPI_API_URL },
+      meta: { baseUrl: env.META_GRAPH_API_URL },
+    },
+    httpClient
+  );
+
   // 5. Use Cases
   const processWebhookUseCase = new ProcessWebhookUseCase(
     adapterRegistry,
-    messageRepository
+    messageRepository,
+    contactRepository,
+    messageStatusRepository,
+    classificationQueue,
+    eventPublisher,
+    rawWebhookRepository,
+    tenantRepository,
+    entityExtractor
   );
 
+  const verifyWebhookUseCase = new VerifyWebhookUseCase(adapterRegistry, tenantRepository);
+
+  const retryQuarantineUseCase = new RetryQuarantineUseCase(rawWebhookRepository, processWebhookUseCase);
+
   const classifyMessageUseCase = new ClassifyMessageUseCase(
     messageRepository,
-    claudeService
+    contactRepository,
+    classificationService,
+    eventPublisher,
+    { historySize: env.CLASSIFICATION_HISTORY_SIZE }
+  );
+
+  const qualifyLeadUseCase = new QualifyLeadUseCase(
+    messageRepository,
+    leadProfileRepository,
+    leadQualificationService,
+    { historySize: env.CLASSIFICATION_HISTORY_SIZE }
   );
 
-  // 6. Express App com dependências
+  const reviewClassificationUseCase = new ReviewClassificationUseCase(
+    messageRepository,
+    contactRepository,
+    intentCatalog,
+    eventPublisher,
+    { confidenceThreshold: env.REVIEW_CONFIDENCE_THRESHOLD }
+  );
+
+  const sendMessageUseCase = new SendMessageUseCase(
+    senderRegistry,
+    messageRepository,
+    contactRepository,
+    tenantRepository
+  );
+
+  const evaluateRulesUseCase = new EvaluateRulesUseCase(
+    messageRepository,
+    contactRepository,
+    automationRuleRepository,
+    ruleExecutionRepository,
+    sendMessageUseCase,
+    httpClient,
+    { timeZone: env.RULES_TIMEZONE }
+  );
+
+  // 6. Worker de classificação (consome a fila em segundo plano)
+  const classificationWorker = new ClassificationWorker(
+    classificationQueue,
+    classifyMessageUseCase,
+    qualifyLeadUseCase,
+    evaluateRulesUseCase,
+    messageRepository,
+    {
+      concurrency: env.CLASSIFICATION_CONCURRENCY,
+      pollIntervalMs: env.CLASSIFICATION_POLL_INTERVAL_MS,
+      retryBaseDelayMs: env.CLASSIFICATION_RETRY_BASE_DELAY_MS,
+    }
+  );
+  classificationWorker.start();
+
+  // 7. Worker de entrega de eventos para sistemas externos
+  const eventDeliveryWorker = new EventDeliveryWorker(
+    eventDeliveryQueue,
+    eventSubscriptionRepository,
+    httpClient,
+    {
+      concurrency: env.EVENT_DELIVERY_CONCURRENCY,
+      pollIntervalMs: env.EVENT_DELIVERY_POLL_INTERVAL_MS,
+      retryBaseDelayMs: env.EVENT_DELIVERY_RETRY_BASE_DELAY_MS,
+    }
+  );
+  eventDeliveryWorker.start();
+
+  // 8. Express App com dependências
   const app = createApp({
     processWebhookUseCase,
-    classifyMessageUseCase,
+    verifyWebhookUseCase,
+    sendMessageUseCase,
+    reviewClassificationUseCase,
     messageRepository,
+    contactRepository,
+    leadProfileRepository,
+    intentRepository,
+    intentCatalog,
+    automationRuleRepository,
+    ruleExecutionRepository,
+    eventSubscriptionRepository,
+    eventDeliveryQueue,
+    rawWebhookRepository,
+    retryQuarantineUseCase,
+    tenantRepository,
+    adapterRegistry,
+    senderRegistry,
+    adapterMappingRepository,
+    adapterMappingSync,
+    classificationCache: classificationService,
   });
 
-  // 7. Start server
+  // 9. Start server
   app.listen(env.PORT, () => {
     console.log('');
     console.log('🚀 Servidor rodando na porta ' + env.PORT);
     console.log('📍 Health check: http://localhost:' + env.PORT + '/health');
+    console.log('🔌 Provedores: GET http://localhost:' + env.PORT + '/providers');
+    console.log('🔎 Mensagens: GET http://localhost:' + env.PORT + '/messages');
+    console.log('📤 Envio: POST http://localhost:' + env.PORT + '/messages/send');
+    console.log('📝 Revisão: GET http://localhost:' + env.PORT + '/messages/review-queue');
+    console.log('👥 Contatos: GET http://localhost:' + env.PORT + '/contacts');
+    console.log('🏷️  Intenções: http://localhost:' + env.PORT + '/admin/intents');
+    console.log('🗃️  Cache de classificações: http://localhost:' + env.PORT + '/admin/classification-cache');
+    console.log('⚙️  Regras: http://localhost:' + env.PORT + '/admin/rules');
+    console.log('🔔 Assinaturas: http://localhost:' + env.PORT + '/admin/subscriptions');
+    console.log('🗄️  Webhooks recebidos: http://localhost:' + env.PORT + '/admin/webhooks');
+    console.log('🚧 Quarentena: http://localhost:' + env.PORT + '/admin/quarantine');
+    console.log('🏢 Tenants: http://localhost:' + env.PORT + '/admin/tenants');
+    console.log('🧩 Adapters configuráveis: http://localhost:' + env.PORT + '/admin/adapters');
+    console.log('📨 Webhook (detecção automática): POST http://localhost:' + env.PORT + '/webhook');
     console.log('📨 Webhook Z-API: POST http://localhost:' + env.PORT + '/webhook/zapi');
     console.log('📨 Webhook Meta: POST http://localhost:' + env.PORT + '/webhook/meta');
+    console.log('📨 Webhook Evolution: POST http://localhost:' + env.PORT + '/webhook/evolution');
+    console.log('📨 Webhook por tenant: POST http://localhost:' + env.PORT + '/webhook/:tenant/:provider');
+    console.log('🤝 Verificação: GET http://localhost:' + env.PORT + '/webhook/:provider');
     console.log('');
   });
 
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     console.log(`\n${signal} recebido. Encerrando...`);
+    adapterMappingSync.stop();
+    await classificationWorker.stop();
+    await eventDeliveryWorker.stop();
     await prisma.$disconnect();
     process.exit(0);
   };
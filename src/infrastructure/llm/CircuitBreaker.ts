@@ -0,0 +1,70 @@
+/**
+ * Configuração do circuit breaker.
+ */
+export interface CircuitBreakerConfig {
+  /** Falhas consecutivas que abrem o circuito */
+  failureThreshold: number;
+  /** Tempo em que o circuito fica aberto antes de permitir nova tentativa (ms) */
+  cooldownMs: number;
+}
+
+/**
+ * Estado do circuito.
+ * - closed: chamadas liberadas
+ * - open: chamadas bloqueadas até o fim do cooldown
+ * - half_open: cooldown encerrado, a próxima chamada decide se o circuito fecha ou reabre
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Circuit breaker em memória para um backend de classificação.
+ *
+ * Após `failureThreshold` falhas consecutivas o backend é pulado durante `cooldownMs`.
+ * Terminado o cooldown, uma falha reabre o circuito imediatamente e um sucesso o fecha.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil: number | null = null;
+
+  constructor(
+    private readonly config: CircuitBreakerConfig,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Estado atual do circuito.
+   */
+  getState(): CircuitState {
+    if (this.openUntil === null) {
+      return 'closed';
+    }
+    return this.now() < this.openUntil ? 'open' : 'half_open';
+  }
+
+  /**
+   * Indica se uma chamada pode ser feita (circuito fechado ou em teste).
+   */
+  canAttempt(): boolean {
+    return this.getState() !== 'open';
+  }
+
+  /**
+   * Registra uma chamada bem-sucedida: zera as falhas e fecha o circuito.
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = null;
+  }
+
+  /**
+   * Registra uma falha. Abre o circuito ao atingir o limite ou se a tentativa
+   * após o cooldown também falhar.
+   */
+  recordFailure(): void {
+    this.failures++;
+
+    if (this.openUntil !== null || this.failures >= this.config.failureThreshold) {
+      this.openUntil = this.now() + this.config.cooldownMs;
+    }
+  }
+}
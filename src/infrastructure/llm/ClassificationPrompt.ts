@@ -0,0 +1,130 @@
+import type { ClassificationContext } from '../../usecases/interfaces/ClassificationService.js';
+import { FALLBACK_INTENT_KEY, type IntentDefinition } from '../../domain/entities/Intent.js';
+import { ProcessingError } from '../../domain/errors/WebhookErrors.js';
+
+/**
+ * Versão do prompt de classificação.
+ * Incrementar ao alterar o prompt ou a validação da resposta: invalida o cache de classificações.
+ */
+export const CLASSIFICATION_PROMPT_VERSION = '1';
+
+/**
+ * Prompt de classificação de intenção, compartilhado pelos classificadores LLM.
+ * As categorias vêm do catálogo de intenções.
+ * Retorna JSON estruturado com intent e confidence.
+ */
+const CLASSIFICATION_PROMPT = `Você é um classificador de intenções de mensagens de WhatsApp para um sistema de vendas.
+
+Classifique a ÚLTIMA mensagem da conversa abaixo em UMA das seguintes categorias:
+{categories}
+
+Use as mensagens anteriores apenas como contexto (ex: "sim, quero" após uma pergunta sobre preço).
+
+Responda APENAS com JSON no formato:
+{ "intent": "categoria", "confidence": 0.0 a 1.0 }
+
+Conversa (mais antiga primeiro):
+{transcript}`;
+
+/**
+ * Rótulos dos participantes no transcript da conversa.
+ */
+const SPEAKER_LABELS = {
+  contact: 'Contato',
+  agent: 'Atendente',
+} as const;
+
+/**
+ * Monta o prompt de classificação a partir do catálogo e da conversa.
+ */
+export function buildClassificationPrompt(
+  intents: IntentDefinition[],
+  content: string,
+  context?: ClassificationContext
+): string {
+  // Replacer em função: evita que "$&", "$1" etc. do conteúdo sejam interpretados
+  return CLASSIFICATION_PROMPT
+    .replace('{categories}', () => buildCategories(intents))
+    .replace('{transcript}', () => buildTranscript(content, context, 'mensagem a classificar'));
+}
+
+/**
+ * Monta o transcript da conversa, uma mensagem por linha.
+ * A mensagem analisada é sempre a última e fica marcada com o rótulo informado.
+ */
+export function buildTranscript(
+  content: string,
+  context: ClassificationContext | undefined,
+  label: string
+): string {
+  const lines = (context?.history ?? []).map((turn) => {
+    const speaker = turn.isFromMe ? SPEAKER_LABELS.agent : SPEAKER_LABELS.contact;
+    return `${speaker}: "${turn.content}"`;
+  });
+
+  lines.push(`${SPEAKER_LABELS.contact} (${label}): "${content}"`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Parseia a resposta JSON do LLM.
+ * Extrai o JSON mesmo se houver texto extra.
+ * @throws ProcessingError se a resposta não tiver JSON válido
+ */
+export function parseClassificationResponse(
+  text: string,
+  intents: IntentDefinition[]
+): { intent: string; confidence: number } {
+  try {
+    // Tenta extrair JSON de dentro da resposta (caso tenha texto extra)
+    const jsonMatch = text.match(/\{[\s\S]*?\}/);
+    if (!jsonMatch) {
+      throw new Error('Resposta não contém JSON válido');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+
+    // Valida campos obrigatórios
+    if (typeof parsed.intent !== 'string') {
+      throw new Error('Campo "intent" ausente ou inválido');
+    }
+
+    if (typeof parsed.confidence !== 'number') {
+      throw new Error('Campo "confidence" ausente ou inválido');
+    }
+
+    // Valida range do confidence
+    if (parsed.confidence < 0 || parsed.confidence > 1) {
+      throw new Error('Campo "confidence" deve estar entre 0 e 1');
+    }
+
+    // Valida intent contra o catálogo
+    if (!intents.some((intent) => intent.key === parsed.intent)) {
+      // Aceita mas loga warning - LLM pode ser criativo
+      console.warn(`Intent não reconhecido: ${parsed.intent}, usando "${FALLBACK_INTENT_KEY}"`);
+      parsed.intent = FALLBACK_INTENT_KEY;
+    }
+
+    return { intent: parsed.intent, confidence: parsed.confidence };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new ProcessingError('parse_classification', error);
+    }
+    throw new ProcessingError('parse_classification', new Error('Failed to parse JSON'));
+  }
+}
+
+/**
+ * Monta a lista de categorias do prompt, uma por linha.
+ */
+function buildCategories(intents: IntentDefinition[]): string {
+  return intents
+    .map((intent) => {
+      const examples = intent.examples.map((example) => `"${example}"`).join(', ');
+      return examples
+        ? `- ${intent.key}: ${intent.description} (ex: ${examples})`
+        : `- ${intent.key}: ${intent.description}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,77 @@
+import type {
+  ClassificationService,
+  ClassificationContext,
+  ServiceCallOptions,
+} from '../../usecases/interfaces/ClassificationService.js';
+import type { Classification } from '../../domain/entities/NormalizedMessage.js';
+import type { CircuitBreakerConfig } from './CircuitBreaker.js';
+import { FallbackChain, type FallbackEntry, type FallbackStatus } from './FallbackChain.js';
+
+/**
+ * Classificador da cadeia. O nome é registrado na mensagem classificada
+ * (ex: "claude", "openai", "keyword").
+ */
+export type ClassifierEntry = FallbackEntry<ClassificationService>;
+
+/**
+ * Estado de um classificador da cadeia (diagnóstico).
+ */
+export type ClassifierStatus = FallbackStatus;
+
+/**
+ * Configuração da cadeia (circuit breaker de cada classificador).
+ */
+export type ClassifierChainConfig = CircuitBreakerConfig;
+
+/**
+ * ClassificationService composto: tenta os classificadores em ordem e usa o
+ * primeiro que responder (FallbackChain).
+ *
+ * Responsabilidades:
+ * - Cair para o próximo classificador em caso de erro ou timeout (a chamada é abortada)
+ * - Pular classificadores com circuito aberto (falhas consecutivas) durante o cooldown
+ * - Registrar na classificação o nome do classificador que produziu o resultado
+ *
+ * Se todos falharem, lança ProcessingError com o motivo de cada um
+ * (a mensagem volta para a fila e é tentada de novo pelo worker).
+ */
+export class ClassifierChain implements ClassificationService {
+  private readonly chain: FallbackChain<ClassificationService>;
+
+  constructor(classifiers: readonly ClassifierEntry[], config: ClassifierChainConfig) {
+    this.chain = new FallbackChain(classifiers, {
+      ...config,
+      label: 'ClassifierChain',
+      step: 'classify_chain',
+    });
+  }
+
+  /**
+   * Classifica com o primeiro classificador disponível da cadeia.
+   *
+   * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
+   * @param options - Opções da chamada; o sinal cancela também a tentativa em andamento
+   * @returns Classificação com intent, confidence e o classificador usado
+   * @throws ProcessingError se todos os classificadores falharem ou estiverem indisponíveis
+   */
+  async classify(
+    content: string,
+    context?: ClassificationContext,
+    options?: ServiceCallOptions
+  ): Promise<Classification> {
+    const { result, name } = await this.chain.run(
+      (service, signal) => service.classify(content, context, { signal }),
+      options?.signal
+    );
+
+    return { ...result, classifier: name };
+  }
+
+  /**
+   * Estado do circuito de cada classificador, na ordem da cadeia.
+   */
+  getStatus(): ClassifierStatus[] {
+    return this.chain.getStatus();
+  }
+}
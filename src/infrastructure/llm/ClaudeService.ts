@@ -1,59 +1,154 @@
 import Anthropic from '@anthropic-ai/sdk';
-import type { ClassificationService } from '../../usecases/interfaces/ClassificationService.js';
+import { z } from 'zod';
+import type {
+  ClassificationService,
+  ClassificationContext,
+  ServiceCallOptions,
+} from '../../usecases/interfaces/ClassificationService.js';
+import type { LeadQualificationService } from '../../usecases/interfaces/LeadQualificationService.js';
+import type { IntentCatalog } from '../../usecases/interfaces/IntentCatalog.js';
 import type { Classification } from '../../domain/entities/NormalizedMessage.js';
+import { LEAD_TIMELINES, type LeadSignals } from '../../domain/entities/LeadProfile.js';
 import { ProcessingError } from '../../domain/errors/WebhookErrors.js';
+import {
+  CLASSIFICATION_PROMPT_VERSION,
+  buildClassificationPrompt,
+  buildTranscript,
+  parseClassificationResponse,
+} from './ClassificationPrompt.js';
 
 /**
- * Prompt de classificação de intenção.
- * Retorna JSON estruturado com intent e confidence.
+ * Modelo usado na classificação e na extração de sinais (mais rápido e econômico).
  */
-const CLASSIFICATION_PROMPT = `Você é um classificador de intenções de mensagens de WhatsApp para um sistema de vendas.
+const CLAUDE_MODEL = 'claude-3-haiku-20240307';
 
-Classifique a mensagem abaixo em UMA das seguintes categorias:
-- interesse_produto: Lead quer comprar ou saber mais sobre o produto
-- duvida_produto: Pergunta sobre preço, características, disponibilidade
-- suporte_tecnico: Problema técnico, dificuldade de uso
-- reclamacao: Insatisfação, queixa, problema com compra
-- saudacao: Apenas oi, olá, bom dia, sem conteúdo adicional
-- outro: Não se encaixa em nenhuma categoria
+/**
+ * Retentativas automáticas do SDK desligadas: a cadeia de fallback e o worker já retentam,
+ * e retentativas internas continuariam consumindo a API depois do timeout da cadeia.
+ */
+const CLAUDE_MAX_RETRIES = 0;
+
+/**
+ * Prompt de extração dos sinais de qualificação (BANT).
+ * A resposta é obrigatoriamente uma chamada da ferramenta LEAD_SIGNALS_TOOL.
+ */
+const LEAD_SIGNALS_PROMPT = `Você analisa conversas de WhatsApp de leads para um time de vendas.
 
-Responda APENAS com JSON no formato:
-{ "intent": "categoria", "confidence": 0.0 a 1.0 }
+Extraia os sinais de qualificação (BANT) presentes na ÚLTIMA mensagem do contato na conversa abaixo.
+Use as mensagens anteriores apenas como contexto (ex: "sou eu mesmo" após "quem decide a compra?").
+Não invente sinais: sem evidência na última mensagem, use false, null, "unknown" ou lista vazia.
 
-Mensagem: "{content}"`;
+Registre o resultado com a ferramenta {tool}.
+
+Conversa (mais antiga primeiro):
+{transcript}`;
+
+/**
+ * Ferramenta com o schema JSON estrito dos sinais de qualificação.
+ * O uso é forçado (tool_choice), então a resposta sempre segue o schema.
+ */
+const LEAD_SIGNALS_TOOL: Anthropic.Tool = {
+  name: 'registrar_sinais_lead',
+  description: 'Registra os sinais de qualificação (BANT) encontrados na última mensagem do contato',
+  input_schema: {
+    type: 'object',
+    properties: {
+      budgetMentioned: {
+        type: 'boolean',
+        description: 'O contato falou de orçamento, verba ou valor que pode pagar',
+      },
+      budget: {
+        type: ['string', 'null'],
+        description: 'Valor ou faixa citada, como escrita pelo contato (null se não citou)',
+      },
+      timeline: {
+        type: 'string',
+        enum: [...LEAD_TIMELINES],
+        description:
+          'Prazo de compra: immediate (hoje ou nos próximos dias), short_term (até 3 meses), long_term (mais de 3 meses), unknown (sem sinal)',
+      },
+      decisionMaker: {
+        type: ['boolean', 'null'],
+        description: 'true se o contato decide a compra, false se depende de outra pessoa, null sem sinal',
+      },
+      productInterest: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Produtos ou serviços de interesse citados',
+      },
+      objections: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Objeções levantadas, em poucas palavras (ex: "preço", "concorrência", "confiança")',
+      },
+    },
+    required: ['budgetMentioned', 'budget', 'timeline', 'decisionMaker', 'productInterest', 'objections'],
+    additionalProperties: false,
+  },
+};
 
 /**
- * Implementação do ClassificationService usando Claude LLM.
+ * Validação da entrada da ferramenta (mesmo schema, sem campos extras).
+ */
+const LeadSignalsSchema = z
+  .object({
+    budgetMentioned: z.boolean(),
+    budget: z.string().trim().min(1).max(200).nullable(),
+    timeline: z.enum(LEAD_TIMELINES),
+    decisionMaker: z.boolean().nullable(),
+    productInterest: z.array(z.string().trim().min(1).max(200)).max(20),
+    objections: z.array(z.string().trim().min(1).max(200)).max(20),
+  })
+  .strict();
+
+/**
+ * Implementação do ClassificationService e do LeadQualificationService usando Claude LLM.
  *
  * Responsabilidades:
  * - Classificar intenção de mensagens de texto
+ * - Montar prompt e validação a partir do catálogo de intenções
  * - Retornar classificação estruturada (intent + confidence)
+ * - Extrair os sinais de qualificação do lead (BANT) com schema JSON estrito
  *
  * Princípio: Fail-Fast - erros são propagados sem fallbacks.
  */
-export class ClaudeService implements ClassificationService {
+export class ClaudeService implements ClassificationService, LeadQualificationService {
   private readonly client: Anthropic;
 
-  constructor(apiKey: string) {
-    this.client = new Anthropic({ apiKey });
+  constructor(
+    apiKey: string,
+    private readonly intentCatalog: IntentCatalog
+  ) {
+    this.client = new Anthropic({ apiKey, maxRetries: CLAUDE_MAX_RETRIES });
   }
 
   /**
    * Classifica a intenção de uma mensagem usando Claude.
+   * O histórico recente é enviado como transcript antes da mensagem classificada.
    *
    * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
+   * @param options - Opções da chamada; o sinal aborta a requisição à API
    * @returns Classificação com intent e confidence
-   * @throws ProcessingError se falhar ao classificar
+   * @throws ProcessingError se falhar ao classificar ou se a chamada for cancelada
    */
-  async classify(content: string): Promise<Classification> {
-    const prompt = CLASSIFICATION_PROMPT.replace('{content}', content);
-
+  async classify(
+    content: string,
+    context?: ClassificationContext,
+    options?: ServiceCallOptions
+  ): Promise<Classification> {
     try {
-      const response = await this.client.messages.create({
-        model: 'claude-3-haiku-20240307', // Mais rápido e econômico
-        max_tokens: 100,
-        messages: [{ role: 'user', content: prompt }],
-      });
+      const intents = await this.intentCatalog.getActive();
+      const prompt = buildClassificationPrompt(intents, content, context);
+
+      const response = await this.client.messages.create(
+        {
+          model: CLAUDE_MODEL,
+          max_tokens: 100,
+          messages: [{ role: 'user', content: prompt }],
+        },
+        { signal: options?.signal }
+      );
 
       // Extrai o texto da resposta
       const textBlock = response.content.find((block) => block.type === 'text');
@@ -62,11 +157,14 @@ export class ClaudeService implements ClassificationService {
       }
 
       // Parseia o JSON da resposta
-      const parsed = this.parseClassificationResponse(textBlock.text);
+      const parsed = parseClassificationResponse(textBlock.text, intents);
 
       return {
         intent: parsed.intent,
         confidence: parsed.confidence,
+        source: 'llm',
+        model: CLAUDE_MODEL,
+        promptVersion: CLASSIFICATION_PROMPT_VERSION,
       };
     } catch (error) {
       if (error instanceof ProcessingError) {
@@ -80,55 +178,66 @@ export class ClaudeService implements ClassificationService {
   }
 
   /**
-   * Parseia a resposta JSON do Claude.
-   * Extrai o JSON mesmo se houver texto extra.
+   * Extrai os sinais de qualificação (BANT) de uma mensagem usando Claude.
+   * A resposta vem pela ferramenta LEAD_SIGNALS_TOOL e é validada contra o mesmo schema.
+   *
+   * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
+   * @param options - Opções da chamada; o sinal aborta a requisição à API
+   * @returns Sinais encontrados na mensagem
+   * @throws ProcessingError se falhar ao extrair ou se a chamada for cancelada
    */
-  private parseClassificationResponse(text: string): { intent: string; confidence: number } {
+  async extractSignals(
+    content: string,
+    context?: ClassificationContext,
+    options?: ServiceCallOptions
+  ): Promise<LeadSignals> {
     try {
-      // Tenta extrair JSON de dentro da resposta (caso tenha texto extra)
-      const jsonMatch = text.match(/\{[\s\S]*?\}/);
-      if (!jsonMatch) {
-        throw new Error('Resposta não contém JSON válido');
+      const prompt = LEAD_SIGNALS_PROMPT
+        .replace('{tool}', () => LEAD_SIGNALS_TOOL.name)
+        .replace('{transcript}', () => buildTranscript(content, context, 'mensagem a analisar'));
+
+      const response = await this.client.messages.create(
+        {
+          model: CLAUDE_MODEL,
+          max_tokens: 500,
+          tools: [LEAD_SIGNALS_TOOL],
+          tool_choice: { type: 'tool', name: LEAD_SIGNALS_TOOL.name },
+          messages: [{ role: 'user', content: prompt }],
+        },
+        { signal: options?.signal }
+      );
+
+      const toolBlock = response.content.find((block) => block.type === 'tool_use');
+      if (!toolBlock || toolBlock.type !== 'tool_use') {
+        throw new Error('Resposta do Claude não contém a chamada da ferramenta');
       }
 
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      // Valida campos obrigatórios
-      if (typeof parsed.intent !== 'string') {
-        throw new Error('Campo "intent" ausente ou inválido');
-      }
-
-      if (typeof parsed.confidence !== 'number') {
-        throw new Error('Campo "confidence" ausente ou inválido');
-      }
-
-      // Valida range do confidence
-      if (parsed.confidence < 0 || parsed.confidence > 1) {
-        throw new Error('Campo "confidence" deve estar entre 0 e 1');
-      }
-
-      // Valida intent válido
-      const validIntents = [
-        'interesse_produto',
-        'duvida_produto',
-        'suporte_tecnico',
-        'reclamacao',
-        'saudacao',
-        'outro',
-      ];
-
-      if (!validIntents.includes(parsed.intent)) {
-        // Aceita mas loga warning - LLM pode ser criativo
-        console.warn(`Intent não reconhecido: ${parsed.intent}, usando "outro"`);
-        parsed.intent = 'outro';
-      }
-
-      return parsed;
+      return this.parseLeadSignals(toolBlock.input);
     } catch (error) {
+      if (error instanceof ProcessingError) {
+        throw error;
+      }
       if (error instanceof Error) {
-        throw new ProcessingError('parse_classification', error);
+        throw new ProcessingError('extract_lead_llm', error);
       }
-      throw new ProcessingError('parse_classification', new Error('Failed to parse JSON'));
+      throw new ProcessingError('extract_lead_llm', new Error('Unknown error'));
+    }
+  }
+
+  /**
+   * Valida a entrada da ferramenta de sinais de qualificação.
+   */
+  private parseLeadSignals(input: unknown): LeadSignals {
+    const result = LeadSignalsSchema.safeParse(input);
+
+    if (!result.success) {
+      const details = result.error.issues
+        .map((issue) => `${issue.path.join('.') || '(raiz)'}: ${issue.message}`)
+        .join('; ');
+      throw new ProcessingError('parse_lead_signals', new Error(`Sinais inválidos: ${details}`));
     }
+
+    return result.data;
   }
 }
@@ -0,0 +1,161 @@
+import { ProcessingError } from '../../domain/errors/WebhookErrors.js';
+import { CircuitBreaker, type CircuitBreakerConfig, type CircuitState } from './CircuitBreaker.js';
+
+/**
+ * Serviço da cadeia.
+ */
+export interface FallbackEntry<TService> {
+  /** Nome do serviço (ex: "claude", "openai", "keyword") */
+  name: string;
+  service: TService;
+  /** Tempo máximo da chamada neste serviço (ms). Ao estourar, a chamada é abortada */
+  timeoutMs: number;
+}
+
+/**
+ * Estado de um serviço da cadeia (diagnóstico).
+ */
+export interface FallbackStatus {
+  name: string;
+  state: CircuitState;
+}
+
+/**
+ * Configuração da cadeia.
+ */
+export interface FallbackChainConfig extends CircuitBreakerConfig {
+  /** Prefixo dos logs (ex: "ClassifierChain") */
+  label: string;
+  /** Passo registrado no ProcessingError quando todos os serviços falham */
+  step: string;
+}
+
+/**
+ * Resultado da cadeia, com o serviço que respondeu.
+ */
+export interface FallbackResult<TResult> {
+  result: TResult;
+  name: string;
+}
+
+/**
+ * Cadeia de serviços equivalentes com fallback: tenta os serviços em ordem e usa
+ * o primeiro que responder.
+ *
+ * Responsabilidades:
+ * - Cair para o próximo serviço em caso de erro ou timeout
+ * - Abortar a chamada que estourou o timeout (o serviço recebe um AbortSignal)
+ * - Pular serviços com circuito aberto (falhas consecutivas) durante o cooldown
+ *
+ * Se todos falharem, lança ProcessingError com o motivo de cada um.
+ */
+export class FallbackChain<TService> {
+  private readonly breakers: Map<string, CircuitBreaker>;
+
+  constructor(
+    private readonly entries: readonly FallbackEntry<TService>[],
+    private readonly config: FallbackChainConfig
+  ) {
+    if (entries.length === 0) {
+      throw new Error(`${config.label}: a cadeia precisa de ao menos um serviço`);
+    }
+
+    this.breakers = new Map(entries.map((entry) => [entry.name, new CircuitBreaker(config)]));
+  }
+
+  /**
+   * Executa a chamada no primeiro serviço disponível da cadeia.
+   *
+   * @param call - Chamada a executar em cada serviço, com o sinal abortado no timeout
+   * @param signal - Cancela a cadeia inteira, inclusive a tentativa em andamento (opcional)
+   * @returns Resultado e nome do serviço que respondeu
+   * @throws ProcessingError se todos os serviços falharem ou estiverem indisponíveis,
+   *   ou se a cadeia for cancelada
+   */
+  async run<TResult>(
+    call: (service: TService, signal: AbortSignal) => Promise<TResult>,
+    signal?: AbortSignal
+  ): Promise<FallbackResult<TResult>> {
+    const failures: string[] = [];
+
+    for (const entry of this.entries) {
+      if (signal?.aborted) {
+        throw new ProcessingError(this.config.step, new Error('Chamada cancelada'));
+      }
+
+      const breaker = this.getBreaker(entry.name);
+
+      if (!breaker.canAttempt()) {
+        failures.push(`${entry.name}: circuito aberto`);
+        continue;
+      }
+
+      try {
+        const result = await this.attempt(entry, call, signal);
+        breaker.recordSuccess();
+
+        return { result, name: entry.name };
+      } catch (error) {
+        // Cancelamento de quem chamou não é falha do serviço
+        if (signal?.aborted) {
+          throw new ProcessingError(this.config.step, new Error('Chamada cancelada'));
+        }
+
+        breaker.recordFailure();
+
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        failures.push(`${entry.name}: ${reason}`);
+        console.warn(`[${this.config.label}] "${entry.name}" falhou: ${reason}`);
+
+        if (breaker.getState() === 'open') {
+          console.warn(`[${this.config.label}] Circuito de "${entry.name}" aberto`);
+        }
+      }
+    }
+
+    throw new ProcessingError(
+      this.config.step,
+      new Error(`Nenhum serviço disponível (${failures.join('; ')})`)
+    );
+  }
+
+  /**
+   * Executa a chamada em um serviço, abortando-a ao estourar o timeout.
+   * O erro do cancelamento (ex: APIUserAbortError do SDK) é trocado por um erro de timeout.
+   */
+  private async attempt<TResult>(
+    entry: FallbackEntry<TService>,
+    call: (service: TService, signal: AbortSignal) => Promise<TResult>,
+    parent: AbortSignal | undefined
+  ): Promise<TResult> {
+    const timeout = AbortSignal.timeout(entry.timeoutMs);
+    const signal = parent ? AbortSignal.any([timeout, parent]) : timeout;
+
+    try {
+      return await call(entry.service, signal);
+    } catch (error) {
+      if (timeout.aborted) {
+        throw new Error(`Timeout após ${entry.timeoutMs}ms`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Estado do circuito de cada serviço, na ordem da cadeia.
+   */
+  getStatus(): FallbackStatus[] {
+    return this.entries.map((entry) => ({
+      name: entry.name,
+      state: this.getBreaker(entry.name).getState(),
+    }));
+  }
+
+  private getBreaker(name: string): CircuitBreaker {
+    const breaker = this.breakers.get(name);
+    if (!breaker) {
+      throw new Error(`Circuit breaker não encontrado: ${name}`);
+    }
+    return breaker;
+  }
+}
@@ -0,0 +1,57 @@
+import type { LeadQualificationService } from '../../usecases/interfaces/LeadQualificationService.js';
+import type {
+  ClassificationContext,
+  ServiceCallOptions,
+} from '../../usecases/interfaces/ClassificationService.js';
+import type { LeadSignals } from '../../domain/entities/LeadProfile.js';
+import type { CircuitBreakerConfig } from './CircuitBreaker.js';
+import { FallbackChain, type FallbackEntry } from './FallbackChain.js';
+
+/**
+ * Serviço de qualificação da cadeia (nome usado nos logs, ex: "claude", "keyword").
+ */
+export type LeadQualifierEntry = FallbackEntry<LeadQualificationService>;
+
+/**
+ * Configuração da cadeia (circuit breaker de cada serviço).
+ */
+export type LeadQualificationChainConfig = CircuitBreakerConfig;
+
+/**
+ * LeadQualificationService composto: tenta os serviços em ordem e usa o
+ * primeiro que responder, com as mesmas regras da cadeia de classificação (FallbackChain).
+ *
+ * Se todos falharem, lança ProcessingError com o motivo de cada um.
+ */
+export class LeadQualificationChain implements LeadQualificationService {
+  private readonly chain: FallbackChain<LeadQualificationService>;
+
+  constructor(qualifiers: readonly LeadQualifierEntry[], config: LeadQualificationChainConfig) {
+    this.chain = new FallbackChain(qualifiers, {
+      ...config,
+      label: 'LeadQualificationChain',
+      step: 'extract_lead_chain',
+    });
+  }
+
+  /**
+   * Extrai os sinais com o primeiro serviço disponível da cadeia.
+   *
+   * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
+   * @param options - Opções da chamada; o sinal cancela também a tentativa em andamento
+   * @returns Sinais encontrados na mensagem
+   * @throws ProcessingError se todos os serviços falharem ou estiverem indisponíveis
+   */
+  async extractSignals(
+    content: string,
+    context?: ClassificationContext,
+    options?: ServiceCallOptions
+  ): Promise<LeadSignals> {
+    const { result } = await this.chain.run(
+      (service, signal) => service.extractSignals(content, context, { signal }),
+      options?.signal
+    );
+    return result;
+  }
+}
@@ -1,51 +1,224 @@
-import type { ClassificationService } from '../../usecases/interfaces/ClassificationService.js';
+import type {
+  ClassificationService,
+  ClassificationContext,
+} from '../../usecases/interfaces/ClassificationService.js';
+import type { LeadQualificationService } from '../../usecases/interfaces/LeadQualificationService.js';
+import type { IntentCatalog } from '../../usecases/interfaces/IntentCatalog.js';
 import type { Classification } from '../../domain/entities/NormalizedMessage.js';
+import { FALLBACK_INTENT_KEY, type IntentDefinition } from '../../domain/entities/Intent.js';
+import type { LeadSignals, LeadTimeline } from '../../domain/entities/LeadProfile.js';
+
+/**
+ * Quantidade máxima de palavras para uma mensagem ser tratada como resposta curta
+ * (ex: "sim", "pode ser", "ok, manda") e herdar a intenção do contexto.
+ */
+const SHORT_REPLY_MAX_WORDS = 4;
+
+/**
+ * Confiança atribuída por tipo de decisão.
+ */
+const KEYWORD_CONFIDENCE = 0.85;
+const CONTEXT_CONFIDENCE = 0.70;
+const FALLBACK_CONFIDENCE = 0.60;
+
+/**
+ * Regras dos sinais de qualificação, aplicadas ao texto em minúsculas e sem acentos.
+ */
+const BUDGET_PATTERN = /r\$\s*\d[\d.,]*(?:\s*(?:mil|k)\b)?|\b\d[\d.,]*\s*(?:mil|k|reais)\b/;
+const BUDGET_KEYWORDS = ['orcamento', 'verba', 'budget', 'quanto posso pagar', 'posso investir'];
+
+/**
+ * Expressões de prazo, da mais urgente para a menos urgente (vence a primeira encontrada).
+ */
+const TIMELINE_KEYWORDS: Array<[Exclude<LeadTimeline, 'unknown'>, string[]]> = [
+  ['immediate', ['hoje', 'agora', 'urgente', 'imediato', 'amanha', 'essa semana', 'esta semana']],
+  ['short_term', ['proxima semana', 'esse mes', 'este mes', 'proximo mes', 'em breve', 'semanas']],
+  ['long_term', ['ano que vem', 'proximo ano', 'semestre', 'meses', 'sem pressa', 'futuro']],
+];
+
+/**
+ * Expressões de dependência de terceiros (avaliadas antes das de decisor).
+ */
+const INFLUENCER_KEYWORDS = [
+  'falar com meu',
+  'falar com minha',
+  'ver com meu',
+  'ver com minha',
+  'consultar',
+  'aprovacao',
+  'nao sou eu que decido',
+  'nao decido',
+];
+const DECISION_MAKER_KEYWORDS = [
+  'eu decido',
+  'eu que decido',
+  'sou o dono',
+  'sou a dona',
+  'sou dono',
+  'sou dona',
+  'proprietario',
+  'sou socio',
+  'sou diretor',
+  'sou diretora',
+];
+
+/**
+ * Expressões que antecedem o produto de interesse (captura até 4 palavras).
+ */
+const PRODUCT_PATTERN =
+  /\b(?:interesse (?:em|no|na|nos|nas)|quero (?:comprar|contratar|assinar)|preco d[oa]s?|orcamento d[oa]s?)\s+((?:[a-z0-9-]+\s?){1,4})/g;
+const PRODUCT_STOPWORDS = new Set(['o', 'a', 'os', 'as', 'um', 'uma', 'de', 'do', 'da', 'pra', 'para']);
+
+/**
+ * Objeções por palavra-chave.
+ */
+const OBJECTION_KEYWORDS: Array<[string, string[]]> = [
+  ['preço', ['caro', 'muito alto', 'desconto', 'mais barato']],
+  ['orçamento', ['sem dinheiro', 'sem grana', 'sem verba', 'apertado']],
+  ['concorrência', ['concorrente', 'outra empresa', 'outro fornecedor']],
+  ['confiança', ['golpe', 'nao confio', 'confiavel']],
+  ['indecisão', ['vou pensar', 'nao sei se', 'talvez']],
+];
 
 /**
  * Mock do ClaudeService para testes locais sem custo de API.
  *
- * Classifica mensagens usando regras simples baseadas em palavras-chave.
+ * Os sinais de qualificação (BANT) também vêm de regras determinísticas
+ * por palavras-chave; o histórico não é usado, pois o perfil é acumulado.
+ *
+ * Classifica mensagens usando regras simples baseadas em palavras-chave:
+ * os exemplos de cada intenção do catálogo são usados como palavras-chave
+ * e vence a intenção com mais exemplos encontrados na mensagem.
+ * Respostas curtas sem palavra-chave herdam a intenção da mensagem anterior
+ * mais recente do histórico, espelhando o uso de contexto do ClaudeService.
  * Use quando não tiver créditos na API Anthropic ou para testes automatizados.
  */
-export class MockClaudeService implements ClassificationService {
+export class MockClaudeService implements ClassificationService, LeadQualificationService {
+  constructor(private readonly intentCatalog: IntentCatalog) {}
+
   /**
    * Classifica a intenção de uma mensagem usando regras simples.
    *
    * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
    * @returns Classificação com intent e confidence
    */
-  async classify(content: string): Promise<Classification> {
-    const lowerContent = content.toLowerCase();
+  async classify(content: string, context?: ClassificationContext): Promise<Classification> {
+    const intents = await this.intentCatalog.getActive();
 
-    // Regras simples de classificação baseadas em palavras-chave
-    if (this.containsAny(lowerContent, ['comprar', 'quero', 'preço', 'valor', 'quanto custa', 'interesse'])) {
-      return { intent: 'interesse_produto', confidence: 0.85 };
+    const direct = this.classifyByKeywords(content, intents);
+    if (direct) {
+      return { ...direct, source: 'mock' };
     }
 
-    if (this.containsAny(lowerContent, ['dúvida', 'como funciona', 'qual', 'quando', 'onde', 'características'])) {
-      return { intent: 'duvida_produto', confidence: 0.80 };
+    // Resposta curta: usa a mensagem anterior mais recente que tenha intenção reconhecível
+    if (context && this.isShortReply(content)) {
+      for (const turn of [...context.history].reverse()) {
+        const inherited = this.classifyByKeywords(turn.content, intents);
+        if (inherited) {
+          return { intent: inherited.intent, confidence: CONTEXT_CONFIDENCE, source: 'mock' };
+        }
+      }
     }
 
-    if (this.containsAny(lowerContent, ['suporte', 'ajuda', 'problema', 'erro', 'não funciona', 'bug'])) {
-      return { intent: 'suporte_tecnico', confidence: 0.85 };
+    // Default: intenção de fallback
+    return { intent: FALLBACK_INTENT_KEY, confidence: FALLBACK_CONFIDENCE, source: 'mock' };
+  }
+
+  /**
+   * Extrai os sinais de qualificação usando regras simples.
+   *
+   * @param content - Conteúdo textual da mensagem
+   * @returns Sinais encontrados na mensagem
+   */
+  async extractSignals(content: string): Promise<LeadSignals> {
+    const text = this.foldText(content);
+    const budget = text.match(BUDGET_PATTERN)?.[0] ?? null;
+
+    return {
+      budgetMentioned: budget !== null || this.countMatches(text, BUDGET_KEYWORDS) > 0,
+      budget,
+      timeline:
+        TIMELINE_KEYWORDS.find(([, keywords]) => this.countMatches(text, keywords) > 0)?.[0] ??
+        'unknown',
+      decisionMaker: this.detectDecisionMaker(text),
+      productInterest: this.extractProducts(text),
+      objections: OBJECTION_KEYWORDS.filter(
+        ([, keywords]) => this.countMatches(text, keywords) > 0
+      ).map(([label]) => label),
+    };
+  }
+
+  /**
+   * Sinal de poder de decisão: dependência de terceiros tem prioridade.
+   */
+  private detectDecisionMaker(text: string): boolean | null {
+    if (this.countMatches(text, INFLUENCER_KEYWORDS) > 0) {
+      return false;
     }
+    return this.countMatches(text, DECISION_MAKER_KEYWORDS) > 0 ? true : null;
+  }
 
-    if (this.containsAny(lowerContent, ['reclamação', 'insatisfeito', 'péssimo', 'ruim', 'horrível', 'decepcionado'])) {
-      return { intent: 'reclamacao', confidence: 0.90 };
+  /**
+   * Extrai os produtos citados após expressões de interesse
+   * (ex: "quero contratar o plano premium" -> "plano premium").
+   */
+  private extractProducts(text: string): string[] {
+    const products = new Set<string>();
+
+    for (const match of text.matchAll(PRODUCT_PATTERN)) {
+      const words = (match[1] ?? '').trim().split(/\s+/);
+      while (words.length > 0 && PRODUCT_STOPWORDS.has(words[0] ?? '')) {
+        words.shift();
+      }
+      if (words.length > 0) {
+        products.add(words.join(' '));
+      }
     }
 
-    if (this.containsAny(lowerContent, ['oi', 'olá', 'bom dia', 'boa tarde', 'boa noite', 'hey', 'opa'])) {
-      return { intent: 'saudacao', confidence: 0.95 };
+    return [...products];
+  }
+
+  /**
+   * Texto em minúsculas e sem acentos, para comparar com as regras.
+   */
+  private foldText(content: string): string {
+    return content.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  }
+
+  /**
+   * Regras de classificação a partir dos exemplos do catálogo.
+   * Empates são resolvidos pela ordem do catálogo.
+   * Retorna null se nenhum exemplo for encontrado.
+   */
+  private classifyByKeywords(content: string, intents: IntentDefinition[]): Classification | null {
+    const lowerContent = content.toLowerCase();
+
+    let best: { key: string; matches: number } | null = null;
+    for (const intent of intents) {
+      const keywords = intent.examples.map((example) => example.toLowerCase());
+      const matches = this.countMatches(lowerContent, keywords);
+
+      if (matches > 0 && (!best || matches > best.matches)) {
+        best = { key: intent.key, matches };
+      }
     }
 
-    // Default: outro
-    return { intent: 'outro', confidence: 0.60 };
+    return best ? { intent: best.key, confidence: KEYWORD_CONFIDENCE } : null;
+  }
+
+  /**
+   * Verifica se a mensagem é uma resposta curta.
+   */
+  private isShortReply(content: string): boolean {
+    const words = content.trim().split(/\s+/).filter(Boolean);
+    return words.length > 0 && words.length <= SHORT_REPLY_MAX_WORDS;
   }
 
   /**
-   * Verifica se o texto contém alguma das palavras-chave.
+   * Conta quantas palavras-chave aparecem no texto.
    */
-  private containsAny(text: string, keywords: string[]): boolean {
-    return keywords.some((keyword) => text.includes(keyword));
+  private countMatches(text: string, keywords: string[]): number {
+    return keywords.filter((keyword) => keyword && text.includes(keyword)).length;
   }
 }
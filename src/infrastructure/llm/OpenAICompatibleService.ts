@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import type {
+  ClassificationService,
+  ClassificationContext,
+  ServiceCallOptions,
+} from '../../usecases/interfaces/ClassificationService.js';
+import type { IntentCatalog } from '../../usecases/interfaces/IntentCatalog.js';
+import type { HttpClient } from '../../adapters/interfaces/HttpClient.js';
+import type { Classification } from '../../domain/entities/NormalizedMessage.js';
+import { ProcessingError } from '../../domain/errors/WebhookErrors.js';
+import {
+  CLASSIFICATION_PROMPT_VERSION,
+  buildClassificationPrompt,
+  parseClassificationResponse,
+} from './ClassificationPrompt.js';
+
+/**
+ * Configuração do endpoint compatível com a API da OpenAI.
+ */
+export interface OpenAICompatibleConfig {
+  /** URL base da API, sem barra final (ex: "http://localhost:11434/v1" para o Ollama) */
+  baseUrl: string;
+  /** Chave enviada como Bearer token (opcional em endpoints locais) */
+  apiKey?: string | undefined;
+  /** Modelo usado na classificação (ex: "llama3.1") */
+  model: string;
+}
+
+/**
+ * Formato mínimo da resposta de /chat/completions.
+ */
+const ChatCompletionSchema = z.object({
+  choices: z
+    .array(
+      z.object({
+        message: z.object({ content: z.string() }),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Implementação do ClassificationService para endpoints compatíveis com a API
+ * de chat completions da OpenAI (OpenAI, Ollama, vLLM, LM Studio...).
+ *
+ * Usa o mesmo prompt e a mesma validação de resposta do ClaudeService.
+ *
+ * Princípio: Fail-Fast - erros são propagados sem fallbacks.
+ */
+export class OpenAICompatibleService implements ClassificationService {
+  private readonly endpoint: string;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly intentCatalog: IntentCatalog,
+    private readonly config: OpenAICompatibleConfig
+  ) {
+    this.endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  /**
+   * Classifica a intenção de uma mensagem pelo endpoint de chat completions.
+   *
+   * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
+   * @param options - Opções da chamada; o sinal aborta a requisição ao endpoint
+   * @returns Classificação com intent e confidence
+   * @throws ProcessingError se falhar ao classificar ou se a chamada for cancelada
+   */
+  async classify(
+    content: string,
+    context?: ClassificationContext,
+    options?: ServiceCallOptions
+  ): Promise<Classification> {
+    try {
+      const intents = await this.intentCatalog.getActive();
+      const prompt = buildClassificationPrompt(intents, content, context);
+
+      const response = await this.httpClient.request({
+        method: 'POST',
+        url: this.endpoint,
+        headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : undefined,
+        body: {
+          model: this.config.model,
+          temperature: 0,
+          max_tokens: 100,
+          messages: [{ role: 'user', content: prompt }],
+        },
+        signal: options?.signal,
+      });
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Endpoint respondeu com status ${response.status}`);
+      }
+
+      const completion = ChatCompletionSchema.safeParse(response.body);
+      if (!completion.success) {
+        throw new Error('Resposta do endpoint não contém texto');
+      }
+
+      const text = completion.data.choices[0]?.message.content ?? '';
+      const parsed = parseClassificationResponse(text, intents);
+
+      return {
+        intent: parsed.intent,
+        confidence: parsed.confidence,
+        source: 'llm',
+        model: this.config.model,
+        promptVersion: CLASSIFICATION_PROMPT_VERSION,
+      };
+    } catch (error) {
+      if (error instanceof ProcessingError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new ProcessingError('classify_openai', error);
+      }
+      throw new ProcessingError('classify_openai', new Error('Unknown error'));
+    }
+  }
+}
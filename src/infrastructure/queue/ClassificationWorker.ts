@@ -0,0 +1,112 @@
+import type { ClassificationJob } from '../../domain/entities/ClassificationJob.js';
+import type { ClassificationQueue } from '../../usecases/interfaces/ClassificationQueue.js';
+import type { MessageRepository } from '../../usecases/interfaces/MessageRepository.js';
+import type { ClassifyMessageUseCase } from '../../usecases/ClassifyMessageUseCase.js';
+import type { QualifyLeadUseCase } from '../../usecases/QualifyLeadUseCase.js';
+import type { EvaluateRulesUseCase } from '../../usecases/EvaluateRulesUseCase.js';
+import { PollingWorker, type PollingWorkerConfig } from './PollingWorker.js';
+
+/**
+ * Configuração do worker de classificação.
+ */
+export interface ClassificationWorkerConfig extends PollingWorkerConfig {
+  /** Atraso base do backoff exponencial entre tentativas (ms) */
+  retryBaseDelayMs: number;
+}
+
+/**
+ * Worker em processo que consome a fila de classificação.
+ *
+ * Responsabilidades:
+ * - Consultar a fila periodicamente respeitando o limite de concorrência (PollingWorker)
+ * - Executar a classificação via ClassifyMessageUseCase
+ * - Avaliar as regras de automação da mensagem classificada
+ * - Acumular os sinais de qualificação no perfil do contato (QualifyLeadUseCase)
+ * - Reagendar falhas com backoff exponencial
+ * - Mover para dead-letter ao esgotar tentativas (marcando como "failed" a mensagem
+ *   que não chegou a ser classificada)
+ *
+ * Desacopla o LLM do webhook: o provedor recebe 200 assim que a mensagem é salva.
+ */
+export class ClassificationWorker extends PollingWorker<
+  ClassificationJob,
+  ClassificationWorkerConfig
+> {
+  constructor(
+    private readonly queue: ClassificationQueue,
+    private readonly classifyMessageUseCase: ClassifyMessageUseCase,
+    private readonly qualifyLeadUseCase: QualifyLeadUseCase,
+    private readonly evaluateRulesUseCase: EvaluateRulesUseCase,
+    private readonly messageRepository: MessageRepository,
+    config: ClassificationWorkerConfig
+  ) {
+    super('ClassificationWorker', config);
+  }
+
+  /**
+   * Reserva jobs prontos para execução.
+   */
+  protected claim(limit: number): Promise<ClassificationJob[]> {
+    return this.queue.claim(limit);
+  }
+
+  /**
+   * Executa um job, tratando sucesso, retentativa e dead-letter.
+   * Nunca rejeita: erros são registrados no próprio job.
+   */
+  protected async execute(job: ClassificationJob): Promise<void> {
+    try {
+      const { classification } = await this.classifyMessageUseCase.execute({
+        messageId: job.messageId,
+      });
+
+      // Regras já executadas para a mensagem são ignoradas em retentativas.
+      // Avaliadas antes da qualificação: não dependem do perfil do lead.
+      await this.evaluateRulesUseCase.execute({ messageId: job.messageId });
+
+      // Mensagens já analisadas são ignoradas em retentativas
+      await this.qualifyLeadUseCase.execute({ messageId: job.messageId });
+
+      await this.queue.complete(job.id);
+
+      console.log(
+        `[ClassificationWorker] Mensagem ${job.messageId} classificada como "${classification.intent}" (${classification.confidence})`
+      );
+    } catch (error) {
+      await this.handleFailure(job, error).catch((handlingError) => {
+        console.error(
+          `[ClassificationWorker] Falha ao registrar erro do job ${job.id}:`,
+          handlingError
+        );
+      });
+    }
+  }
+
+  /**
+   * Reagenda o job com backoff exponencial ou move para o dead-letter.
+   */
+  private async handleFailure(job: ClassificationJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (job.attempts >= job.maxAttempts) {
+      await this.queue.markDead(job.id, message);
+
+      // A falha pode ter ocorrido depois da classificação (regras ou qualificação):
+      // o repositório só marca mensagens ainda pendentes e não revisadas manualmente
+      await this.messageRepository.updateClassificationStatus(job.messageId, 'failed');
+
+      console.error(
+        `[ClassificationWorker] Job ${job.id} movido para dead-letter após ${job.attempts} tentativa(s): ${message}`
+      );
+      return;
+    }
+
+    // Backoff exponencial: base, 2x base, 4x base...
+    const delayMs = this.config.retryBaseDelayMs * 2 ** (job.attempts - 1);
+    await this.queue.retry(job.id, message, new Date(Date.now() + delayMs));
+
+    console.warn(
+      `[ClassificationWorker] Job ${job.id} falhou (tentativa ${job.attempts}/${job.maxAttempts}), nova tentativa em ${delayMs}ms: ${message}`
+    );
+  }
+}
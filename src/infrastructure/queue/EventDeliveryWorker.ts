@@ -0,0 +1,162 @@
+import { createHmac } from 'node:crypto';
+import type { EventDelivery } from '../../domain/entities/EventDelivery.js';
+import type { EventDeliveryQueue } from '../../usecases/interfaces/EventDeliveryQueue.js';
+import type { EventSubscriptionRepository } from '../../usecases/interfaces/EventSubscriptionRepository.js';
+import type { HttpClient } from '../../adapters/interfaces/HttpClient.js';
+import { PollingWorker, type PollingWorkerConfig } from './PollingWorker.js';
+
+/**
+ * Configuração do worker de entrega de eventos.
+ */
+export interface EventDeliveryWorkerConfig extends PollingWorkerConfig {
+  /** Atraso base do backoff exponencial entre tentativas (ms) */
+  retryBaseDelayMs: number;
+}
+
+/**
+ * Falha de uma tentativa de entrega.
+ */
+class DeliveryAttemptError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number | null
+  ) {
+    super(message);
+    this.name = 'DeliveryAttemptError';
+  }
+}
+
+/**
+ * Assinatura removida ou inativa: a entrega vai direto para o dead-letter.
+ */
+class SubscriptionUnavailableError extends DeliveryAttemptError {
+  constructor() {
+    super('Assinatura removida ou inativa', null);
+    this.name = 'SubscriptionUnavailableError';
+  }
+}
+
+/**
+ * Worker em processo que envia os eventos enfileirados para as assinaturas.
+ *
+ * Responsabilidades:
+ * - Consultar a fila periodicamente respeitando o limite de concorrência (PollingWorker)
+ * - Assinar o corpo com HMAC-SHA256 usando o segredo da assinatura
+ * - Reagendar falhas (não-2xx, rede, timeout) com backoff exponencial
+ * - Mover para dead-letter ao esgotar tentativas
+ *
+ * Headers enviados:
+ * - X-SuperSDR-Event: tipo do evento
+ * - X-SuperSDR-Delivery: ID da entrega
+ * - X-SuperSDR-Timestamp: Unix timestamp (segundos) da tentativa
+ * - X-SuperSDR-Signature: "sha256=" + HMAC_SHA256(secret, `${timestamp}.${corpo}`) em hex
+ */
+export class EventDeliveryWorker extends PollingWorker<
+  EventDelivery,
+  EventDeliveryWorkerConfig
+> {
+  constructor(
+    private readonly queue: EventDeliveryQueue,
+    private readonly subscriptionRepository: EventSubscriptionRepository,
+    private readonly httpClient: HttpClient,
+    config: EventDeliveryWorkerConfig
+  ) {
+    super('EventDeliveryWorker', config);
+  }
+
+  /**
+   * Reserva entregas prontas para envio.
+   */
+  protected claim(limit: number): Promise<EventDelivery[]> {
+    return this.queue.claim(limit);
+  }
+
+  /**
+   * Executa uma entrega, tratando sucesso, retentativa e dead-letter.
+   * Nunca rejeita: erros são registrados na própria entrega.
+   */
+  protected async execute(delivery: EventDelivery): Promise<void> {
+    try {
+      const statusCode = await this.send(delivery);
+      await this.queue.markDelivered(delivery.id, statusCode);
+    } catch (error) {
+      await this.handleFailure(delivery, error).catch((handlingError) => {
+        console.error(
+          `[EventDeliveryWorker] Falha ao registrar erro da entrega ${delivery.id}:`,
+          handlingError
+        );
+      });
+    }
+  }
+
+  /**
+   * Envia o evento assinado para a URL da assinatura.
+   * @returns Status HTTP (2xx)
+   * @throws SubscriptionUnavailableError se a assinatura foi removida ou desativada
+   * @throws DeliveryAttemptError se o destino não responder 2xx
+   */
+  private async send(delivery: EventDelivery): Promise<number> {
+    const subscription = await this.subscriptionRepository.findById(delivery.subscriptionId);
+    if (!subscription || !subscription.active) {
+      throw new SubscriptionUnavailableError();
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac('sha256', subscription.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    let statusCode: number;
+    try {
+      const response = await this.httpClient.request({
+        method: 'POST',
+        url: subscription.url,
+        headers: {
+          'X-SuperSDR-Event': delivery.eventType,
+          'X-SuperSDR-Delivery': delivery.id,
+          'X-SuperSDR-Timestamp': timestamp,
+          'X-SuperSDR-Signature': `sha256=${signature}`,
+        },
+        body,
+      });
+      statusCode = response.status;
+    } catch (error) {
+      // Falha de rede/timeout
+      throw new DeliveryAttemptError(error instanceof Error ? error.message : 'Unknown error', null);
+    }
+
+    if (statusCode < 200 || statusCode >= 300) {
+      throw new DeliveryAttemptError(`Destino respondeu HTTP ${statusCode}`, statusCode);
+    }
+
+    return statusCode;
+  }
+
+  /**
+   * Reagenda a entrega com backoff exponencial ou move para o dead-letter.
+   * Assinaturas removidas/inativas vão direto para o dead-letter.
+   */
+  private async handleFailure(delivery: EventDelivery, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const statusCode = error instanceof DeliveryAttemptError ? error.statusCode : null;
+    const subscriptionGone = error instanceof SubscriptionUnavailableError;
+
+    if (subscriptionGone || delivery.attempts >= delivery.maxAttempts) {
+      await this.queue.markDead(delivery.id, message, statusCode);
+
+      console.error(
+        `[EventDeliveryWorker] Entrega ${delivery.id} (${delivery.eventType}) movida para dead-letter após ${delivery.attempts} tentativa(s): ${message}`
+      );
+      return;
+    }
+
+    // Backoff exponencial: base, 2x base, 4x base...
+    const delayMs = this.config.retryBaseDelayMs * 2 ** (delivery.attempts - 1);
+    await this.queue.retry(delivery.id, message, statusCode, new Date(Date.now() + delayMs));
+
+    console.warn(
+      `[EventDeliveryWorker] Entrega ${delivery.id} falhou (tentativa ${delivery.attempts}/${delivery.maxAttempts}), nova tentativa em ${delayMs}ms: ${message}`
+    );
+  }
+}
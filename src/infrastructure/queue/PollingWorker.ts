@@ -0,0 +1,108 @@
+/**
+ * Configuração comum dos workers que consultam uma fila.
+ */
+export interface PollingWorkerConfig {
+  /** Máximo de itens executando simultaneamente */
+  concurrency: number;
+  /** Intervalo entre consultas à fila (ms) */
+  pollIntervalMs: number;
+}
+
+/**
+ * Base dos workers em processo que consomem uma fila por polling.
+ *
+ * Responsabilidades:
+ * - Consultar a fila periodicamente respeitando o limite de concorrência
+ * - Acompanhar os itens em execução e aguardá-los ao parar
+ *
+ * As subclasses reservam os itens (claim) e os executam (execute), tratando
+ * retentativa e dead-letter. execute nunca deve rejeitar.
+ */
+export abstract class PollingWorker<TItem, TConfig extends PollingWorkerConfig> {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(
+    /** Prefixo dos logs (ex: "ClassificationWorker") */
+    private readonly label: string,
+    protected readonly config: TConfig
+  ) {}
+
+  /**
+   * Inicia o consumo da fila.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    console.log(
+      `[${this.label}] Iniciado (concorrência: ${this.config.concurrency}, intervalo: ${this.config.pollIntervalMs}ms)`
+    );
+    this.scheduleNextPoll(0);
+  }
+
+  /**
+   * Para de consumir a fila e aguarda os itens em execução terminarem.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await Promise.allSettled(this.inFlight);
+    console.log(`[${this.label}] Parado`);
+  }
+
+  /**
+   * Reserva até `limit` itens da fila.
+   */
+  protected abstract claim(limit: number): Promise<TItem[]>;
+
+  /**
+   * Executa um item, tratando sucesso, retentativa e dead-letter.
+   * Não deve rejeitar: erros são registrados no próprio item.
+   */
+  protected abstract execute(item: TItem): Promise<void>;
+
+  /**
+   * Agenda a próxima consulta à fila.
+   */
+  private scheduleNextPoll(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch((error) => {
+          console.error(`[${this.label}] Falha ao consultar fila:`, error);
+        })
+        .finally(() => this.scheduleNextPoll(this.config.pollIntervalMs));
+    }, delayMs);
+  }
+
+  /**
+   * Reserva itens até o limite de concorrência e dispara a execução.
+   */
+  private async poll(): Promise<void> {
+    const available = this.config.concurrency - this.inFlight.size;
+    if (available <= 0) {
+      return;
+    }
+
+    const items = await this.claim(available);
+
+    for (const item of items) {
+      const execution = this.execute(item).finally(() => {
+        this.inFlight.delete(execution);
+      });
+      this.inFlight.add(execution);
+    }
+  }
+}
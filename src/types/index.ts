@@ -4,18 +4,131 @@
 export type {
   Provider,
   MessageType,
-  Contact,
+  MediaMessageType,
+  ContactInfo,
+  MediaInfo,
+  LocationInfo,
+  SharedContact,
+  ReactionInfo,
+  TextMessageContent,
+  MediaMessageContent,
+  LocationMessageContent,
+  ContactMessageContent,
+  ReactionMessageContent,
   MessageContent,
   Classification,
+  ClassificationSource,
+  ClassificationStatus,
   NormalizedMessage,
   CreateNormalizedMessage,
 } from '../domain/entities/NormalizedMessage.js';
 
+export type {
+  Tenant,
+  CreateTenant,
+  UpdateTenant,
+  ProviderCredentials,
+  ProviderAccount,
+  CreateProviderAccount,
+  ResolvedTenant,
+} from '../domain/entities/Tenant.js';
+
+export type {
+  AdapterMapping,
+  AdapterMappingDefinition,
+  AdapterFieldMapping,
+  DetectionRule,
+  TimestampUnit,
+  CreateAdapterMapping,
+  UpdateAdapterMapping,
+} from '../domain/entities/AdapterMapping.js';
+
+export type { Contact } from '../domain/entities/Contact.js';
+export type {
+  EntityType,
+  ExtractedEntity,
+  ContactEntity,
+} from '../domain/entities/ExtractedEntity.js';
+export type {
+  LeadTimeline,
+  LeadSignals,
+  LeadProfile,
+  LeadProfileData,
+} from '../domain/entities/LeadProfile.js';
+export type { ClassificationHistoryEntry } from '../domain/entities/ClassificationHistory.js';
+export type { Conversation } from '../domain/entities/Conversation.js';
+export type {
+  Intent,
+  IntentDefinition,
+  CreateIntent,
+  UpdateIntent,
+} from '../domain/entities/Intent.js';
+
+export type {
+  AutomationRule,
+  CreateAutomationRule,
+  UpdateAutomationRule,
+  RuleConditions,
+  RuleAction,
+  SendReplyAction,
+  TagContactAction,
+  CallWebhookAction,
+  RuleExecution,
+  RuleExecutionStatus,
+  RuleActionResult,
+  CreateRuleExecution,
+  ClaimRuleExecution,
+} from '../domain/entities/AutomationRule.js';
+
+export type {
+  EventType,
+  EventSubscription,
+  CreateEventSubscription,
+  UpdateEventSubscription,
+  EventEnvelope,
+} from '../domain/entities/EventSubscription.js';
+
+export type {
+  EventDelivery,
+  EventDeliveryStatus,
+  CreateEventDelivery,
+} from '../domain/entities/EventDelivery.js';
+
+export type {
+  RawWebhook,
+  RawWebhookStatus,
+  RawWebhookError,
+  RawWebhookOutcome,
+  CreateRawWebhook,
+  QuarantineGroup,
+} from '../domain/entities/RawWebhook.js';
+
+export type {
+  ClassificationJob,
+  ClassificationJobStatus,
+} from '../domain/entities/ClassificationJob.js';
+
+export type {
+  MessageStatus,
+  MessageStatusEvent,
+} from '../domain/entities/MessageStatusEvent.js';
+
 export {
   WebhookError,
   WebhookValidationError,
+  WebhookSignatureError,
+  WebhookVerificationError,
+  VerificationNotSupportedError,
+  InvalidRequestError,
+  ResourceNotFoundError,
+  ResourceConflictError,
   UnknownProviderError,
+  AmbiguousProviderError,
+  TenantNotResolvedError,
   AdapterNotFoundError,
+  SenderNotConfiguredError,
+  MessageSendError,
+  WebhookReplayError,
   ProcessingError,
   DuplicateMessageError,
 } from '../domain/errors/WebhookErrors.js';
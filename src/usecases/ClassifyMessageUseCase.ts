@@ -1,5 +1,7 @@
 import type { NormalizedMessage, Classification } from '../domain/entities/NormalizedMessage.js';
 import type { MessageRepository } from './interfaces/MessageRepository.js';
+import type { ContactRepository } from './interfaces/ContactRepository.js';
+import type { EventPublisher } from './interfaces/EventPublisher.js';
 import type { ClassificationService } from './interfaces/ClassificationService.js';
 import { ProcessingError } from '../domain/errors/WebhookErrors.js';
 
@@ -21,20 +23,34 @@ export interface ClassifyMessageOutput {
   classification: Classification;
 }
 
+/**
+ * Configuração do caso de uso ClassifyMessage.
+ */
+export interface ClassifyMessageConfig {
+  /** Quantidade de mensagens anteriores do contato enviadas como contexto (0 = sem histórico) */
+  historySize: number;
+}
+
 /**
  * Caso de Uso: Classificar Intenção de Mensagem
  *
  * Responsabilidades:
  * - Buscar mensagem pelo ID
+ * - Buscar o histórico recente do contato (contexto da conversa)
  * - Chamar serviço de classificação (LLM)
- * - Atualizar mensagem com classificação
+ * - Atualizar mensagem com classificação (se ainda pendente e não revisada manualmente)
+ * - Atualizar a última intenção do contato
+ * - Publicar o evento message.classified para sistemas externos
  *
  * Princípio: Fail-Fast - erros são propagados imediatamente, sem fallbacks.
  */
 export class ClassifyMessageUseCase {
   constructor(
     private readonly messageRepository: MessageRepository,
-    private readonly classificationService: ClassificationService
+    private readonly contactRepository: ContactRepository,
+    private readonly classificationService: ClassificationService,
+    private readonly eventPublisher: EventPublisher,
+    private readonly config: ClassifyMessageConfig
   ) {}
 
   /**
@@ -65,11 +81,18 @@ export class ClassifyMessageUseCase {
       };
     }
 
-    // 3. Classifica via LLM
+    // 3. Busca o histórico recente do contato
+    const context = await this.messageRepository.findConversationContext(
+      message,
+      this.config.historySize
+    );
+
+    // 4. Classifica via LLM
     let classification: Classification;
     try {
       classification = await this.classificationService.classify(
-        message.message.content
+        message.message.content,
+        context
       );
     } catch (error) {
       if (error instanceof Error) {
@@ -78,41 +101,61 @@ export class ClassifyMessageUseCase {
       throw new ProcessingError('classify_message', new Error('Unknown error'));
     }
 
-    // 4. Atualiza a mensagem com a classificação
+    // 5. Atualiza a mensagem com a classificação (se ainda estiver pendente)
+    let updatedMessage: NormalizedMessage | null;
     try {
-      const updatedMessage = await this.messageRepository.updateClassification(
+      updatedMessage = await this.messageRepository.completeClassification(
         messageId,
         classification
       );
 
-      return {
-        message: updatedMessage,
-        classification,
-      };
+      // 6. Atualiza a última intenção do contato (se for a mensagem mais recente)
+      if (updatedMessage) {
+        await this.contactRepository.updateLastIntent(
+          updatedMessage.contactId,
+          classification.intent,
+          updatedMessage.timestamp
+        );
+      }
     } catch (error) {
       if (error instanceof Error) {
         throw new ProcessingError('update_classification', error);
       }
       throw new ProcessingError('update_classification', new Error('Unknown error'));
     }
+
+    // Revisada manualmente enquanto o LLM respondia: mantém a revisão
+    if (!updatedMessage) {
+      return this.currentClassification(messageId);
+    }
+
+    // 7. Notifica sistemas externos (o envio acontece em segundo plano)
+    await this.eventPublisher.publish('message.classified', updatedMessage);
+
+    return {
+      message: updatedMessage,
+      classification,
+    };
   }
 
   /**
-   * Classifica conteúdo diretamente, sem buscar no banco.
-   * Útil para classificação inline durante o processamento do webhook.
-   *
-   * @param content - Conteúdo textual a classificar
-   * @returns Classificação gerada
-   * @throws ProcessingError se classificação falhar
+   * Classificação já gravada na mensagem, quando a automática foi descartada.
+   * Não há nova classificação: o contato e os sistemas externos não são notificados.
+   * @throws ProcessingError se a mensagem não aguardar classificação e não tiver uma
    */
-  async classifyContent(content: string): Promise<Classification> {
-    try {
-      return await this.classificationService.classify(content);
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new ProcessingError('classify_content', error);
-      }
-      throw new ProcessingError('classify_content', new Error('Unknown error'));
+  private async currentClassification(messageId: string): Promise<ClassifyMessageOutput> {
+    const message = await this.messageRepository.findById(messageId);
+
+    if (!message?.classification) {
+      throw new ProcessingError(
+        'update_classification',
+        new Error(`Mensagem não aguarda classificação: ${messageId}`)
+      );
     }
+
+    return {
+      message,
+      classification: message.classification,
+    };
   }
 }
@@ -0,0 +1,322 @@
+import type { NormalizedMessage } from '../domain/entities/NormalizedMessage.js';
+import type { Contact } from '../domain/entities/Contact.js';
+import type {
+  AutomationRule,
+  RuleAction,
+  RuleActionResult,
+  CreateRuleExecution,
+} from '../domain/entities/AutomationRule.js';
+import type { MessageRepository } from './interfaces/MessageRepository.js';
+import type { ContactRepository } from './interfaces/ContactRepository.js';
+import type { AutomationRuleRepository } from './interfaces/AutomationRuleRepository.js';
+import type { RuleExecutionRepository } from './interfaces/RuleExecutionRepository.js';
+import type { HttpClient } from '../adapters/interfaces/HttpClient.js';
+import type { SendMessageUseCase } from './SendMessageUseCase.js';
+import { ProcessingError } from '../domain/errors/WebhookErrors.js';
+
+/**
+ * Input do caso de uso EvaluateRules.
+ */
+export interface EvaluateRulesInput {
+  /** ID da mensagem já classificada */
+  messageId: string;
+}
+
+/**
+ * Output do caso de uso EvaluateRules.
+ */
+export interface EvaluateRulesOutput {
+  /** Execuções registradas nesta avaliação (regras que casaram) */
+  executions: CreateRuleExecution[];
+}
+
+/**
+ * Configuração do caso de uso EvaluateRules.
+ */
+export interface EvaluateRulesConfig {
+  /** Fuso horário usado nas janelas de horário das regras. Ex: "America/Sao_Paulo" */
+  timeZone: string;
+}
+
+/**
+ * Dados disponíveis durante a avaliação de uma mensagem.
+ */
+interface EvaluationContext {
+  message: NormalizedMessage;
+  contact: Contact;
+  /** Calculado sob demanda (exige consulta ao histórico) */
+  isNewContact: () => Promise<boolean>;
+}
+
+/**
+ * Caso de Uso: Avaliar Regras de Automação
+ *
+ * Responsabilidades:
+ * - Avaliar as regras ativas contra uma mensagem recebida e classificada
+ * - Executar as ações das regras que casarem (resposta, etiqueta, webhook)
+ * - Registrar cada execução para auditoria
+ *
+ * Cada regra executa no máximo uma vez por mensagem: a execução é reservada antes
+ * das ações, e regras já reservadas são ignoradas em reprocessamentos
+ * (ex: retentativa do job de classificação), mesmo que a tentativa anterior tenha parado no meio.
+ * Falhas de ações são registradas na execução e não interrompem as demais regras.
+ */
+export class EvaluateRulesUseCase {
+  private readonly hourFormatter: Intl.DateTimeFormat;
+
+  constructor(
+    private readonly messageRepository: MessageRepository,
+    private readonly contactRepository: ContactRepository,
+    private readonly ruleRepository: AutomationRuleRepository,
+    private readonly executionRepository: RuleExecutionRepository,
+    private readonly sendMessageUseCase: SendMessageUseCase,
+    private readonly httpClient: HttpClient,
+    config: EvaluateRulesConfig
+  ) {
+    this.hourFormatter = new Intl.DateTimeFormat('en-US', {
+      hour: 'numeric',
+      hourCycle: 'h23',
+      timeZone: config.timeZone,
+    });
+  }
+
+  /**
+   * Avalia as regras para uma mensagem.
+   *
+   * @param input - ID da mensagem classificada
+   * @returns Execuções registradas
+   * @throws ProcessingError se a mensagem ou o contato não existirem
+   */
+  async execute(input: EvaluateRulesInput): Promise<EvaluateRulesOutput> {
+    const { messageId } = input;
+
+    // 1. Busca a mensagem (regras só se aplicam a mensagens do contato já classificadas)
+    const message = await this.messageRepository.findById(messageId);
+
+    if (!message) {
+      throw new ProcessingError(
+        'find_message',
+        new Error(`Mensagem não encontrada: ${messageId}`)
+      );
+    }
+
+    if (message.isFromMe || !message.classification) {
+      return { executions: [] };
+    }
+
+    // 2. Regras ativas (do tenant e globais) ainda não executadas para a mensagem
+    const [rules, executedRuleIds] = await Promise.all([
+      this.ruleRepository.findActive(message.tenantId),
+      this.executionRepository.findExecutedRuleIds(messageId),
+    ]);
+    const executed = new Set(executedRuleIds);
+    const pending = rules.filter((rule) => !executed.has(rule.id));
+
+    if (pending.length === 0) {
+      return { executions: [] };
+    }
+
+    // 3. Monta o contexto da avaliação
+    const contact = await this.contactRepository.findById(message.contactId);
+
+    if (!contact) {
+      throw new ProcessingError(
+        'find_contact',
+        new Error(`Contato não encontrado: ${message.contactId}`)
+      );
+    }
+
+    let isNewContact: Promise<boolean> | null = null;
+    const context: EvaluationContext = {
+      message,
+      contact,
+      // Contato novo = nenhuma mensagem anterior (em qualquer direção)
+      isNewContact: () =>
+        (isNewContact ??= this.messageRepository
+          .findRecentByContact(contact.id, message.timestamp, 1)
+          .then((previous) => previous.length === 0)),
+    };
+
+    // 4. Avalia e executa as regras em ordem de prioridade
+    const executions: CreateRuleExecution[] = [];
+    for (const rule of pending) {
+      if (!(await this.matches(rule, context))) {
+        continue;
+      }
+
+      // 5. Reserva a execução antes das ações (unique regra + mensagem): em retentativas
+      // ou workers concorrentes, a regra já reservada não repete envios nem webhooks
+      const claimed = await this.executionRepository.claim({
+        ruleId: rule.id,
+        messageId: message.id,
+        contactId: contact.id,
+      });
+
+      if (!claimed) {
+        continue;
+      }
+
+      const results = await this.runActions(rule, context);
+      const execution: CreateRuleExecution = {
+        ruleId: rule.id,
+        messageId: message.id,
+        contactId: contact.id,
+        status: results.every((result) => result.success) ? 'success' : 'failed',
+        results,
+      };
+
+      // 6. Registra o resultado (auditoria)
+      await this.executionRepository.complete(execution);
+      executions.push(execution);
+
+      console.log(
+        `[EvaluateRules] Regra "${rule.name}" executada para mensagem ${message.id}: ${execution.status}`
+      );
+    }
+
+    return { executions };
+  }
+
+  /**
+   * Verifica se a mensagem atende todas as condições da regra.
+   */
+  private async matches(rule: AutomationRule, context: EvaluationContext): Promise<boolean> {
+    const { conditions } = rule;
+    const { message } = context;
+    const classification = message.classification;
+
+    if (!classification) {
+      return false;
+    }
+
+    if (conditions.intents.length > 0 && !conditions.intents.includes(classification.intent)) {
+      return false;
+    }
+
+    if (conditions.minConfidence !== null && classification.confidence < conditions.minConfidence) {
+      return false;
+    }
+
+    if (conditions.providers.length > 0 && !conditions.providers.includes(message.provider)) {
+      return false;
+    }
+
+    if (!this.isWithinHours(message.timestamp, conditions.startHour, conditions.endHour)) {
+      return false;
+    }
+
+    // Condição mais cara por último (consulta ao histórico)
+    if (conditions.contactIsNew !== null && (await context.isNewContact()) !== conditions.contactIsNew) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Verifica a janela de horário (início inclusive, fim exclusivo).
+   * Janelas com início maior que o fim atravessam a meia-noite.
+   */
+  private isWithinHours(timestamp: Date, startHour: number | null, endHour: number | null): boolean {
+    if (startHour === null && endHour === null) {
+      return true;
+    }
+
+    const hour = Number(this.hourFormatter.format(timestamp));
+    const start = startHour ?? 0;
+    const end = endHour ?? 24;
+
+    if (start <= end) {
+      return hour >= start && hour < end;
+    }
+    return hour >= start || hour < end;
+  }
+
+  /**
+   * Executa as ações da regra em ordem.
+   * A primeira falha interrompe as ações seguintes da mesma regra.
+   */
+  private async runActions(
+    rule: AutomationRule,
+    context: EvaluationContext
+  ): Promise<RuleActionResult[]> {
+    const results: RuleActionResult[] = [];
+
+    for (const action of rule.actions) {
+      try {
+        const detail = await this.runAction(action, rule, context);
+        results.push({ type: action.type, success: true, detail, error: null });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        results.push({ type: action.type, success: false, detail: null, error: message });
+
+        console.error(`[EvaluateRules] Ação "${action.type}" da regra "${rule.name}" falhou: ${message}`);
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Executa uma ação.
+   * @returns Detalhe do resultado, registrado na auditoria
+   */
+  private async runAction(
+    action: RuleAction,
+    rule: AutomationRule,
+    context: EvaluationContext
+  ): Promise<string | null> {
+    const { message, contact } = context;
+
+    switch (action.type) {
+      case 'send_reply': {
+        const { message: sent } = await this.sendMessageUseCase.execute({
+          tenantId: message.tenantId,
+          provider: message.provider,
+          phone: contact.phone,
+          text: this.renderTemplate(action.template, context),
+        });
+        return `Mensagem enviada: ${sent.externalId}`;
+      }
+
+      case 'tag_contact': {
+        await this.contactRepository.addTags(contact.id, action.tags);
+        return `Etiquetas: ${action.tags.join(', ')}`;
+      }
+
+      case 'call_webhook': {
+        const response = await this.httpClient.request({
+          method: 'POST',
+          url: action.url,
+          headers: action.headers,
+          body: {
+            event: 'rule.triggered',
+            rule: { id: rule.id, name: rule.name },
+            message,
+            contact,
+          },
+        });
+
+        if (response.status < 200 || response.status >= 300) {
+          throw new Error(`Webhook respondeu HTTP ${response.status}`);
+        }
+        return `HTTP ${response.status}`;
+      }
+    }
+  }
+
+  /**
+   * Substitui os placeholders do template da resposta.
+   */
+  private renderTemplate(template: string, context: EvaluationContext): string {
+    const values: Record<string, string> = {
+      'contact.name': context.contact.name,
+      'contact.phone': context.contact.phone,
+      intent: context.message.classification?.intent ?? '',
+      message: context.message.message.content,
+    };
+
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+  }
+}
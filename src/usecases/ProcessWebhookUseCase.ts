@@ -1,76 +1,444 @@
-import type { Provider, NormalizedMessage } from '../domain/entities/NormalizedMessage.js';
+import type {
+  Provider,
+  NormalizedMessage,
+  CreateNormalizedMessage,
+} from '../domain/entities/NormalizedMessage.js';
+import type { MessageStatusEvent } from '../domain/entities/MessageStatusEvent.js';
 import type { MessageRepository } from './interfaces/MessageRepository.js';
+import type { ContactRepository } from './interfaces/ContactRepository.js';
+import type { MessageStatusRepository } from './interfaces/MessageStatusRepository.js';
+import type { ClassificationQueue } from './interfaces/ClassificationQueue.js';
+import type { EventPublisher } from './interfaces/EventPublisher.js';
+import type { RawWebhookRepository } from './interfaces/RawWebhookRepository.js';
+import type { TenantRepository } from './interfaces/TenantRepository.js';
+import type { EntityExtractor } from './interfaces/EntityExtractor.js';
+import type { RawWebhookError } from '../domain/entities/RawWebhook.js';
+import type { ResolvedTenant } from '../domain/entities/Tenant.js';
 import type { AdapterRegistry } from '../adapters/registry/AdapterRegistry.js';
-import { DuplicateMessageError, ProcessingError } from '../domain/errors/WebhookErrors.js';
+import type { WebhookAdapter, WebhookRequest } from '../adapters/interfaces/WebhookAdapter.js';
+import {
+  DuplicateMessageError,
+  ProcessingError,
+  ResourceNotFoundError,
+  TenantNotResolvedError,
+  UnknownProviderError,
+  WebhookError,
+  WebhookReplayError,
+  WebhookSignatureError,
+  WebhookValidationError,
+} from '../domain/errors/WebhookErrors.js';
+
+/**
+ * Headers com credenciais, mascarados antes de arquivar o webhook
+ * (além dos declarados pelo adapter em `credentialHeaders`).
+ */
+const REDACTED_HEADERS = new Set(['authorization', 'client-token', 'cookie']);
 
 /**
  * Input do caso de uso ProcessWebhook.
  */
 export interface ProcessWebhookInput {
-  /** Provedor do webhook (zapi, meta) */
+  /** Provedor do webhook (zapi, meta, evolution) */
   provider: Provider;
+  /**
+   * Slug do tenant informado na rota (/webhook/:tenant/:provider).
+   * Se informado, a conta do payload deve pertencer a este tenant.
+   */
+  tenantSlug?: string | undefined;
   /** Payload bruto recebido do provedor */
   payload: unknown;
+  /** Headers e corpo bruto, usados na verificação de assinatura */
+  request: WebhookRequest;
 }
 
 /**
- * Output do caso de uso ProcessWebhook.
+ * Resultado do processamento de uma mensagem individual do webhook.
  */
-export interface ProcessWebhookOutput {
+export interface ProcessedMessage {
   /** Mensagem normalizada e salva */
   message: NormalizedMessage;
   /** Se a mensagem já existia (duplicata) */
   isDuplicate: boolean;
 }
 
+/**
+ * Opções do reprocessamento de um webhook arquivado.
+ */
+export interface ReplayOptions {
+  /**
+   * Permite reprocessar webhooks em quarentena recebidos sem verificação de assinatura
+   * (provedores que não autenticam, como a Evolution). Decisão explícita do administrador.
+   */
+  allowUnauthenticated?: boolean | undefined;
+}
+
+/**
+ * Output do caso de uso ProcessWebhook.
+ */
+export interface ProcessWebhookOutput {
+  /** ID do webhook arquivado (usado para reprocessar) */
+  rawWebhookId: string;
+  /** Tenant dono das mensagens do webhook */
+  tenantId: string;
+  /** Resultado de cada mensagem contida no webhook, na ordem recebida */
+  messages: ProcessedMessage[];
+  /** Atualizações de status contidas no webhook */
+  statuses: MessageStatusEvent[];
+}
+
 /**
  * Caso de Uso: Processar Webhook
  *
  * Responsabilidades:
  * - Obter adapter correto para o provedor
+ * - Identificar o tenant pela conta do provedor no payload (instanceId, phone_number_id, etc)
+ * - Arquivar corpo e headers recebidos (RawWebhook) com o resultado do processamento
+ * - Verificar assinatura da requisição com as credenciais da conta (se o adapter suportar)
  * - Validar payload usando o adapter
- * - Normalizar para formato interno
- * - Verificar duplicatas (idempotência)
- * - Persistir no banco de dados
+ * - Normalizar para formato interno (uma ou mais mensagens por webhook)
+ * - Extrair entidades do conteúdo (e-mail, CPF/CNPJ, CEP, pedido, data, valor)
+ * - Verificar duplicatas de cada mensagem (idempotência)
+ * - Obter/criar o contato (lead) do tenant e a conversa de cada mensagem
+ * - Persistir mensagens e histórico de status no banco de dados
+ * - Enfileirar a classificação de intenção das mensagens novas recebidas (as enviadas são "skipped")
+ * - Publicar eventos (message.received / message.duplicate) para sistemas externos
  *
  * Princípio: Fail-Fast - erros são propagados imediatamente, sem fallbacks.
+ * O resultado (inclusive o erro) é registrado no webhook arquivado antes de propagar.
  */
 export class ProcessWebhookUseCase {
   constructor(
     private readonly adapterRegistry: AdapterRegistry,
-    private readonly messageRepository: MessageRepository
+    private readonly messageRepository: MessageRepository,
+    private readonly contactRepository: ContactRepository,
+    private readonly messageStatusRepository: MessageStatusRepository,
+    private readonly classificationQueue: ClassificationQueue,
+    private readonly eventPublisher: EventPublisher,
+    private readonly rawWebhookRepository: RawWebhookRepository,
+    private readonly tenantRepository: TenantRepository,
+    private readonly entityExtractor: EntityExtractor
   ) {}
 
   /**
    * Executa o processamento do webhook.
    *
-   * @param input - Provider e payload do webhook
-   * @returns Mensagem processada e flag de duplicata
+   * @param input - Provider, tenant (opcional) e payload do webhook
+   * @returns Resultado de cada mensagem do webhook com flag de duplicata e status recebidos
    * @throws AdapterNotFoundError se adapter não existir
+   * @throws TenantNotResolvedError se a conta do payload não identificar um tenant ativo
+   * @throws WebhookSignatureError se assinatura inválida
    * @throws WebhookValidationError se payload inválido
    * @throws ProcessingError se falhar ao salvar
    */
   async execute(input: ProcessWebhookInput): Promise<ProcessWebhookOutput> {
-    const { provider, payload } = input;
+    const { provider, tenantSlug, payload, request } = input;
 
     // 1. Obtém o adapter para o provedor
     // Throws AdapterNotFoundError se não existir
     const adapter = this.adapterRegistry.getAdapter(provider);
 
-    // 2. Valida o payload usando o schema Zod do adapter
-    // Throws WebhookValidationError se inválido
-    const validatedPayload = adapter.validate(payload);
+    // 2. Identifica o tenant pela conta do provedor presente no payload
+    const resolution = await this.resolveTenant(adapter, payload, tenantSlug);
 
-    // 3. Normaliza para formato interno
-    const normalizedData = adapter.normalize(validatedPayload);
+    // 3. Arquiva o webhook exatamente como recebido, antes de qualquer validação
+    const rawWebhook = await this.rawWebhookRepository.create({
+      tenantId: resolution instanceof TenantNotResolvedError ? null : resolution.tenant.id,
+      provider,
+      headers: this.redactHeaders(request.headers, adapter),
+      payload: adapter.redactPayload ? adapter.redactPayload(payload) : payload,
+    });
 
-    // 4. Verifica se já existe (idempotência)
+    // 4. Tenant não identificado: registra a falha no arquivo e rejeita
+    if (resolution instanceof TenantNotResolvedError) {
+      await this.recordFailure(rawWebhook.id, resolution, false);
+      throw resolution;
+    }
+
+    // 5. Verifica a autenticidade da requisição com as credenciais da conta
+    // Throws WebhookSignatureError se inválida
+    try {
+      adapter.verifySignature?.(request, resolution.account.credentials);
+    } catch (error) {
+      await this.recordFailure(rawWebhook.id, error, false);
+      throw error;
+    }
+
+    // 6. Valida, normaliza e persiste.
+    // Só é autenticado o webhook cujo provedor foi efetivamente verificado (Evolution e
+    // adapters configuráveis sem header de token não são).
+    return this.processArchived(
+      rawWebhook.id,
+      resolution.tenant.id,
+      adapter,
+      payload,
+      this.isVerified(adapter)
+    );
+  }
+
+  /**
+   * Indica se o adapter verifica a autenticidade das requisições.
+   */
+  private isVerified(adapter: WebhookAdapter): boolean {
+    return adapter.verifySignature !== undefined && adapter.metadata.capabilities.signatureVerification;
+  }
+
+  /**
+   * Identifica o tenant pela conta do provedor no payload.
+   * Sem fallback: conta ausente, não cadastrada, de outro tenant (quando a rota
+   * informa o tenant), de tenant inativo ou payload com mais de uma conta resulta em erro.
+   *
+   * @returns Tenant e conta, ou o erro a registrar no arquivo
+   */
+  private async resolveTenant(
+    adapter: WebhookAdapter,
+    payload: unknown,
+    tenantSlug: string | undefined
+  ): Promise<ResolvedTenant | TenantNotResolvedError> {
+    let accountId: string | undefined;
+    try {
+      accountId = adapter.extractAccountId(payload);
+    } catch (error) {
+      if (error instanceof TenantNotResolvedError) {
+        return error;
+      }
+      throw error;
+    }
+
+    if (!accountId) {
+      return new TenantNotResolvedError(adapter.provider, 'ID da conta ausente no payload');
+    }
+
+    const resolved = await this.tenantRepository.findByAccount(adapter.provider, accountId);
+    if (!resolved) {
+      return new TenantNotResolvedError(adapter.provider, `conta ${accountId} não cadastrada`);
+    }
+
+    if (tenantSlug !== undefined && resolved.tenant.slug !== tenantSlug) {
+      return new TenantNotResolvedError(
+        adapter.provider,
+        `conta ${accountId} não pertence ao tenant ${tenantSlug}`
+      );
+    }
+
+    if (!resolved.tenant.active) {
+      return new TenantNotResolvedError(adapter.provider, `tenant ${resolved.tenant.slug} inativo`);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Detecta o provedor pelo formato do payload (`canHandle` dos adapters).
+   * Usado quando o webhook chega sem o provedor na rota.
+   *
+   * @param payload - Payload bruto recebido
+   * @returns Provedor cujo adapter reconhece o payload
+   * @throws AmbiguousProviderError se mais de um adapter reconhecer o payload
+   * @throws UnknownProviderError se nenhum adapter reconhecer o payload
+   */
+  detectProvider(payload: unknown): Provider {
+    const adapter = this.adapterRegistry.findAdapterForPayload(payload);
+
+    if (!adapter) {
+      throw new UnknownProviderError();
+    }
+
+    return adapter.provider;
+  }
+
+  /**
+   * Reprocessa um webhook arquivado com o adapter atual
+   * (ex: após corrigir o schema de um provedor que mudou de formato).
+   *
+   * A assinatura não é verificada novamente: apenas webhooks autenticados
+   * no recebimento (e, portanto, com tenant identificado) podem ser reprocessados.
+   * Com `allowUnauthenticated`, também os webhooks em quarentena de provedores sem
+   * verificação (que foram processados sem autenticação já no recebimento).
+   * Mensagens já salvas são tratadas como duplicatas (idempotência).
+   *
+   * @param rawWebhookId - ID do webhook arquivado
+   * @param options - Permissão para webhooks não autenticados em quarentena
+   * @throws ResourceNotFoundError se o webhook não existir
+   * @throws WebhookReplayError se o webhook não foi autenticado no recebimento
+   * @throws WebhookValidationError se o payload continuar inválido
+   * @throws ProcessingError se falhar ao salvar
+   */
+  async replay(rawWebhookId: string, options: ReplayOptions = {}): Promise<ProcessWebhookOutput> {
+    const rawWebhook = await this.rawWebhookRepository.findById(rawWebhookId);
+    if (!rawWebhook) {
+      throw new ResourceNotFoundError('Webhook', rawWebhookId);
+    }
+
+    const allowed =
+      rawWebhook.authenticated ||
+      (options.allowUnauthenticated === true && rawWebhook.status === 'quarantined');
+
+    if (!allowed || !rawWebhook.tenantId) {
+      throw new WebhookReplayError(rawWebhookId, 'assinatura não verificada no recebimento');
+    }
+
+    const adapter = this.adapterRegistry.getAdapter(rawWebhook.provider);
+
+    await this.rawWebhookRepository.markReplayed(rawWebhook.id);
+
+    return this.processArchived(rawWebhook.id, rawWebhook.tenantId, adapter, rawWebhook.payload);
+  }
+
+  /**
+   * Valida, normaliza e persiste o payload de um webhook arquivado,
+   * registrando o resultado no arquivo.
+   *
+   * @param authenticated - Informado apenas no recebimento (reprocessamentos mantêm o valor original)
+   */
+  private async processArchived(
+    rawWebhookId: string,
+    tenantId: string,
+    adapter: WebhookAdapter,
+    payload: unknown,
+    authenticated?: boolean
+  ): Promise<ProcessWebhookOutput> {
+    try {
+      // 1. Valida o payload usando o schema Zod do adapter
+      // Throws WebhookValidationError se inválido
+      const validatedPayload = adapter.validate(payload);
+
+      // 2. Normaliza para formato interno (um webhook pode conter várias mensagens e status)
+      const normalized = adapter.normalize(validatedPayload);
+
+      // 3. Processa cada mensagem sequencialmente, preservando a ordem recebida
+      const messages: ProcessedMessage[] = [];
+      for (const normalizedData of normalized.messages) {
+        messages.push(await this.processMessage(normalizedData, tenantId, rawWebhookId));
+      }
+
+      // 4. Registra o histórico de status (duplicatas são ignoradas pelo repositório)
+      await this.messageStatusRepository.saveMany(tenantId, normalized.statuses);
+
+      // 5. Registra o sucesso no arquivo
+      await this.rawWebhookRepository.recordOutcome(rawWebhookId, {
+        status: 'processed',
+        authenticated,
+        error: null,
+      });
+
+      return { rawWebhookId, tenantId, messages, statuses: normalized.statuses };
+    } catch (error) {
+      await this.recordFailure(rawWebhookId, error, authenticated);
+      throw error;
+    }
+  }
+
+  /**
+   * Registra o erro do processamento no webhook arquivado.
+   * Falhas ao registrar são apenas logadas, para não mascarar o erro original.
+   */
+  private async recordFailure(
+    rawWebhookId: string,
+    error: unknown,
+    authenticated: boolean | undefined
+  ): Promise<void> {
+    // Payload inválido vai para a quarentena, aguardando correção do schema
+    const status =
+      error instanceof WebhookValidationError
+        ? 'quarantined'
+        : error instanceof WebhookSignatureError || error instanceof TenantNotResolvedError
+          ? 'rejected'
+          : 'failed';
+
+    try {
+      await this.rawWebhookRepository.recordOutcome(rawWebhookId, {
+        status,
+        authenticated,
+        error: this.describeError(error),
+      });
+    } catch (recordError) {
+      console.error(`[ProcessWebhook] Falha ao registrar erro do webhook ${rawWebhookId}:`, recordError);
+    }
+  }
+
+  /**
+   * Converte o erro do processamento para o formato arquivado.
+   */
+  private describeError(error: unknown): RawWebhookError {
+    if (error instanceof WebhookValidationError) {
+      const details = error.getDetails();
+      return {
+        code: error.code,
+        message: error.message,
+        details,
+        paths: this.toFailurePaths(details),
+      };
+    }
+
+    if (error instanceof WebhookError) {
+      return { code: error.code, message: error.message, details: null, paths: [] };
+    }
+
+    return {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      details: null,
+      paths: [],
+    };
+  }
+
+  /**
+   * Extrai os caminhos únicos que falharam na validação, trocando índices
+   * de array por "*" para agrupar (ex: "entry.0.changes.1.value" → "entry.*.changes.*.value").
+   */
+  private toFailurePaths(issues: Array<{ path: string }>): string[] {
+    const paths = issues.map(({ path }) =>
+      path === '' ? '(raiz)' : path.replace(/(^|\.)\d+(?=\.|$)/g, '$1*')
+    );
+    return [...new Set(paths)];
+  }
+
+  /**
+   * Remove headers ausentes e mascara credenciais (globais e do provedor) antes de arquivar.
+   */
+  private redactHeaders(
+    headers: WebhookRequest['headers'],
+    adapter: WebhookAdapter
+  ): Record<string, string | string[]> {
+    const credentialHeaders = new Set(adapter.credentialHeaders ?? []);
+    const result: Record<string, string | string[]> = {};
+
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined) continue;
+      const key = name.toLowerCase();
+      result[name] =
+        REDACTED_HEADERS.has(key) || credentialHeaders.has(key) ? '[REDACTED]' : value;
+    }
+
+    return result;
+  }
+
+  /**
+   * Verifica duplicata, vincula contato/conversa, persiste uma mensagem normalizada
+   * e enfileira sua classificação.
+   */
+  private async processMessage(
+    normalizedData: CreateNormalizedMessage,
+    tenantId: string,
+    rawWebhookId: string
+  ): Promise<ProcessedMessage> {
+    // 1. Verifica se já existe no tenant (idempotência)
     const existingMessage = await this.messageRepository.findByExternalId(
+      tenantId,
       normalizedData.provider,
       normalizedData.externalId
     );
 
     if (existingMessage) {
+      // Reentrega de mensagem ainda não classificada: garante que o job exista
+      // (cobre falha ao enfileirar após salvar). Enfileirar é idempotente.
+      if (existingMessage.classificationStatus === 'pending') {
+        await this.classificationQueue.enqueue(existingMessage.id);
+      }
+
+      // Notifica a reentrega (o envio acontece em segundo plano)
+      await this.eventPublisher.publish('message.duplicate', existingMessage);
+
       // Mensagem já processada - retorna a existente com flag de duplicata
       // Não é erro, apenas informativo (HTTP 200)
       return {
@@ -79,14 +447,37 @@ export class ProcessWebhookUseCase {
       };
     }
 
-    // 5. Persiste no banco de dados
-    try {
-      const savedMessage = await this.messageRepository.save(normalizedData);
+    // 2. Obtém/cria contato (único por telefone no tenant) e conversa (contato + provedor).
+    // Mensagens enviadas por nós não alteram o nome do contato.
+    const { contact, conversation } = await this.contactRepository.resolve(
+      tenantId,
+      normalizedData.contact,
+      normalizedData.provider,
+      !normalizedData.isFromMe
+    );
 
-      return {
-        message: savedMessage,
-        isDuplicate: false,
-      };
+    // 3. Extrai as entidades do conteúdo (datas sem ano usam o ano da mensagem)
+    const entities = this.entityExtractor.extract(
+      normalizedData.message.content,
+      normalizedData.timestamp
+    );
+
+    // 4. Persiste no banco de dados (mensagem + entidades).
+    // Mensagens enviadas por nós não são classificadas, apenas entram no histórico.
+    const classificationStatus = normalizedData.isFromMe ? 'skipped' : 'pending';
+    let savedMessage: NormalizedMessage;
+    try {
+      savedMessage = await this.messageRepository.save(
+        normalizedData,
+        {
+          tenantId,
+          contactId: contact.id,
+          conversationId: conversation.id,
+          rawWebhookId,
+        },
+        classificationStatus,
+        entities
+      );
     } catch (error) {
       // Wrap erro inesperado em ProcessingError
       if (error instanceof Error) {
@@ -94,5 +485,21 @@ export class ProcessWebhookUseCase {
       }
       throw new ProcessingError('save_message', new Error('Unknown error'));
     }
+
+    // 5. Atualiza contadores e primeira/última mensagem do contato e da conversa
+    await this.contactRepository.registerMessage(contact.id, conversation.id, savedMessage.timestamp);
+
+    // 6. Enfileira a classificação (executada pelo worker, fora da requisição)
+    if (classificationStatus === 'pending') {
+      await this.classificationQueue.enqueue(savedMessage.id);
+    }
+
+    // 7. Notifica sistemas externos (o envio acontece em segundo plano)
+    await this.eventPublisher.publish('message.received', savedMessage);
+
+    return {
+      message: savedMessage,
+      isDuplicate: false,
+    };
   }
 }
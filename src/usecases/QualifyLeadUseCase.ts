@@ -0,0 +1,107 @@
+import type { LeadProfile, LeadSignals } from '../domain/entities/LeadProfile.js';
+import type { MessageRepository } from './interfaces/MessageRepository.js';
+import type { LeadProfileRepository } from './interfaces/LeadProfileRepository.js';
+import type { LeadQualificationService } from './interfaces/LeadQualificationService.js';
+import { ProcessingError } from '../domain/errors/WebhookErrors.js';
+
+/**
+ * Input do caso de uso QualifyLead.
+ */
+export interface QualifyLeadInput {
+  /** ID da mensagem a analisar */
+  messageId: string;
+}
+
+/**
+ * Output do caso de uso QualifyLead.
+ */
+export interface QualifyLeadOutput {
+  /** Sinais extraídos da mensagem (null se a mensagem foi ignorada) */
+  signals: LeadSignals | null;
+  /** Perfil atualizado do contato (null se a mensagem foi ignorada) */
+  profile: LeadProfile | null;
+}
+
+/**
+ * Configuração do caso de uso QualifyLead.
+ */
+export interface QualifyLeadConfig {
+  /** Quantidade de mensagens anteriores do contato enviadas como contexto (0 = sem histórico) */
+  historySize: number;
+}
+
+/**
+ * Caso de Uso: Qualificar Lead
+ *
+ * Responsabilidades:
+ * - Buscar mensagem pelo ID (apenas mensagens recebidas do contato)
+ * - Extrair os sinais BANT da mensagem (LLM)
+ * - Acumular os sinais no perfil do contato e recalcular o score
+ *
+ * Mensagens já analisadas são ignoradas: retentativas do job de
+ * classificação não chamam o LLM de novo nem contam o sinal duas vezes.
+ *
+ * Princípio: Fail-Fast - erros são propagados imediatamente, sem fallbacks.
+ */
+export class QualifyLeadUseCase {
+  constructor(
+    private readonly messageRepository: MessageRepository,
+    private readonly leadProfileRepository: LeadProfileRepository,
+    private readonly leadQualificationService: LeadQualificationService,
+    private readonly config: QualifyLeadConfig
+  ) {}
+
+  /**
+   * Executa a qualificação a partir de uma mensagem.
+   *
+   * @param input - ID da mensagem a analisar
+   * @returns Sinais extraídos e perfil atualizado
+   * @throws ProcessingError se a mensagem não existir ou a extração falhar
+   */
+  async execute(input: QualifyLeadInput): Promise<QualifyLeadOutput> {
+    const { messageId } = input;
+
+    // 1. Busca a mensagem no banco
+    const message = await this.messageRepository.findById(messageId);
+
+    if (!message) {
+      throw new ProcessingError(
+        'find_message',
+        new Error(`Mensagem não encontrada: ${messageId}`)
+      );
+    }
+
+    // 2. Mensagens enviadas por nós e já analisadas não são reprocessadas
+    if (message.isFromMe || (await this.leadProfileRepository.hasSignals(messageId))) {
+      return { signals: null, profile: null };
+    }
+
+    // 3. Extrai os sinais via LLM (o histórico resolve respostas curtas)
+    const context = await this.messageRepository.findConversationContext(
+      message,
+      this.config.historySize
+    );
+
+    let signals: LeadSignals;
+    try {
+      signals = await this.leadQualificationService.extractSignals(
+        message.message.content,
+        context
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('extract_lead_signals', error);
+      }
+      throw new ProcessingError('extract_lead_signals', new Error('Unknown error'));
+    }
+
+    // 4. Acumula no perfil do contato
+    const profile = await this.leadProfileRepository.applySignals(
+      message.contactId,
+      messageId,
+      signals
+    );
+
+    return { signals, profile };
+  }
+}
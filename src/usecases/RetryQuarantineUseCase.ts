@@ -0,0 +1,110 @@
+import type { Provider } from '../domain/entities/NormalizedMessage.js';
+import type { RawWebhookRepository } from './interfaces/RawWebhookRepository.js';
+import type { ProcessWebhookUseCase } from './ProcessWebhookUseCase.js';
+import { WebhookValidationError } from '../domain/errors/WebhookErrors.js';
+
+/**
+ * Input do caso de uso RetryQuarantine.
+ */
+export interface RetryQuarantineInput {
+  /** Provedor cujos webhooks em quarentena serão reprocessados */
+  provider: Provider;
+  /** Cursor retornado pelo lote anterior (ausente: desde o item mais antigo) */
+  cursor?: string | undefined;
+  /** Máximo de webhooks reprocessados neste lote */
+  limit: number;
+  /**
+   * Inclui os webhooks não autenticados no recebimento (provedores sem verificação
+   * de assinatura, como a Evolution). Sem ele, esses itens não são reprocessados.
+   */
+  includeUnauthenticated?: boolean | undefined;
+}
+
+/**
+ * Output do caso de uso RetryQuarantine.
+ */
+export interface RetryQuarantineOutput {
+  /** Webhooks reprocessados neste lote */
+  total: number;
+  /** Reprocessados com sucesso (saíram da quarentena) */
+  processed: number;
+  /** Continuam inválidos (permanecem em quarentena) */
+  stillQuarantined: number;
+  /** Falharam por erro inesperado */
+  failed: number;
+  /** Webhooks em quarentena depois deste lote (ainda não tentados) */
+  remaining: number;
+  /** Cursor do próximo lote, ou null se não houver mais itens */
+  nextCursor: string | null;
+}
+
+/**
+ * Caso de Uso: Reprocessar a Quarentena de um Provedor
+ *
+ * Responsabilidades:
+ * - Buscar um lote de webhooks em quarentena do provedor (mais antigo primeiro)
+ * - Reprocessar cada um com o adapter atual (ex: após deploy de correção do schema)
+ * - Contabilizar o resultado e informar quantos itens restam
+ *
+ * O lote é limitado para que a requisição termine em tempo previsível; os itens
+ * seguintes são reprocessados com o cursor retornado. O cursor avança também sobre
+ * os itens que continuam inválidos, que não bloqueiam os lotes seguintes.
+ * Cada webhook é reprocessado isoladamente: a falha de um não interrompe os demais.
+ * O resultado individual fica registrado no próprio webhook arquivado.
+ */
+export class RetryQuarantineUseCase {
+  constructor(
+    private readonly rawWebhookRepository: RawWebhookRepository,
+    private readonly processWebhookUseCase: ProcessWebhookUseCase
+  ) {}
+
+  /**
+   * Reprocessa um lote de webhooks em quarentena do provedor.
+   *
+   * @param input - Provedor, cursor e tamanho do lote
+   * @returns Contagem por resultado, itens restantes e cursor do próximo lote
+   * @throws InvalidRequestError se o cursor for inválido
+   */
+  async execute(input: RetryQuarantineInput): Promise<RetryQuarantineOutput> {
+    const includeUnauthenticated = input.includeUnauthenticated === true;
+    const { ids, nextCursor, remaining } = await this.rawWebhookRepository.findQuarantineBatch({
+      provider: input.provider,
+      cursor: input.cursor,
+      limit: input.limit,
+      includeUnauthenticated,
+    });
+
+    const output: RetryQuarantineOutput = {
+      total: ids.length,
+      processed: 0,
+      stillQuarantined: 0,
+      failed: 0,
+      remaining,
+      nextCursor,
+    };
+
+    // Sequencial, preservando a ordem de recebimento das mensagens
+    for (const id of ids) {
+      try {
+        await this.processWebhookUseCase.replay(id, {
+          allowUnauthenticated: includeUnauthenticated,
+        });
+        output.processed++;
+      } catch (error) {
+        if (error instanceof WebhookValidationError) {
+          output.stillQuarantined++;
+        } else {
+          output.failed++;
+          console.error(`[RetryQuarantine] Falha ao reprocessar webhook ${id}:`, error);
+        }
+      }
+    }
+
+    console.log(
+      `[RetryQuarantine] ${input.provider}: ${output.processed}/${output.total} reprocessado(s), ` +
+        `${output.stillQuarantined} em quarentena, ${output.failed} com falha, ${output.remaining} restante(s)`
+    );
+
+    return output;
+  }
+}
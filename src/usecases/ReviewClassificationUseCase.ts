@@ -0,0 +1,166 @@
+import { ZodError } from 'zod';
+import {
+  HUMAN_CLASSIFIER,
+  type NormalizedMessage,
+  type Classification,
+} from '../domain/entities/NormalizedMessage.js';
+import type { MessageRepository, MessagePage } from './interfaces/MessageRepository.js';
+import type { ContactRepository } from './interfaces/ContactRepository.js';
+import type { IntentCatalog } from './interfaces/IntentCatalog.js';
+import type { EventPublisher } from './interfaces/EventPublisher.js';
+import {
+  ProcessingError,
+  ResourceNotFoundError,
+  InvalidRequestError,
+} from '../domain/errors/WebhookErrors.js';
+
+/**
+ * Confiança gravada nas correções manuais.
+ */
+const HUMAN_CONFIDENCE = 1;
+
+/**
+ * Input da correção manual de uma classificação.
+ */
+export interface ReviewClassificationInput {
+  /** Tenant dono da mensagem */
+  tenantId: string;
+  /** ID interno da mensagem */
+  messageId: string;
+  /** Intenção correta (deve estar ativa no catálogo) */
+  intent: string;
+}
+
+/**
+ * Output da correção manual de uma classificação.
+ */
+export interface ReviewClassificationOutput {
+  /** Mensagem com a classificação corrigida */
+  message: NormalizedMessage;
+  /** Classificação anterior (null se a mensagem ainda não tinha sido classificada) */
+  previous: Classification | null;
+}
+
+/**
+ * Filtros da fila de revisão.
+ */
+export interface ReviewQueueQuery {
+  tenantId: string;
+  /** Limite de confiança da fila (exclusivo). Ausente: o da configuração */
+  threshold?: number | undefined;
+  cursor?: string | undefined;
+  limit: number;
+}
+
+/**
+ * Configuração da revisão de classificações.
+ */
+export interface ReviewClassificationConfig {
+  /** Classificações automáticas abaixo desta confiança entram na fila de revisão */
+  confidenceThreshold: number;
+}
+
+/**
+ * Caso de Uso: Revisar Classificação
+ *
+ * Responsabilidades:
+ * - Listar a fila de revisão (classificações automáticas de baixa confiança ainda não revisadas)
+ * - Corrigir manualmente a intenção de uma mensagem recebida
+ * - Registrar a correção no histórico de classificações (dataset rotulado)
+ * - Atualizar a última intenção do contato
+ * - Publicar o evento message.classified para sistemas externos
+ *
+ * As regras de automação não são reavaliadas: a correção não dispara novas ações.
+ *
+ * Princípio: Fail-Fast - erros são propagados imediatamente, sem fallbacks.
+ */
+export class ReviewClassificationUseCase {
+  constructor(
+    private readonly messageRepository: MessageRepository,
+    private readonly contactRepository: ContactRepository,
+    private readonly intentCatalog: IntentCatalog,
+    private readonly eventPublisher: EventPublisher,
+    private readonly config: ReviewClassificationConfig
+  ) {}
+
+  /**
+   * Corrige a classificação de uma mensagem.
+   *
+   * @param input - Tenant, mensagem e intenção correta
+   * @returns Mensagem corrigida e a classificação anterior
+   * @throws ResourceNotFoundError se a mensagem não existir no tenant ou for uma mensagem enviada
+   * @throws InvalidRequestError se a intenção não estiver ativa no catálogo
+   * @throws ProcessingError se falhar ao atualizar
+   */
+  async execute(input: ReviewClassificationInput): Promise<ReviewClassificationOutput> {
+    const { tenantId, messageId, intent } = input;
+
+    // 1. Busca a mensagem (mensagens de outros tenants são tratadas como inexistentes)
+    const message = await this.messageRepository.findById(messageId);
+
+    if (!message || message.tenantId !== tenantId) {
+      throw new ResourceNotFoundError('Mensagem', messageId);
+    }
+
+    // Mensagens enviadas não são classificadas
+    if (message.isFromMe) {
+      throw new ResourceNotFoundError('Mensagem recebida', messageId);
+    }
+
+    // 2. Valida a intenção contra o catálogo ativo
+    const intents = await this.intentCatalog.getActive();
+    if (!intents.some((item) => item.key === intent)) {
+      throw new InvalidRequestError(
+        new ZodError([
+          { code: 'custom', path: ['intent'], message: `Intenção inexistente ou inativa: ${intent}` },
+        ])
+      );
+    }
+
+    // 3. Grava a correção (e o registro no histórico)
+    let updatedMessage: NormalizedMessage;
+    try {
+      updatedMessage = await this.messageRepository.updateClassification(messageId, {
+        intent,
+        confidence: HUMAN_CONFIDENCE,
+        classifier: HUMAN_CLASSIFIER,
+        source: 'human',
+      });
+
+      // 4. Atualiza a última intenção do contato (se for a mensagem mais recente)
+      await this.contactRepository.updateLastIntent(
+        updatedMessage.contactId,
+        intent,
+        updatedMessage.timestamp
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new ProcessingError('review_classification', error);
+      }
+      throw new ProcessingError('review_classification', new Error('Unknown error'));
+    }
+
+    // 5. Notifica sistemas externos (o envio acontece em segundo plano)
+    await this.eventPublisher.publish('message.classified', updatedMessage);
+
+    return {
+      message: updatedMessage,
+      previous: message.classification ?? null,
+    };
+  }
+
+  /**
+   * Lista as mensagens do tenant com classificação automática abaixo do limite
+   * de confiança e ainda não revisadas (mais recentes primeiro).
+   *
+   * @throws InvalidRequestError se o cursor for inválido
+   */
+  async listQueue(query: ReviewQueueQuery): Promise<MessagePage> {
+    return this.messageRepository.findMany({
+      tenantId: query.tenantId,
+      reviewBelow: query.threshold ?? this.config.confidenceThreshold,
+      cursor: query.cursor,
+      limit: query.limit,
+    });
+  }
+}
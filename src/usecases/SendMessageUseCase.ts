@@ -0,0 +1,199 @@
+import type {
+  Provider,
+  NormalizedMessage,
+  CreateNormalizedMessage,
+} from '../domain/entities/NormalizedMessage.js';
+import type { MessageRepository } from './interfaces/MessageRepository.js';
+import type { ContactRepository } from './interfaces/ContactRepository.js';
+import type { TenantRepository } from './interfaces/TenantRepository.js';
+import type { ProviderAccount } from '../domain/entities/Tenant.js';
+import type { SenderRegistry } from '../adapters/registry/SenderRegistry.js';
+import type { SentMessage } from '../adapters/interfaces/MessageSender.js';
+import { buildTextContent } from '../adapters/shared/MessageContentBuilder.js';
+import {
+  WebhookError,
+  MessageSendError,
+  ProcessingError,
+  ResourceNotFoundError,
+  SenderNotConfiguredError,
+} from '../domain/errors/WebhookErrors.js';
+
+/**
+ * Input do caso de uso SendMessage.
+ */
+export interface SendMessageInput {
+  /** Tenant remetente */
+  tenantId: string;
+  /** Provedor usado no envio */
+  provider: Provider;
+  /** Conta remetente (ID interno). Se ausente, usa a conta mais antiga do tenant no provedor */
+  accountId?: string | undefined;
+  /** Telefone do destinatário (apenas dígitos, com DDI) */
+  phone: string;
+  /** Texto da mensagem */
+  text: string;
+}
+
+/**
+ * Output do caso de uso SendMessage.
+ */
+export interface SendMessageOutput {
+  /** Mensagem enviada, persistida como NormalizedMessage (isFromMe: true) */
+  message: NormalizedMessage;
+}
+
+/**
+ * Caso de Uso: Enviar Mensagem
+ *
+ * Responsabilidades:
+ * - Obter o sender do provedor e a conta remetente do tenant
+ * - Enviar a mensagem pela API do provedor
+ * - Obter/criar o contato (lead) do tenant e a conversa
+ * - Persistir a mensagem enviada no mesmo formato das recebidas
+ *
+ * Mensagens enviadas não são classificadas (classificationStatus "skipped");
+ * elas entram apenas como contexto da classificação das respostas do contato.
+ *
+ * Princípio: Fail-Fast - erros são propagados imediatamente, sem fallbacks.
+ */
+export class SendMessageUseCase {
+  constructor(
+    private readonly senderRegistry: SenderRegistry,
+    private readonly messageRepository: MessageRepository,
+    private readonly contactRepository: ContactRepository,
+    private readonly tenantRepository: TenantRepository
+  ) {}
+
+  /**
+   * Executa o envio de uma mensagem de texto.
+   *
+   * @param input - Tenant, provedor, destinatário e texto
+   * @returns Mensagem enviada e persistida
+   * @throws SenderNotConfiguredError se o provedor não suportar envio ou o tenant não tiver conta nele
+   * @throws ResourceNotFoundError se a conta informada não existir no tenant
+   * @throws MessageSendError se o provedor recusar o envio
+   * @throws ProcessingError se falhar ao salvar
+   */
+  async execute(input: SendMessageInput): Promise<SendMessageOutput> {
+    const { tenantId, provider, phone, text } = input;
+
+    // 1. Obtém o sender do provedor e a conta remetente do tenant
+    // Throws SenderNotConfiguredError se não existir
+    const sender = this.senderRegistry.getSender(provider);
+    const account = await this.resolveAccount(tenantId, provider, input.accountId);
+
+    // 2. Envia pela API do provedor
+    let sent: SentMessage;
+    try {
+      sent = await sender.sendText({ phone, text }, account);
+    } catch (error) {
+      if (error instanceof WebhookError) {
+        throw error;
+      }
+      // Falha de rede/timeout
+      throw new MessageSendError(provider, error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    // 3. Monta a mensagem no formato normalizado
+    const normalizedData: CreateNormalizedMessage = {
+      externalId: sent.externalId,
+      provider,
+      // O nome só é usado se o contato ainda não existir
+      contact: { phone, name: phone },
+      message: buildTextContent(text),
+      timestamp: sent.timestamp,
+      isFromMe: true,
+    };
+
+    // 4. Obtém/cria contato e conversa (envio não altera o nome do contato)
+    const { contact, conversation } = await this.contactRepository.resolve(
+      tenantId,
+      normalizedData.contact,
+      provider,
+      false
+    );
+
+    // 5. Persiste a mensagem enviada
+    const message = await this.saveSentMessage(normalizedData, tenantId, contact.id, conversation.id);
+
+    return { message };
+  }
+
+  /**
+   * Obtém a conta remetente: a informada ou a mais antiga do tenant no provedor.
+   */
+  private async resolveAccount(
+    tenantId: string,
+    provider: Provider,
+    accountId: string | undefined
+  ): Promise<ProviderAccount> {
+    const accounts = await this.tenantRepository.findAccounts(tenantId, provider);
+
+    if (accountId) {
+      const account = accounts.find(({ id }) => id === accountId);
+      if (!account) {
+        throw new ResourceNotFoundError('Conta', accountId);
+      }
+      return account;
+    }
+
+    const [account] = accounts;
+    if (!account) {
+      throw new SenderNotConfiguredError(provider);
+    }
+    return account;
+  }
+
+  /**
+   * Persiste a mensagem enviada.
+   * O provedor pode ecoar a mensagem via webhook (fromMe) antes de salvarmos:
+   * nesse caso a mensagem já registrada pelo webhook é retornada.
+   */
+  private async saveSentMessage(
+    normalizedData: CreateNormalizedMessage,
+    tenantId: string,
+    contactId: string,
+    conversationId: string
+  ): Promise<NormalizedMessage> {
+    const echoed = await this.messageRepository.findByExternalId(
+      tenantId,
+      normalizedData.provider,
+      normalizedData.externalId
+    );
+    if (echoed) {
+      return echoed;
+    }
+
+    let saved: NormalizedMessage;
+    try {
+      saved = await this.messageRepository.save(
+        normalizedData,
+        { tenantId, contactId, conversationId },
+        'skipped'
+      );
+    } catch (error) {
+      // Eco do webhook gravado entre a verificação e o insert
+      const concurrent = await this.messageRepository.findByExternalId(
+        tenantId,
+        normalizedData.provider,
+        normalizedData.externalId
+      );
+      if (concurrent) {
+        return concurrent;
+      }
+
+      if (error instanceof ProcessingError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new ProcessingError('save_sent_message', error);
+      }
+      throw new ProcessingError('save_sent_message', new Error('Unknown error'));
+    }
+
+    // Atualiza contadores e primeira/última mensagem do contato e da conversa
+    await this.contactRepository.registerMessage(contactId, conversationId, saved.timestamp);
+
+    return saved;
+  }
+}
@@ -0,0 +1,104 @@
+import type { Provider } from '../domain/entities/NormalizedMessage.js';
+import type { Tenant } from '../domain/entities/Tenant.js';
+import type { TenantRepository } from './interfaces/TenantRepository.js';
+import type { AdapterRegistry } from '../adapters/registry/AdapterRegistry.js';
+import type { VerificationRequest } from '../adapters/interfaces/WebhookAdapter.js';
+import { safeCompare } from '../adapters/shared/RequestVerification.js';
+import {
+  VerificationNotSupportedError,
+  WebhookVerificationError,
+} from '../domain/errors/WebhookErrors.js';
+
+/**
+ * Input do caso de uso VerifyWebhook.
+ */
+export interface VerifyWebhookInput {
+  /** Provedor da URL de webhook */
+  provider: Provider;
+  /** Slug do tenant da URL (/webhook/:tenant/:provider). Se ausente, qualquer tenant */
+  tenantSlug?: string | undefined;
+  /** Query string e headers da requisição de verificação */
+  request: VerificationRequest;
+}
+
+/**
+ * Output do caso de uso VerifyWebhook.
+ */
+export interface VerifyWebhookOutput {
+  /** Corpo a responder ao provedor (ex: hub.challenge) */
+  response: string;
+  /** Tenant dono do token de verificação */
+  tenant: Tenant;
+}
+
+/**
+ * Caso de Uso: Verificar Webhook (handshake)
+ *
+ * Responsabilidades:
+ * - Delegar a interpretação do handshake ao adapter do provedor
+ * - Comparar o token com o verifyToken das contas do provedor
+ *   (do tenant da URL, se informado)
+ * - Retornar a resposta esperada pelo provedor
+ *
+ * Princípio: Fail-Fast - qualquer divergência recusa a verificação.
+ */
+export class VerifyWebhookUseCase {
+  constructor(
+    private readonly adapterRegistry: AdapterRegistry,
+    private readonly tenantRepository: TenantRepository
+  ) {}
+
+  /**
+   * Executa a verificação do webhook.
+   *
+   * @param input - Provedor, tenant (opcional) e requisição de verificação
+   * @returns Resposta do handshake e tenant dono do token
+   * @throws AdapterNotFoundError se não houver adapter para o provedor
+   * @throws VerificationNotSupportedError se o provedor não tiver handshake
+   * @throws WebhookVerificationError se a requisição for inválida ou o token não conferir
+   */
+  async execute(input: VerifyWebhookInput): Promise<VerifyWebhookOutput> {
+    const { provider, tenantSlug } = input;
+    const adapter = this.adapterRegistry.getAdapter(provider);
+
+    if (!adapter.parseVerification) {
+      throw new VerificationNotSupportedError(provider);
+    }
+
+    const { verifyToken, response } = adapter.parseVerification(input.request);
+    const tenant = await this.findTenant(provider, tenantSlug, verifyToken);
+
+    if (!tenant || !tenant.active) {
+      throw new WebhookVerificationError(provider, 'token de verificação não confere');
+    }
+
+    return { response, tenant };
+  }
+
+  /**
+   * Procura o tenant dono do token: entre as contas do provedor no tenant
+   * informado ou, sem tenant, entre todas as contas do provedor.
+   */
+  private async findTenant(
+    provider: Provider,
+    tenantSlug: string | undefined,
+    verifyToken: string
+  ): Promise<Tenant | null> {
+    if (tenantSlug === undefined) {
+      const resolved = await this.tenantRepository.findByVerifyToken(provider, verifyToken);
+      return resolved?.tenant ?? null;
+    }
+
+    const tenant = await this.tenantRepository.findBySlug(tenantSlug);
+    if (!tenant) {
+      return null;
+    }
+
+    const accounts = await this.tenantRepository.findAccounts(tenant.id, provider);
+    const matches = accounts.some(
+      ({ credentials }) =>
+        credentials.verifyToken !== undefined && safeCompare(verifyToken, credentials.verifyToken)
+    );
+    return matches ? tenant : null;
+  }
+}
@@ -5,18 +5,111 @@
  */
 
 // Interfaces (contratos para infraestrutura)
-export type { MessageRepository } from './interfaces/MessageRepository.js';
-export type { ClassificationService } from './interfaces/ClassificationService.js';
+export type {
+  MessageRepository,
+  MessageRelations,
+  MessageQuery,
+  MessagePage,
+} from './interfaces/MessageRepository.js';
+export type { MessageStatusRepository } from './interfaces/MessageStatusRepository.js';
+export type { TenantRepository } from './interfaces/TenantRepository.js';
+export type { AdapterMappingRepository } from './interfaces/AdapterMappingRepository.js';
+export type {
+  ContactRepository,
+  ContactQuery,
+  ContactPage,
+  ResolvedContact,
+} from './interfaces/ContactRepository.js';
+export type {
+  ClassificationService,
+  ClassificationContext,
+  ConversationTurn,
+  ServiceCallOptions,
+} from './interfaces/ClassificationService.js';
+export type { ClassificationCache, ClassificationCacheStats } from './interfaces/ClassificationCache.js';
+export type {
+  ClassificationCacheRepository,
+  ClassificationCacheEntry,
+  ClassificationCacheSummary,
+} from './interfaces/ClassificationCacheRepository.js';
+export type { LeadQualificationService } from './interfaces/LeadQualificationService.js';
+export type { LeadProfileRepository } from './interfaces/LeadProfileRepository.js';
+export type { EntityExtractor } from './interfaces/EntityExtractor.js';
+export type { ClassificationQueue } from './interfaces/ClassificationQueue.js';
+export type { IntentRepository } from './interfaces/IntentRepository.js';
+export type { IntentCatalog } from './interfaces/IntentCatalog.js';
+export type { AutomationRuleRepository } from './interfaces/AutomationRuleRepository.js';
+export type {
+  RuleExecutionRepository,
+  RuleExecutionQuery,
+  RuleExecutionPage,
+} from './interfaces/RuleExecutionRepository.js';
+export type { EventSubscriptionRepository } from './interfaces/EventSubscriptionRepository.js';
+export type {
+  EventDeliveryQueue,
+  EventDeliveryQuery,
+  EventDeliveryPage,
+} from './interfaces/EventDeliveryQueue.js';
+export type { EventPublisher } from './interfaces/EventPublisher.js';
+export type {
+  RawWebhookRepository,
+  RawWebhookQuery,
+  RawWebhookPage,
+  QuarantineBatch,
+  QuarantineBatchQuery,
+} from './interfaces/RawWebhookRepository.js';
 
 // Use Cases
 export {
   ProcessWebhookUseCase,
   type ProcessWebhookInput,
   type ProcessWebhookOutput,
+  type ProcessedMessage,
 } from './ProcessWebhookUseCase.js';
 
 export {
   ClassifyMessageUseCase,
   type ClassifyMessageInput,
   type ClassifyMessageOutput,
+  type ClassifyMessageConfig,
 } from './ClassifyMessageUseCase.js';
+
+export {
+  QualifyLeadUseCase,
+  type QualifyLeadInput,
+  type QualifyLeadOutput,
+  type QualifyLeadConfig,
+} from './QualifyLeadUseCase.js';
+
+export {
+  ReviewClassificationUseCase,
+  type ReviewClassificationInput,
+  type ReviewClassificationOutput,
+  type ReviewQueueQuery,
+  type ReviewClassificationConfig,
+} from './ReviewClassificationUseCase.js';
+
+export {
+  SendMessageUseCase,
+  type SendMessageInput,
+  type SendMessageOutput,
+} from './SendMessageUseCase.js';
+
+export {
+  EvaluateRulesUseCase,
+  type EvaluateRulesInput,
+  type EvaluateRulesOutput,
+  type EvaluateRulesConfig,
+} from './EvaluateRulesUseCase.js';
+
+export {
+  VerifyWebhookUseCase,
+  type VerifyWebhookInput,
+  type VerifyWebhookOutput,
+} from './VerifyWebhookUseCase.js';
+
+export {
+  RetryQuarantineUseCase,
+  type RetryQuarantineInput,
+  type RetryQuarantineOutput,
+} from './RetryQuarantineUseCase.js';
@@ -0,0 +1,44 @@
+import type {
+  AdapterMapping,
+  CreateAdapterMapping,
+  UpdateAdapterMapping,
+} from '../../domain/entities/AdapterMapping.js';
+
+/**
+ * Interface do repositório de mapeamentos dos adapters configuráveis.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface AdapterMappingRepository {
+  /**
+   * Lista todos os mapeamentos (ativos e inativos), ordenados pelo provedor.
+   */
+  findAll(): Promise<AdapterMapping[]>;
+
+  /**
+   * Lista apenas os mapeamentos ativos, ordenados pelo provedor.
+   */
+  findActive(): Promise<AdapterMapping[]>;
+
+  /**
+   * Busca um mapeamento pelo provedor.
+   */
+  findByProvider(provider: string): Promise<AdapterMapping | null>;
+
+  /**
+   * Cadastra um mapeamento.
+   * @throws ResourceConflictError se o provedor já tiver mapeamento
+   */
+  create(data: CreateAdapterMapping): Promise<AdapterMapping>;
+
+  /**
+   * Altera um mapeamento existente.
+   * @throws ResourceNotFoundError se o provedor não tiver mapeamento
+   */
+  update(provider: string, data: UpdateAdapterMapping): Promise<AdapterMapping>;
+
+  /**
+   * Remove um mapeamento.
+   * @throws ResourceNotFoundError se o provedor não tiver mapeamento
+   */
+  delete(provider: string): Promise<void>;
+}
@@ -0,0 +1,45 @@
+import type {
+  AutomationRule,
+  CreateAutomationRule,
+  UpdateAutomationRule,
+} from '../../domain/entities/AutomationRule.js';
+
+/**
+ * Interface do repositório de regras de automação.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface AutomationRuleRepository {
+  /**
+   * Lista todas as regras, na ordem de avaliação.
+   */
+  findAll(): Promise<AutomationRule[]>;
+
+  /**
+   * Lista as regras ativas do tenant e as globais (sem tenant),
+   * na ordem de avaliação (prioridade, criação).
+   */
+  findActive(tenantId: string): Promise<AutomationRule[]>;
+
+  /**
+   * Busca uma regra pelo ID.
+   */
+  findById(id: string): Promise<AutomationRule | null>;
+
+  /**
+   * Cria uma regra.
+   * @throws ResourceNotFoundError se o tenant informado não existir
+   */
+  create(data: CreateAutomationRule): Promise<AutomationRule>;
+
+  /**
+   * Altera uma regra existente.
+   * @throws ResourceNotFoundError se a regra não existir
+   */
+  update(id: string, data: UpdateAutomationRule): Promise<AutomationRule>;
+
+  /**
+   * Remove uma regra (o histórico de execuções é removido junto).
+   * @throws ResourceNotFoundError se a regra não existir
+   */
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,37 @@
+/**
+ * Estatísticas do cache de classificações.
+ */
+export interface ClassificationCacheStats {
+  /** Versão atual (prompt, classificador principal e catálogo de intenções) */
+  version: string;
+  /** Classificações servidas pelo cache desde o início do processo */
+  hits: number;
+  /** Classificações sem entrada no cache desde o início do processo */
+  misses: number;
+  /** Classificações que compartilharam uma chamada em andamento para o mesmo conteúdo */
+  deduplicated: number;
+  /** Classificações fora do cache (com contexto, conteúdo longo ou cache desativado) */
+  bypassed: number;
+  /** hits / (hits + misses), ou null sem consultas */
+  hitRate: number | null;
+  /** Entradas válidas no banco */
+  entries: number;
+  /** Acertos acumulados nas entradas válidas (inclui execuções anteriores) */
+  storedHits: number;
+}
+
+/**
+ * Cache de classificações consultado pela administração.
+ */
+export interface ClassificationCache {
+  /**
+   * Retorna as estatísticas do cache.
+   */
+  getStats(): Promise<ClassificationCacheStats>;
+
+  /**
+   * Remove todas as entradas.
+   * @returns Quantidade de entradas removidas
+   */
+  clear(): Promise<number>;
+}
@@ -0,0 +1,59 @@
+import type { Classification } from '../../domain/entities/NormalizedMessage.js';
+
+/**
+ * Entrada do cache de classificações.
+ */
+export interface ClassificationCacheEntry {
+  /** Hash do conteúdo normalizado */
+  contentHash: string;
+  /** Versão do prompt e do catálogo com que a classificação foi feita */
+  version: string;
+  /** Conteúdo normalizado (diagnóstico) */
+  content: string;
+  classification: Classification;
+  expiresAt: Date;
+}
+
+/**
+ * Resumo das entradas válidas do cache.
+ */
+export interface ClassificationCacheSummary {
+  /** Entradas da versão atual ainda não expiradas */
+  entries: number;
+  /** Acertos acumulados nessas entradas (inclui execuções anteriores) */
+  hits: number;
+}
+
+/**
+ * Interface do repositório do cache de classificações.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface ClassificationCacheRepository {
+  /**
+   * Busca a classificação válida (não expirada) do conteúdo na versão informada
+   * e registra o acerto.
+   */
+  find(contentHash: string, version: string, now: Date): Promise<Classification | null>;
+
+  /**
+   * Salva (ou substitui) a classificação do conteúdo na versão informada.
+   */
+  save(entry: ClassificationCacheEntry): Promise<void>;
+
+  /**
+   * Remove as entradas expiradas e as de outras versões.
+   * @returns Quantidade de entradas removidas
+   */
+  deleteStale(version: string, now: Date): Promise<number>;
+
+  /**
+   * Remove todas as entradas.
+   * @returns Quantidade de entradas removidas
+   */
+  clear(): Promise<number>;
+
+  /**
+   * Resume as entradas válidas da versão informada.
+   */
+  summarize(version: string, now: Date): Promise<ClassificationCacheSummary>;
+}
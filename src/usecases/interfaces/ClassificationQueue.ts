@@ -0,0 +1,36 @@
+import type { ClassificationJob } from '../../domain/entities/ClassificationJob.js';
+
+/**
+ * Interface da fila de jobs de classificação.
+ * Define as operações sem acoplar à implementação (tabela no PostgreSQL).
+ */
+export interface ClassificationQueue {
+  /**
+   * Enfileira a classificação de uma mensagem.
+   * Idempotente: se já existir job para a mensagem, retorna o existente.
+   * @throws ProcessingError se falhar ao enfileirar
+   */
+  enqueue(messageId: string): Promise<ClassificationJob>;
+
+  /**
+   * Reserva até `limit` jobs prontos para execução, marcando-os como "processing"
+   * e incrementando o número de tentativas.
+   * Seguro para múltiplos workers/instâncias concorrentes.
+   */
+  claim(limit: number): Promise<ClassificationJob[]>;
+
+  /**
+   * Marca o job como concluído.
+   */
+  complete(jobId: string): Promise<void>;
+
+  /**
+   * Devolve o job para a fila, agendado para `runAt` (backoff).
+   */
+  retry(jobId: string, error: string, runAt: Date): Promise<void>;
+
+  /**
+   * Move o job para o dead-letter (sem novas tentativas).
+   */
+  markDead(jobId: string, error: string): Promise<void>;
+}
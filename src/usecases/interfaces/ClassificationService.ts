@@ -1,5 +1,36 @@
 import type { Classification } from '../../domain/entities/NormalizedMessage.js';
 
+/**
+ * Mensagem anterior da conversa, usada como contexto da classificação.
+ */
+export interface ConversationTurn {
+  /** Conteúdo textual da mensagem */
+  content: string;
+  /** true = enviada por nós (atendente), false = enviada pelo contato */
+  isFromMe: boolean;
+  /** Momento original da mensagem */
+  timestamp: Date;
+}
+
+/**
+ * Contexto da classificação: histórico recente do mesmo contato,
+ * da mensagem mais antiga para a mais recente (sem a mensagem classificada).
+ */
+export interface ClassificationContext {
+  history: ConversationTurn[];
+}
+
+/**
+ * Opções de uma chamada ao serviço de classificação ou de qualificação.
+ */
+export interface ServiceCallOptions {
+  /**
+   * Cancela a chamada (ex: timeout da cadeia de fallback).
+   * Implementações devem abortar a requisição ao provedor, não apenas descartar o resultado.
+   */
+  signal?: AbortSignal | undefined;
+}
+
 /**
  * Interface do serviço de classificação de intenção.
  * Define o contrato sem acoplar à implementação (Claude LLM).
@@ -9,8 +40,14 @@ export interface ClassificationService {
    * Classifica a intenção de uma mensagem.
    *
    * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
+   * @param options - Opções da chamada (ex: sinal de cancelamento)
    * @returns Classificação com intent e confidence
-   * @throws ProcessingError se falhar ao classificar
+   * @throws ProcessingError se falhar ao classificar ou se a chamada for cancelada
    */
-  classify(content: string): Promise<Classification>;
+  classify(
+    content: string,
+    context?: ClassificationContext,
+    options?: ServiceCallOptions
+  ): Promise<Classification>;
 }
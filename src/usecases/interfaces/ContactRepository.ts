@@ -0,0 +1,87 @@
+import type { Contact } from '../../domain/entities/Contact.js';
+import type { Conversation } from '../../domain/entities/Conversation.js';
+import type { ContactInfo, Provider } from '../../domain/entities/NormalizedMessage.js';
+
+/**
+ * Contato e conversa resolvidos para uma mensagem.
+ */
+export interface ResolvedContact {
+  contact: Contact;
+  conversation: Conversation;
+}
+
+/**
+ * Filtros e paginação para consulta de contatos.
+ */
+export interface ContactQuery {
+  /** Tenant dono dos contatos */
+  tenantId: string;
+  /** Busca por nome ou telefone (case-insensitive) */
+  search?: string | undefined;
+  /** Intenção da mensagem mais recente */
+  lastIntent?: string | undefined;
+  /** Etiqueta atribuída ao contato */
+  tag?: string | undefined;
+  /** Score mínimo do perfil de qualificação (contatos sem perfil são excluídos) */
+  minLeadScore?: number | undefined;
+  /** Cursor opaco retornado pela página anterior */
+  cursor?: string | undefined;
+  /** Tamanho da página */
+  limit: number;
+}
+
+/**
+ * Página de resultados de uma consulta de contatos.
+ * Ordenada pela última mensagem (mais recente primeiro).
+ */
+export interface ContactPage {
+  items: Contact[];
+  /** Cursor da próxima página, ou null se não houver mais resultados */
+  nextCursor: string | null;
+}
+
+/**
+ * Interface do repositório de contatos e conversas.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface ContactRepository {
+  /**
+   * Obtém (ou cria) o contato do tenant pelo telefone e a conversa do contato no provedor.
+   * @param updateName - Se true, atualiza o nome do contato com o recebido
+   * @throws ProcessingError se falhar ao salvar
+   */
+  resolve(
+    tenantId: string,
+    info: ContactInfo,
+    provider: Provider,
+    updateName: boolean
+  ): Promise<ResolvedContact>;
+
+  /**
+   * Contabiliza uma nova mensagem no contato e na conversa
+   * (contador e primeira/última mensagem).
+   * @throws ProcessingError se falhar ao atualizar
+   */
+  registerMessage(contactId: string, conversationId: string, timestamp: Date): Promise<void>;
+
+  /**
+   * Atualiza a última intenção do contato, se a mensagem classificada
+   * for a mais recente do contato.
+   */
+  updateLastIntent(contactId: string, intent: string, messageTimestamp: Date): Promise<void>;
+
+  /**
+   * Adiciona etiquetas ao contato (etiquetas já existentes são ignoradas).
+   */
+  addTags(contactId: string, tags: string[]): Promise<void>;
+
+  /**
+   * Busca um contato pelo ID interno.
+   */
+  findById(id: string): Promise<Contact | null>;
+
+  /**
+   * Consulta contatos com filtros e paginação por cursor.
+   */
+  findMany(query: ContactQuery): Promise<ContactPage>;
+}
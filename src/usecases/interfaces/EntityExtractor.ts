@@ -0,0 +1,16 @@
+import type { ExtractedEntity } from '../../domain/entities/ExtractedEntity.js';
+
+/**
+ * Interface do extrator de entidades do conteúdo das mensagens
+ * (e-mail, CPF/CNPJ, CEP, números de pedido, datas e valores em reais).
+ */
+export interface EntityExtractor {
+  /**
+   * Extrai as entidades do conteúdo, ordenadas pela posição no texto.
+   *
+   * @param content - Conteúdo textual da mensagem
+   * @param reference - Data de referência para datas sem ano (ex: timestamp da mensagem)
+   * @returns Entidades encontradas (sem repetição de tipo + valor)
+   */
+  extract(content: string, reference: Date): ExtractedEntity[];
+}
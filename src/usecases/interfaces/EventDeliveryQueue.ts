@@ -0,0 +1,61 @@
+import type { EventDelivery, CreateEventDelivery } from '../../domain/entities/EventDelivery.js';
+
+/**
+ * Filtros e paginação para consulta do log de entregas.
+ */
+export interface EventDeliveryQuery {
+  subscriptionId?: string | undefined;
+  status?: EventDelivery['status'] | undefined;
+  /** Cursor opaco retornado pela página anterior */
+  cursor?: string | undefined;
+  /** Tamanho da página */
+  limit: number;
+}
+
+/**
+ * Página de resultados do log de entregas (mais recente primeiro).
+ */
+export interface EventDeliveryPage {
+  items: EventDelivery[];
+  /** Cursor da próxima página, ou null se não houver mais resultados */
+  nextCursor: string | null;
+}
+
+/**
+ * Interface da fila de entregas de eventos.
+ * Define as operações sem acoplar à implementação (tabela no PostgreSQL).
+ */
+export interface EventDeliveryQueue {
+  /**
+   * Enfileira entregas (uma por assinatura).
+   * Idempotente por assinatura + evento.
+   */
+  enqueue(deliveries: CreateEventDelivery[]): Promise<void>;
+
+  /**
+   * Reserva até `limit` entregas prontas, marcando-as como "processing"
+   * e incrementando o número de tentativas.
+   * Seguro para múltiplos workers/instâncias concorrentes.
+   */
+  claim(limit: number): Promise<EventDelivery[]>;
+
+  /**
+   * Marca a entrega como concluída.
+   */
+  markDelivered(deliveryId: string, statusCode: number): Promise<void>;
+
+  /**
+   * Devolve a entrega para a fila, agendada para `runAt` (backoff).
+   */
+  retry(deliveryId: string, error: string, statusCode: number | null, runAt: Date): Promise<void>;
+
+  /**
+   * Move a entrega para o dead-letter (sem novas tentativas).
+   */
+  markDead(deliveryId: string, error: string, statusCode: number | null): Promise<void>;
+
+  /**
+   * Consulta o log de entregas.
+   */
+  findMany(query: EventDeliveryQuery): Promise<EventDeliveryPage>;
+}
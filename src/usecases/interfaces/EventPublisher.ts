@@ -0,0 +1,16 @@
+import type { EventType } from '../../domain/entities/EventSubscription.js';
+import type { NormalizedMessage } from '../../domain/entities/NormalizedMessage.js';
+
+/**
+ * Interface do publicador de eventos para sistemas externos.
+ *
+ * Publicar apenas registra as entregas; o envio HTTP acontece em segundo plano,
+ * sem bloquear o fluxo que originou o evento.
+ */
+export interface EventPublisher {
+  /**
+   * Publica um evento de mensagem para as assinaturas interessadas.
+   * Nunca rejeita: falhas são registradas em log e não afetam o chamador.
+   */
+  publish(type: EventType, message: NormalizedMessage): Promise<void>;
+}
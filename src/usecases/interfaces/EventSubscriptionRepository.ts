@@ -0,0 +1,45 @@
+import type {
+  EventSubscription,
+  EventType,
+  CreateEventSubscription,
+  UpdateEventSubscription,
+} from '../../domain/entities/EventSubscription.js';
+
+/**
+ * Interface do repositório de assinaturas de eventos.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface EventSubscriptionRepository {
+  /**
+   * Lista todas as assinaturas (mais antiga primeiro).
+   */
+  findAll(): Promise<EventSubscription[]>;
+
+  /**
+   * Lista as assinaturas ativas que assinam o evento, do tenant e globais (sem tenant).
+   */
+  findActiveByEvent(type: EventType, tenantId: string): Promise<EventSubscription[]>;
+
+  /**
+   * Busca uma assinatura pelo ID.
+   */
+  findById(id: string): Promise<EventSubscription | null>;
+
+  /**
+   * Cria uma assinatura.
+   * @throws ResourceNotFoundError se o tenant informado não existir
+   */
+  create(data: CreateEventSubscription): Promise<EventSubscription>;
+
+  /**
+   * Altera uma assinatura existente.
+   * @throws ResourceNotFoundError se a assinatura não existir
+   */
+  update(id: string, data: UpdateEventSubscription): Promise<EventSubscription>;
+
+  /**
+   * Remove uma assinatura (e seu log de entregas).
+   * @throws ResourceNotFoundError se a assinatura não existir
+   */
+  delete(id: string): Promise<void>;
+}
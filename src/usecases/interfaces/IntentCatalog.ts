@@ -0,0 +1,18 @@
+import type { IntentDefinition } from '../../domain/entities/Intent.js';
+
+/**
+ * Catálogo de intenções em uso pelos classificadores.
+ * Leitura com cache: alterações administrativas devem chamar `invalidate`.
+ */
+export interface IntentCatalog {
+  /**
+   * Retorna as intenções ativas.
+   * Sempre inclui a intenção de fallback (FALLBACK_INTENT_KEY).
+   */
+  getActive(): Promise<IntentDefinition[]>;
+
+  /**
+   * Descarta o cache, forçando nova leitura na próxima consulta.
+   */
+  invalidate(): void;
+}
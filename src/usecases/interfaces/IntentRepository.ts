@@ -0,0 +1,46 @@
+import type { Intent, CreateIntent, UpdateIntent } from '../../domain/entities/Intent.js';
+
+/**
+ * Interface do repositório do catálogo de intenções.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface IntentRepository {
+  /**
+   * Lista todas as intenções (ativas e inativas), ordenadas pela chave.
+   */
+  findAll(): Promise<Intent[]>;
+
+  /**
+   * Lista apenas as intenções ativas, ordenadas pela chave.
+   */
+  findActive(): Promise<Intent[]>;
+
+  /**
+   * Busca uma intenção pela chave.
+   */
+  findByKey(key: string): Promise<Intent | null>;
+
+  /**
+   * Cria uma intenção.
+   * @throws ResourceConflictError se a chave já existir
+   */
+  create(data: CreateIntent): Promise<Intent>;
+
+  /**
+   * Altera uma intenção existente.
+   * @throws ResourceNotFoundError se a chave não existir
+   */
+  update(key: string, data: UpdateIntent): Promise<Intent>;
+
+  /**
+   * Remove uma intenção do catálogo.
+   * @throws ResourceNotFoundError se a chave não existir
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Insere o catálogo inicial apenas se não houver nenhuma intenção cadastrada.
+   * @returns Quantidade de intenções inseridas
+   */
+  seedIfEmpty(intents: CreateIntent[]): Promise<number>;
+}
@@ -0,0 +1,26 @@
+import type { LeadProfile, LeadSignals } from '../../domain/entities/LeadProfile.js';
+
+/**
+ * Interface do repositório de perfis de qualificação (leads).
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface LeadProfileRepository {
+  /**
+   * Busca o perfil acumulado do contato.
+   */
+  findByContact(contactId: string): Promise<LeadProfile | null>;
+
+  /**
+   * Verifica se os sinais da mensagem já foram acumulados no perfil.
+   */
+  hasSignals(messageId: string): Promise<boolean>;
+
+  /**
+   * Registra os sinais da mensagem e os acumula no perfil do contato,
+   * recalculando o score. Mensagens já acumuladas são ignoradas.
+   *
+   * @returns Perfil atualizado, ou null se a mensagem já tinha sido acumulada
+   * @throws ProcessingError se falhar ao salvar
+   */
+  applySignals(contactId: string, messageId: string, signals: LeadSignals): Promise<LeadProfile | null>;
+}
@@ -0,0 +1,23 @@
+import type { LeadSignals } from '../../domain/entities/LeadProfile.js';
+import type { ClassificationContext, ServiceCallOptions } from './ClassificationService.js';
+
+/**
+ * Interface do serviço de qualificação de leads.
+ * Extrai os sinais BANT de uma mensagem sem acoplar à implementação (Claude LLM).
+ */
+export interface LeadQualificationService {
+  /**
+   * Extrai os sinais de qualificação da mensagem do contato.
+   *
+   * @param content - Conteúdo textual da mensagem
+   * @param context - Histórico recente da conversa (opcional)
+   * @param options - Opções da chamada (ex: sinal de cancelamento)
+   * @returns Sinais encontrados na mensagem
+   * @throws ProcessingError se falhar ao extrair ou se a chamada for cancelada
+   */
+  extractSignals(
+    content: string,
+    context?: ClassificationContext,
+    options?: ServiceCallOptions
+  ): Promise<LeadSignals>;
+}
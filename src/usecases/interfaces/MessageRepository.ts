@@ -1,4 +1,79 @@
-import type { NormalizedMessage, CreateNormalizedMessage, Classification } from '../../domain/entities/NormalizedMessage.js';
+import type {
+  NormalizedMessage,
+  CreateNormalizedMessage,
+  Classification,
+  ClassificationStatus,
+} from '../../domain/entities/NormalizedMessage.js';
+import type {
+  ContactEntity,
+  EntityType,
+  ExtractedEntity,
+} from '../../domain/entities/ExtractedEntity.js';
+import type { ClassificationHistoryEntry } from '../../domain/entities/ClassificationHistory.js';
+import type { ClassificationContext } from './ClassificationService.js';
+
+/**
+ * Vínculos de uma mensagem nova com tenant, contato e conversa.
+ */
+export interface MessageRelations {
+  tenantId: string;
+  contactId: string;
+  conversationId: string;
+  /** Webhook bruto que originou a mensagem (ausente para mensagens enviadas pela API) */
+  rawWebhookId?: string | undefined;
+}
+
+/**
+ * Filtros e paginação para consulta de mensagens.
+ * Campos ausentes não filtram (exceto o tenant, sempre obrigatório).
+ */
+export interface MessageQuery {
+  /** Tenant dono das mensagens */
+  tenantId: string;
+  /** Provedor de origem */
+  provider?: string | undefined;
+  /** ID do contato */
+  contactId?: string | undefined;
+  /** Telefone do contato (apenas dígitos) */
+  contactPhone?: string | undefined;
+  /** Intenção classificada */
+  intent?: string | undefined;
+  /** Confiança mínima da classificação (inclusive) */
+  minConfidence?: number | undefined;
+  /** Confiança máxima da classificação (inclusive) */
+  maxConfidence?: number | undefined;
+  /** Direção da mensagem */
+  isFromMe?: boolean | undefined;
+  /** Timestamp mínimo da mensagem (inclusive) */
+  from?: Date | undefined;
+  /** Timestamp máximo da mensagem (inclusive) */
+  to?: Date | undefined;
+  /** Busca textual no conteúdo (case-insensitive) */
+  search?: string | undefined;
+  /** Tipo de entidade presente no conteúdo */
+  entityType?: EntityType | undefined;
+  /** Valor normalizado de entidade presente no conteúdo (ex: CPF só com dígitos) */
+  entityValue?: string | undefined;
+  /**
+   * Fila de revisão: mensagens classificadas automaticamente (sem correção manual)
+   * com confiança abaixo do valor (exclusivo)
+   */
+  reviewBelow?: number | undefined;
+  /** Cursor opaco retornado pela página anterior */
+  cursor?: string | undefined;
+  /** Tamanho da página */
+  limit: number;
+}
+
+/**
+ * Página de resultados de uma consulta de mensagens.
+ * Ordenada da mensagem mais recente para a mais antiga.
+ */
+export interface MessagePage {
+  items: NormalizedMessage[];
+  /** Cursor da próxima página, ou null se não houver mais resultados */
+  nextCursor: string | null;
+}
 
 /**
  * Interface do repositório de mensagens.
@@ -6,10 +81,17 @@ import type { NormalizedMessage, CreateNormalizedMessage, Classification } from
  */
 export interface MessageRepository {
   /**
-   * Salva uma nova mensagem no banco.
+   * Salva uma nova mensagem no banco, vinculada ao contato e à conversa,
+   * junto com as entidades extraídas do conteúdo.
+   * O status de classificação inicial é "pending", salvo indicação contrária.
    * @throws ProcessingError se falhar ao salvar
    */
-  save(message: CreateNormalizedMessage): Promise<NormalizedMessage>;
+  save(
+    message: CreateNormalizedMessage,
+    relations: MessageRelations,
+    classificationStatus?: ClassificationStatus,
+    entities?: ExtractedEntity[]
+  ): Promise<NormalizedMessage>;
 
   /**
    * Busca uma mensagem pelo ID interno.
@@ -17,14 +99,67 @@ export interface MessageRepository {
   findById(id: string): Promise<NormalizedMessage | null>;
 
   /**
-   * Busca uma mensagem pelo ID externo e provedor.
+   * Consulta mensagens com filtros e paginação por cursor.
+   * @throws InvalidRequestError se o cursor for inválido
+   */
+  findMany(query: MessageQuery): Promise<MessagePage>;
+
+  /**
+   * Busca as últimas mensagens do contato (ambas as direções) anteriores
+   * ao timestamp informado, em ordem cronológica (mais antiga primeiro).
+   */
+  findRecentByContact(contactId: string, before: Date, limit: number): Promise<NormalizedMessage[]>;
+
+  /**
+   * Monta o contexto da conversa (classificação e qualificação) com as últimas
+   * mensagens do contato anteriores à mensagem informada. limit <= 0 retorna histórico vazio.
+   * @throws ProcessingError se falhar ao buscar o histórico
+   */
+  findConversationContext(message: NormalizedMessage, limit: number): Promise<ClassificationContext>;
+
+  /**
+   * Lista as entidades das mensagens do contato, agregadas por tipo e valor
+   * (a mais recente primeiro).
+   */
+  findEntitiesByContact(contactId: string, type?: EntityType): Promise<ContactEntity[]>;
+
+  /**
+   * Busca uma mensagem do tenant pelo ID externo e provedor.
    * Usado para verificar duplicatas (idempotência).
    */
-  findByExternalId(provider: string, externalId: string): Promise<NormalizedMessage | null>;
+  findByExternalId(
+    tenantId: string,
+    provider: string,
+    externalId: string
+  ): Promise<NormalizedMessage | null>;
 
   /**
-   * Atualiza a classificação de uma mensagem.
+   * Atualiza a classificação de uma mensagem (e marca a classificação como concluída),
+   * registrando-a no histórico de classificações. Usado na revisão manual.
    * @throws ProcessingError se mensagem não existir ou falhar ao atualizar
    */
   updateClassification(id: string, classification: Classification): Promise<NormalizedMessage>;
+
+  /**
+   * Grava a classificação automática como `updateClassification`, mas apenas se a
+   * mensagem ainda estiver "pending" e não tiver sido revisada manualmente.
+   * @returns Mensagem atualizada, ou null se a classificação não foi gravada
+   * @throws ProcessingError se falhar ao atualizar
+   */
+  completeClassification(
+    id: string,
+    classification: Classification
+  ): Promise<NormalizedMessage | null>;
+
+  /**
+   * Lista o histórico de classificações da mensagem (mais antiga primeiro).
+   */
+  findClassificationHistory(messageId: string): Promise<ClassificationHistoryEntry[]>;
+
+  /**
+   * Atualiza o progresso da classificação assíncrona de uma mensagem.
+   * Mensagens que não estão "pending" ou foram revisadas manualmente não são alteradas.
+   * @throws ProcessingError se falhar ao atualizar
+   */
+  updateClassificationStatus(id: string, status: ClassificationStatus): Promise<void>;
 }
@@ -0,0 +1,25 @@
+import type { MessageStatusEvent } from '../../domain/entities/MessageStatusEvent.js';
+
+/**
+ * Interface do repositório de histórico de status de mensagens.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface MessageStatusRepository {
+  /**
+   * Registra eventos de status do tenant.
+   * Eventos já registrados (mesmo tenant, provider, externalId e status) são ignorados (idempotência).
+   * @returns Quantidade de eventos novos registrados
+   * @throws ProcessingError se falhar ao salvar
+   */
+  saveMany(tenantId: string, events: MessageStatusEvent[]): Promise<number>;
+
+  /**
+   * Busca o histórico de status de uma mensagem do tenant pelo ID externo e provedor.
+   * @returns Eventos em ordem cronológica
+   */
+  findByExternalId(
+    tenantId: string,
+    provider: string,
+    externalId: string
+  ): Promise<MessageStatusEvent[]>;
+}
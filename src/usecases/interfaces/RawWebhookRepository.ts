@@ -0,0 +1,101 @@
+import type {
+  RawWebhook,
+  RawWebhookStatus,
+  CreateRawWebhook,
+  RawWebhookOutcome,
+  QuarantineGroup,
+} from '../../domain/entities/RawWebhook.js';
+import type { Provider } from '../../domain/entities/NormalizedMessage.js';
+
+/**
+ * Filtros e paginação para consulta do arquivo de webhooks.
+ */
+export interface RawWebhookQuery {
+  tenantId?: string | undefined;
+  provider?: Provider | undefined;
+  status?: RawWebhookStatus | undefined;
+  /** Caminho que falhou na validação (ex: "senderPhoto") */
+  failurePath?: string | undefined;
+  /** Cursor opaco retornado pela página anterior */
+  cursor?: string | undefined;
+  /** Tamanho da página */
+  limit: number;
+}
+
+/**
+ * Página de resultados do arquivo de webhooks (mais recente primeiro).
+ */
+export interface RawWebhookPage {
+  items: RawWebhook[];
+  /** Cursor da próxima página, ou null se não houver mais resultados */
+  nextCursor: string | null;
+}
+
+/**
+ * Filtros e paginação do lote de webhooks em quarentena.
+ */
+export interface QuarantineBatchQuery {
+  provider: Provider;
+  /** Cursor retornado pelo lote anterior (ausente: desde o início) */
+  cursor?: string | undefined;
+  limit: number;
+  /** Inclui os webhooks não autenticados no recebimento (provedores sem verificação) */
+  includeUnauthenticated: boolean;
+}
+
+/**
+ * Lote de webhooks em quarentena a reprocessar (mais antigo primeiro).
+ */
+export interface QuarantineBatch {
+  ids: string[];
+  /** Cursor do próximo lote (posição do último item deste), ou null se não houver mais itens */
+  nextCursor: string | null;
+  /** Itens em quarentena depois deste lote */
+  remaining: number;
+}
+
+/**
+ * Interface do arquivo de webhooks brutos.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface RawWebhookRepository {
+  /**
+   * Arquiva um webhook recebido, com status "received".
+   * @throws ProcessingError se falhar ao salvar
+   */
+  create(data: CreateRawWebhook): Promise<RawWebhook>;
+
+  /**
+   * Busca um webhook arquivado pelo ID.
+   */
+  findById(id: string): Promise<RawWebhook | null>;
+
+  /**
+   * Consulta o arquivo com filtros e paginação por cursor.
+   */
+  findMany(query: RawWebhookQuery): Promise<RawWebhookPage>;
+
+  /**
+   * Registra o resultado de um processamento (recebimento ou reprocessamento).
+   */
+  recordOutcome(id: string, outcome: RawWebhookOutcome): Promise<void>;
+
+  /**
+   * Incrementa o contador de reprocessamentos.
+   */
+  markReplayed(id: string): Promise<void>;
+
+  /**
+   * Conta os webhooks em quarentena por provedor e caminho que falhou
+   * (maiores contagens primeiro).
+   */
+  summarizeQuarantine(): Promise<QuarantineGroup[]>;
+
+  /**
+   * Lista um lote de IDs dos webhooks em quarentena do provedor, do mais antigo
+   * para o mais recente (ordem de reprocessamento). Webhooks não autenticados no
+   * recebimento só entram se `includeUnauthenticated` for informado.
+   * @throws InvalidRequestError se o cursor for inválido
+   */
+  findQuarantineBatch(query: QuarantineBatchQuery): Promise<QuarantineBatch>;
+}
@@ -0,0 +1,53 @@
+import type {
+  RuleExecution,
+  CreateRuleExecution,
+  ClaimRuleExecution,
+} from '../../domain/entities/AutomationRule.js';
+
+/**
+ * Filtros e paginação para consulta do log de execuções.
+ */
+export interface RuleExecutionQuery {
+  ruleId?: string | undefined;
+  messageId?: string | undefined;
+  /** Cursor opaco retornado pela página anterior */
+  cursor?: string | undefined;
+  /** Tamanho da página */
+  limit: number;
+}
+
+/**
+ * Página de resultados do log de execuções (mais recente primeiro).
+ */
+export interface RuleExecutionPage {
+  items: RuleExecution[];
+  /** Cursor da próxima página, ou null se não houver mais resultados */
+  nextCursor: string | null;
+}
+
+/**
+ * Interface do log de auditoria das execuções de regras.
+ */
+export interface RuleExecutionRepository {
+  /**
+   * Lista os IDs das regras já executadas para a mensagem.
+   * Usado para não repetir ações em reprocessamentos.
+   */
+  findExecutedRuleIds(messageId: string): Promise<string[]>;
+
+  /**
+   * Reserva a execução da regra para a mensagem (status "running"), antes das ações.
+   * @returns false se a regra já foi reservada para a mensagem (as ações não devem rodar)
+   */
+  claim(execution: ClaimRuleExecution): Promise<boolean>;
+
+  /**
+   * Registra o resultado de uma execução reservada.
+   */
+  complete(execution: CreateRuleExecution): Promise<void>;
+
+  /**
+   * Consulta o log de execuções com filtros e paginação por cursor.
+   */
+  findMany(query: RuleExecutionQuery): Promise<RuleExecutionPage>;
+}
@@ -0,0 +1,76 @@
+import type {
+  Tenant,
+  CreateTenant,
+  UpdateTenant,
+  ProviderAccount,
+  CreateProviderAccount,
+  ResolvedTenant,
+} from '../../domain/entities/Tenant.js';
+import type { Provider } from '../../domain/entities/NormalizedMessage.js';
+
+/**
+ * Interface do repositório de tenants e suas contas nos provedores.
+ * Define as operações de persistência sem acoplar à implementação (Prisma).
+ */
+export interface TenantRepository {
+  /**
+   * Lista todos os tenants (mais antigo primeiro).
+   */
+  findAll(): Promise<Tenant[]>;
+
+  /**
+   * Busca um tenant pelo ID interno.
+   */
+  findById(id: string): Promise<Tenant | null>;
+
+  /**
+   * Busca um tenant pelo slug.
+   */
+  findBySlug(slug: string): Promise<Tenant | null>;
+
+  /**
+   * Cria um tenant.
+   * @throws ResourceConflictError se o slug já existir
+   */
+  create(data: CreateTenant): Promise<Tenant>;
+
+  /**
+   * Altera um tenant.
+   * @throws ResourceNotFoundError se o tenant não existir
+   */
+  update(id: string, data: UpdateTenant): Promise<Tenant>;
+
+  /**
+   * Identifica o tenant pela conta que recebeu o webhook.
+   * @returns Tenant e conta, ou null se a conta não estiver cadastrada
+   */
+  findByAccount(provider: Provider, accountId: string): Promise<ResolvedTenant | null>;
+
+  /**
+   * Identifica o tenant pelo token de verificação (challenge) de uma conta.
+   */
+  findByVerifyToken(provider: Provider, verifyToken: string): Promise<ResolvedTenant | null>;
+
+  /**
+   * Lista as contas do tenant, opcionalmente de um provedor (mais antiga primeiro).
+   */
+  findAccounts(tenantId: string, provider?: Provider): Promise<ProviderAccount[]>;
+
+  /**
+   * Cadastra uma conta de provedor no tenant.
+   * @throws ResourceConflictError se a conta já estiver cadastrada (em qualquer tenant)
+   */
+  addAccount(tenantId: string, data: CreateProviderAccount): Promise<ProviderAccount>;
+
+  /**
+   * Remove uma conta do tenant.
+   * @throws ResourceNotFoundError se a conta não existir no tenant
+   */
+  removeAccount(tenantId: string, id: string): Promise<void>;
+
+  /**
+   * Cria o tenant com suas contas se ainda não houver nenhum tenant cadastrado.
+   * @returns true se o tenant foi criado
+   */
+  seedIfEmpty(tenant: CreateTenant, accounts: CreateProviderAccount[]): Promise<boolean>;
+}